@@ -1,9 +1,170 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import App from './App';
+import { MOCK_BASE_URL, MOCK_MODEL, configureMockProvider, resetMockProvider, getMockRequestCount } from './mockProvider';
+import { BUILT_IN_PIPELINES } from './pipelines';
 
-test('renders learn react link', () => {
+const CHAPTER_WORD_TARGET = 500;
+
+// Run the whole workflow against the offline mock provider
+const useMockSettings = (stream: boolean, extra: Record<string, unknown> = {}) => {
+  localStorage.setItem('ai_story_author_settings', JSON.stringify({
+    ...extra,
+    baseUrl: MOCK_BASE_URL,
+    provider: 'mock',
+    model: MOCK_MODEL,
+    stream,
+    chapterWordTarget: CHAPTER_WORD_TARGET,
+    chapterMaxAttempts: 3,
+    apiKeys: {}
+  }));
+};
+
+const startStory = async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  fireEvent.change(await screen.findByLabelText('Story Prompt'), {
+    target: { value: 'A lighthouse keeper waits for a brother who left twenty years ago.' }
+  });
+  fireEvent.click(screen.getByText('Start'));
+};
+
+const processPlanningSteps = async () => {
+  for (let stepId = 1; stepId <= 5; stepId++) {
+    fireEvent.click(await screen.findByText('Process Step'));
+    fireEvent.click(await screen.findByText('Next Step', {}, { timeout: 5000 }));
+  }
+};
+
+// Write the first unwritten chapter and return the word count of every written chapter
+const writeNextChapter = async (written: number) => {
+  fireEvent.click(screen.getAllByText('Write Chapter')[0]);
+  await waitFor(() => expect(screen.getAllByText('Rewrite')).toHaveLength(written + 1), { timeout: 10000 });
+  return screen.getAllByText(/^[\d,]+ words$/).map(chip => parseInt(chip.textContent!.replace(/,/g, ''), 10));
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  resetMockProvider();
+  configureMockProvider({ chapterCount: 2, chapterWords: 400, chunkWords: 200, chunkDelayMs: 0 });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('runs the planning steps and writes every chapter with streaming', async () => {
+  useMockSettings(true);
+  await startStory();
+  await processPlanningSteps();
+
+  // The brainstorm's CHAPTER_COUNT line sets the number of chapters
+  expect(screen.getByRole('spinbutton')).toHaveValue(2);
+  // Each chapter is outlined from the final plan's chapter planning
+  expect(screen.getByText('Mara faces the harbour.')).toBeInTheDocument();
+  expect(screen.getByText('Theo faces the lighthouse.')).toBeInTheDocument();
+
+  // 400-word responses fall short of the 500-word target, so each chapter is continued once
+  await writeNextChapter(0);
+  const wordCounts = await writeNextChapter(1);
+  expect(wordCounts).toHaveLength(2);
+  wordCounts.forEach(words => expect(words).toBeGreaterThanOrEqual(CHAPTER_WORD_TARGET));
+  expect(getMockRequestCount()).toBe(9);
+}, 30000);
+
+test('stops continuing a short chapter once the attempt limit is reached', async () => {
+  useMockSettings(false);
+  localStorage.setItem('ai_story_author_settings', JSON.stringify({
+    ...JSON.parse(localStorage.getItem('ai_story_author_settings')!),
+    chapterMaxAttempts: 2
+  }));
+  configureMockProvider({ chapterWords: 100 });
+  await startStory();
+  await processPlanningSteps();
+
+  // One chapter request and one continuation, and the chapter is kept although still short
+  const [words] = await writeNextChapter(0);
+  expect(words).toBeLessThan(CHAPTER_WORD_TARGET);
+  expect(getMockRequestCount()).toBe(7);
+}, 30000);
+
+test('falls back to a regular request when the stream disconnects', async () => {
+  useMockSettings(true);
+  configureMockProvider({ failures: [{ request: 1, kind: 'disconnect' }] });
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await startStory();
+
+  fireEvent.click(await screen.findByText('Process Step'));
+  expect(await screen.findByText('Next Step', {}, { timeout: 5000 })).toBeInTheDocument();
+  expect(screen.getByText(/CHAPTER_COUNT: 2/)).toBeInTheDocument();
+  expect(getMockRequestCount()).toBe(2);
 });
+
+test('surfaces a scripted server error on the step', async () => {
+  useMockSettings(false);
+  localStorage.setItem('ai_story_author_settings', JSON.stringify({
+    ...JSON.parse(localStorage.getItem('ai_story_author_settings')!),
+    maxRetries: 0
+  }));
+  configureMockProvider({ failures: [{ request: 1, kind: 'server-error' }] });
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  await startStory();
+
+  fireEvent.click(await screen.findByText('Process Step'));
+  expect(await screen.findByText(/503/, {}, { timeout: 5000 })).toBeInTheDocument();
+  expect(screen.queryByText('Next Step')).not.toBeInTheDocument();
+});
+
+test('skips an optional pipeline step without calling the model', async () => {
+  useMockSettings(false, { pipeline: BUILT_IN_PIPELINES.find(pipeline => pipeline.id === 'world-building') });
+  await startStory();
+
+  for (let stepId = 1; stepId <= 2; stepId++) {
+    fireEvent.click(await screen.findByText('Process Step'));
+    fireEvent.click(await screen.findByText('Next Step', {}, { timeout: 5000 }));
+  }
+  fireEvent.click(await screen.findByText('Skip Step'));
+
+  expect((await screen.findAllByText('Skipped')).length).toBeGreaterThan(0);
+  fireEvent.click(screen.getByText('Next Step'));
+  expect(await screen.findByText('Process Step')).toBeInTheDocument();
+  expect(getMockRequestCount()).toBe(2);
+});
+
+test('a genre preset adds its planning step and sets the chapter count for the story type', async () => {
+  useMockSettings(false);
+  render(<App />);
+
+  fireEvent.click(await screen.findByText('Mystery'));
+  expect(await screen.findByText(/Tracks every clue/)).toBeInTheDocument();
+  expect(screen.getByDisplayValue('5')).toBeInTheDocument();
+
+  fireEvent.click(screen.getByText('Novel'));
+  expect(await screen.findByDisplayValue('24')).toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem('ai_story_author_settings')!)).toMatchObject({
+    chapterWordTarget: 3000,
+    pipeline: { id: 'mystery' }
+  });
+});
+
+test('autopilot runs the whole story, waiting for approval before the chapters', async () => {
+  useMockSettings(false, {
+    autopilot: { runOptionalSteps: false, pauseAfterSteps: [], pauseBeforeChapters: true, pauseAfterEachChapter: false }
+  });
+  render(<App />);
+  fireEvent.change(await screen.findByLabelText('Story Prompt'), {
+    target: { value: 'A lighthouse keeper waits for a brother who left twenty years ago.' }
+  });
+  fireEvent.click(screen.getByText('Autopilot'));
+  fireEvent.click(await screen.findByText('Start Autopilot'));
+
+  fireEvent.click(await screen.findByText('Approve & Continue', {}, { timeout: 10000 }));
+  expect(getMockRequestCount()).toBe(5);
+
+  expect(await screen.findByText(/Autopilot finished/, {}, { timeout: 10000 })).toBeInTheDocument();
+  expect(screen.getByText('2 of 2')).toBeInTheDocument();
+  expect(screen.getByText('5 run')).toBeInTheDocument();
+  expect(getMockRequestCount()).toBe(9);
+}, 30000);
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import {
   ThemeProvider,
   createTheme,
@@ -19,7 +19,15 @@ import {
   Download as DownloadIcon,
   Clear as ClearIcon,
   Refresh as RefreshIcon,
-  FileUpload as FileUploadIcon
+  FileUpload as FileUploadIcon,
+  Save as SaveIcon,
+  MenuBook as MenuBookIcon,
+  Paid as PaidIcon,
+  Storage as StorageIcon,
+  Album as AlbumIcon,
+  EditNote as EditNoteIcon,
+  AccountTree as AccountTreeIcon,
+  AutoMode as AutoModeIcon
 } from '@mui/icons-material';
 import {
   TextField,
@@ -29,15 +37,103 @@ import {
   WorkflowState,
   StoryConfig,
   Message,
-  WORKFLOW_STEPS,
   WorkflowStep,
-  Chapter
+  WorkflowPipeline,
+  AutopilotSettings,
+  ChapterOutline,
+  Chapter,
+  StoryProject,
+  ProjectSummary,
+  SessionCheckpoint,
+  InFlightGeneration,
+  StoryBranch,
+  BranchSnapshot,
+  BranchForkPoint,
+  ExportFormat,
+  ExportOptions,
+  ModelPricing,
+  CassetteStatus
 } from './types';
 import { apiService } from './apiService';
+import { getProviderAdapter } from './providers';
+import { ApiError, DEFAULT_MAX_RETRIES } from './retryPolicy';
 import ConfigurationDialog from './components/ConfigurationDialog';
 import StepNavigation from './components/StepNavigation';
+import ProjectLibrary from './components/ProjectLibrary';
+import BranchManager from './components/BranchManager';
+import ExportDialog from './components/ExportDialog';
+import BookPreview from './components/BookPreview';
+import CostDashboard from './components/CostDashboard';
+import CacheInspector from './components/CacheInspector';
+import CassetteDialog from './components/CassetteDialog';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import PipelineEditor from './components/PipelineEditor';
+import AutopilotDialog from './components/AutopilotDialog';
+import AutopilotPanel from './components/AutopilotPanel';
+import { DEFAULT_CACHE_TTL_HOURS, DEFAULT_CACHE_MAX_SIZE_MB } from './responseCache';
+import { loadModelPricing, saveModelPricing, mergeFetchedPricing } from './pricingStorage';
+import CliImportDropZone from './components/CliImportDropZone';
 import { loadSettings, saveSettings, clearSettings, cleanupCorruptedData } from './secureStorage';
 import { getApiKeyFromEnv, getDefaultConfigFromEnv } from './env';
+import { isIndexedDBAvailable } from './database';
+import {
+  createProjectId,
+  deriveProjectName,
+  toProjectConfig,
+  listProjects,
+  loadProject,
+  saveProject,
+  deleteProject,
+  renameProject,
+  duplicateProject
+} from './projectStorage';
+import {
+  saveCheckpoint,
+  loadCheckpoint,
+  clearCheckpoint,
+  keepPartialGeneration,
+  STREAM_CHECKPOINT_INTERVAL_MS
+} from './checkpointStorage';
+import { createRevision, appendRevision } from './revisionUtils';
+import {
+  CHAPTER_WORD_TARGET,
+  CHAPTER_MAX_ATTEMPTS,
+  countWords,
+  resolveStepRoute,
+  stitchContinuation
+} from './workflowUtils';
+import { buildPrompt, stepTemplateId } from './promptTemplates';
+import {
+  resolvePipeline,
+  createPipelineSteps,
+  getChapterStepId,
+  getChapterContextSteps,
+  switchPipeline
+} from './pipelines';
+import { GENRE_PRESETS, GenrePreset, StoryType, findGenrePreset } from './genrePresets';
+import {
+  findChapterPlan,
+  parseChapterOutlines,
+  applyChapterOutlines,
+  resizeChapters,
+  formatChapterOutline
+} from './chapterOutlines';
+import {
+  AutopilotRun,
+  createAutopilotRun,
+  recordAutopilotEvent,
+  endAutopilotRun,
+  approveAutopilotCheckpoint,
+  getNextAutopilotAction
+} from './autopilot';
+import { MAIN_BRANCH_ID, forkSnapshot, createBranch, syncActiveBranch } from './branchUtils';
+import { getContextLength, getPromptBudget, fitMessagesToContext, buildChapterSummaryPrompt } from './contextUtils';
+import { buildEpub } from './epubExport';
+import { buildDocx } from './docxExport';
+import { renderBookHtml } from './bookRenderer';
+import { downloadBlob, toFileStem } from './manuscriptUtils';
+import { exportProjectZip, exportProjectJson, importProjectBundle } from './projectBundle';
+import { readCliFiles, buildProjectFromCliOutput } from './cliImport';
 
 const theme = createTheme({
   palette: {
@@ -52,15 +148,8 @@ const theme = createTheme({
 });
 
 // Helper functions
-const createInitialSteps = (): WorkflowStep[] => {
-  return WORKFLOW_STEPS.map(stepInfo => ({
-    id: stepInfo.id,
-    name: stepInfo.name,
-    content: '',
-    completed: false,
-    feedback: '',
-    isProcessing: false
-  }));
+const createInitialSteps = (pipeline?: WorkflowPipeline): WorkflowStep[] => {
+  return createPipelineSteps(resolvePipeline(pipeline));
 };
 
 const createInitialChapters = (count: number): Chapter[] => {
@@ -87,6 +176,17 @@ const createDefaultConfig = (): StoryConfig => {
   };
 };
 
+interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+interface ResumeOffer {
+  checkpoint: SessionCheckpoint;
+  project: StoryProject;
+}
+
 // Common model mappings for different providers
 const MODEL_MAPPINGS: Record<string, Record<string, string>> = {
   'https://openrouter.ai/api/v1': {
@@ -116,6 +216,17 @@ function App() {
   });
 
   const [showConfig, setShowConfig] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showBookPreview, setShowBookPreview] = useState(false);
+  const [showCostDashboard, setShowCostDashboard] = useState(false);
+  const [showCacheInspector, setShowCacheInspector] = useState(false);
+  const [showCassette, setShowCassette] = useState(false);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
+  const [showPipelines, setShowPipelines] = useState(false);
+  const [showAutopilot, setShowAutopilot] = useState(false);
+  const [autopilot, setAutopilot] = useState<AutopilotRun | null>(null);
+  const [cassetteMode, setCassetteMode] = useState<CassetteStatus['mode']>('off');
+  const [modelPricing, setModelPricing] = useState<Record<string, ModelPricing>>(() => loadModelPricing());
   const [storyPrompt, setStoryPrompt] = useState('Write me a short story about a robot learning to understand human emotions.');
   const [storyType, setStoryType] = useState<'short-story' | 'novel'>('short-story');
   const [chapterCount, setChapterCount] = useState(3);
@@ -125,6 +236,17 @@ function App() {
   const [messages, setMessages] = useState<Message[]>([
     { role: 'system', content: 'You are a helpful assistant' }
   ]);
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [resumeOffer, setResumeOffer] = useState<ResumeOffer | null>(null);
+  const [pendingRegeneration, setPendingRegeneration] = useState<InFlightGeneration | null>(null);
+  const lastStreamCheckpointRef = useRef(0);
+  const summarizingChapterRef = useRef<number | null>(null);
+  const [branches, setBranches] = useState<StoryBranch[]>([]);
+  const [activeBranchId, setActiveBranchId] = useState<string>(MAIN_BRANCH_ID);
+  const pipeline = resolvePipeline(workflowState.config.pipeline);
+  const chapterStepId = getChapterStepId(pipeline);
+  const genrePreset = findGenrePreset(pipeline);
 
   // Map model names between providers
   const mapModelForProvider = useCallback((model: string, baseUrl: string): string => {
@@ -215,16 +337,420 @@ function App() {
     loadStoredSettings();
   }, []);
 
-  // Re-initialize chapters when chapter count changes
+  // Surface automatic retries as a countdown on the step being generated
   React.useEffect(() => {
-    if (workflowState.currentStep > 0) {
+    apiService.setRetryListener(status => {
+      setWorkflowState(prev => ({ ...prev, retryStatus: status || undefined }));
+    });
+    return () => apiService.setRetryListener(null);
+  }, []);
+
+  // Attach the token usage of each API call to the step or chapter being generated (or summarized)
+  React.useEffect(() => {
+    apiService.setUsageListener(usage => {
+      const summarizingChapterId = summarizingChapterRef.current;
       setWorkflowState(prev => ({
         ...prev,
-        chapters: createInitialChapters(chapterCount)
+        steps: prev.steps.map(step =>
+          step.isProcessing && summarizingChapterId === null ? { ...step, usage: [...(step.usage || []), usage] } : step
+        ),
+        chapters: prev.chapters.map(chapter =>
+          (summarizingChapterId === null ? chapter.isProcessing : chapter.id === summarizingChapterId)
+            ? { ...chapter, usage: [...(chapter.usage || []), usage] }
+            : chapter
+        )
       }));
+    });
+    return () => apiService.setUsageListener(null);
+  }, []);
+
+  // Collect reasoning traces on the step or chapter being generated (summaries keep none)
+  React.useEffect(() => {
+    apiService.setReasoningListener(reasoning => {
+      if (summarizingChapterRef.current !== null) return;
+      setWorkflowState(prev => ({
+        ...prev,
+        steps: prev.steps.map(step =>
+          step.isProcessing ? { ...step, reasoning: (step.reasoning || '') + reasoning } : step
+        ),
+        chapters: prev.chapters.map(chapter =>
+          chapter.isProcessing ? { ...chapter, reasoning: (chapter.reasoning || '') + reasoning } : chapter
+        )
+      }));
+    });
+    return () => apiService.setReasoningListener(null);
+  }, []);
+
+  const handlePricingChange = useCallback((pricing: Record<string, ModelPricing>) => {
+    setModelPricing(pricing);
+    try {
+      saveModelPricing(pricing);
+    } catch (error) {
+      console.error('Failed to save model pricing:', error);
+    }
+  }, []);
+
+  const handleCassetteStatus = useCallback((status: CassetteStatus) => {
+    setCassetteMode(status.mode);
+  }, []);
+
+  const fetchModelPricing = useCallback(async () => {
+    const fetched = await apiService.fetchModelPricing(getCurrentApiKey(), workflowState.config.baseUrl);
+    handlePricingChange(mergeFetchedPricing(modelPricing, fetched));
+  }, [getCurrentApiKey, workflowState.config.baseUrl, modelPricing, handlePricingChange]);
+
+  React.useEffect(() => {
+    apiService.setMaxRetries(workflowState.config.maxRetries ?? DEFAULT_MAX_RETRIES);
+  }, [workflowState.config.maxRetries]);
+
+  React.useEffect(() => {
+    apiService.setCachePolicy(
+      workflowState.config.cacheTtlHours ?? DEFAULT_CACHE_TTL_HOURS,
+      workflowState.config.cacheMaxSizeMb ?? DEFAULT_CACHE_MAX_SIZE_MB
+    );
+  }, [workflowState.config.cacheTtlHours, workflowState.config.cacheMaxSizeMb]);
+
+  // Add or remove chapters when the chapter count changes, keeping what is written and planned
+  React.useEffect(() => {
+    if (workflowState.currentStep > 0) {
+      setWorkflowState(prev => (
+        prev.chapters.length === chapterCount
+          ? prev
+          : { ...prev, chapters: resizeChapters(prev.chapters, chapterCount) }
+      ));
     }
   }, [chapterCount, workflowState.currentStep]);
 
+  // Outline each chapter from the latest chapter planning
+  const chapterPlan = useMemo(
+    () => findChapterPlan(workflowState.steps, chapterStepId),
+    [workflowState.steps, chapterStepId]
+  );
+  React.useEffect(() => {
+    if (!chapterPlan) return;
+    const outlines = parseChapterOutlines(chapterPlan);
+    setWorkflowState(prev => {
+      const chapters = applyChapterOutlines(prev.chapters, outlines);
+      return chapters === prev.chapters ? prev : { ...prev, chapters };
+    });
+  }, [chapterPlan, workflowState.chapters.length]);
+
+  const refreshProjects = useCallback(async () => {
+    if (!isIndexedDBAvailable()) return;
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error('Failed to refresh project library:', error);
+    }
+  }, []);
+
+  // Load the project library on app initialization
+  React.useEffect(() => {
+    refreshProjects();
+  }, [refreshProjects]);
+
+  // The live state of the active branch
+  const liveSnapshot = useMemo((): BranchSnapshot => ({
+    currentStep: workflowState.currentStep,
+    chapterCount,
+    steps: workflowState.steps,
+    chapters: workflowState.chapters,
+    messages
+  }), [workflowState.currentStep, chapterCount, workflowState.steps, workflowState.chapters, messages]);
+
+  const syncedBranches = useMemo(
+    () => syncActiveBranch(branches, activeBranchId, liveSnapshot),
+    [branches, activeBranchId, liveSnapshot]
+  );
+
+  // Build a persistable snapshot of the current story
+  const buildProject = useCallback((meta: ProjectMeta): StoryProject => ({
+    id: meta.id,
+    name: meta.name,
+    createdAt: meta.createdAt,
+    updatedAt: Date.now(),
+    storyPrompt,
+    storyType,
+    chapterCount,
+    currentStep: workflowState.currentStep,
+    steps: workflowState.steps,
+    chapters: workflowState.chapters,
+    messages,
+    config: toProjectConfig(workflowState.config),
+    branches: syncedBranches,
+    activeBranchId
+  }), [storyPrompt, storyType, chapterCount, workflowState.currentStep, workflowState.steps, workflowState.chapters, workflowState.config, messages, syncedBranches, activeBranchId]);
+
+  const saveCurrentProject = useCallback(async () => {
+    if (!projectMeta || !isIndexedDBAvailable()) return;
+    try {
+      await saveProject(buildProject(projectMeta));
+      await saveCheckpoint(projectMeta.id, workflowState.currentStep);
+      await refreshProjects();
+    } catch (error) {
+      setWorkflowState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to save project'
+      }));
+    }
+  }, [projectMeta, buildProject, refreshProjects, workflowState.currentStep]);
+
+  // Checkpoint partial output while a response streams, throttled to avoid excessive writes
+  const checkpointStream = useCallback((
+    kind: InFlightGeneration['kind'],
+    targetId: number,
+    partialContent: string,
+    model: string,
+    temperature: number | undefined
+  ) => {
+    if (!projectMeta) return;
+    const now = Date.now();
+    if (now - lastStreamCheckpointRef.current < STREAM_CHECKPOINT_INTERVAL_MS) return;
+    lastStreamCheckpointRef.current = now;
+    saveCheckpoint(projectMeta.id, workflowState.currentStep, {
+      kind,
+      targetId,
+      partialContent,
+      model,
+      temperature,
+      updatedAt: now
+    });
+  }, [projectMeta, workflowState.currentStep]);
+
+  // Offer to resume the last session on app initialization
+  React.useEffect(() => {
+    const loadLastSession = async () => {
+      const checkpoint = await loadCheckpoint();
+      if (!checkpoint) return;
+      try {
+        const project = await loadProject(checkpoint.projectId);
+        if (project && (project.currentStep > 0 || checkpoint.inFlight)) {
+          setResumeOffer({ checkpoint, project });
+        }
+      } catch (error) {
+        console.error('Failed to load last session:', error);
+      }
+    };
+
+    loadLastSession();
+  }, []);
+
+  // Persist the open project whenever its data settles
+  React.useEffect(() => {
+    if (!projectMeta || workflowState.isProcessing) return;
+    const timer = setTimeout(() => {
+      saveCurrentProject();
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [projectMeta, workflowState.isProcessing, saveCurrentProject]);
+
+  const applyProject = useCallback((project: StoryProject) => {
+    setProjectMeta({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setStoryPrompt(project.storyPrompt);
+    setStoryType(project.storyType);
+    setChapterCount(project.chapterCount);
+    setSuggestedChapterCount(null);
+    setAutopilot(null);
+    setMessages(project.messages);
+    setBranches(project.branches || []);
+    setActiveBranchId(project.activeBranchId || MAIN_BRANCH_ID);
+    setWorkflowState(prev => ({
+      ...prev,
+      currentStep: project.currentStep,
+      steps: project.steps,
+      chapters: project.chapters,
+      config: {
+        ...prev.config,
+        ...project.config,
+        pipeline: project.config.pipeline, // Projects saved without one use the classic pipeline
+        apiKey: prev.config.apiKey
+      },
+      isProcessing: false,
+      error: undefined,
+      streamingContent: '',
+      isStreaming: false
+    }));
+  }, []);
+
+  const openProject = useCallback(async (projectId: string) => {
+    if (workflowState.isProcessing) return;
+    try {
+      const project = await loadProject(projectId);
+      if (!project) {
+        throw new Error('Project not found');
+      }
+      setResumeOffer(null);
+      applyProject(project);
+    } catch (error) {
+      setWorkflowState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to open project'
+      }));
+    }
+  }, [workflowState.isProcessing, applyProject]);
+
+  // Resume the last session, either keeping the partial stream or regenerating it
+  const resumeLastSession = useCallback((keepPartial: boolean) => {
+    if (!resumeOffer) return;
+    const { checkpoint, project } = resumeOffer;
+    const inFlight = checkpoint.inFlight;
+    setResumeOffer(null);
+
+    if (!inFlight) {
+      applyProject(project);
+      return;
+    }
+
+    if (!keepPartial) {
+      applyProject(project);
+      setPendingRegeneration(inFlight);
+      return;
+    }
+
+    applyProject(keepPartialGeneration(project, inFlight));
+  }, [resumeOffer, applyProject]);
+
+  // Replace the live story state with a branch snapshot
+  const applySnapshot = useCallback((snapshot: BranchSnapshot) => {
+    setChapterCount(snapshot.chapterCount);
+    setMessages(snapshot.messages);
+    setWorkflowState(prev => ({
+      ...prev,
+      currentStep: snapshot.currentStep,
+      steps: snapshot.steps,
+      chapters: snapshot.chapters,
+      error: undefined,
+      streamingContent: '',
+      isStreaming: false
+    }));
+  }, []);
+
+  const switchBranch = useCallback((branchId: string) => {
+    if (workflowState.isProcessing || branchId === activeBranchId) return;
+    const target = syncedBranches.find(branch => branch.id === branchId);
+    if (!target) return;
+
+    setBranches(syncedBranches);
+    setActiveBranchId(branchId);
+    applySnapshot(target);
+  }, [workflowState.isProcessing, activeBranchId, syncedBranches, applySnapshot]);
+
+  const forkBranch = useCallback((name: string, kind: BranchForkPoint['kind'], targetId: number) => {
+    if (workflowState.isProcessing) return;
+    const snapshot = forkSnapshot(liveSnapshot, kind, targetId);
+    const branch = createBranch(name, snapshot, { branchId: activeBranchId, kind, targetId });
+
+    setBranches([...syncedBranches, branch]);
+    setActiveBranchId(branch.id);
+    applySnapshot(snapshot);
+  }, [workflowState.isProcessing, liveSnapshot, activeBranchId, syncedBranches, applySnapshot]);
+
+  const deleteBranch = useCallback((branchId: string) => {
+    if (workflowState.isProcessing || branchId === MAIN_BRANCH_ID) return;
+    const remaining = syncedBranches.filter(branch => branch.id !== branchId);
+    setBranches(remaining);
+
+    if (branchId === activeBranchId) {
+      const main = remaining.find(branch => branch.id === MAIN_BRANCH_ID) || remaining[0];
+      setActiveBranchId(main?.id || MAIN_BRANCH_ID);
+      if (main) {
+        applySnapshot(main);
+      }
+    }
+  }, [workflowState.isProcessing, syncedBranches, activeBranchId, applySnapshot]);
+
+  const dismissLastSession = useCallback(() => {
+    setResumeOffer(null);
+    clearCheckpoint();
+  }, []);
+
+  const handleImportProject = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || workflowState.isProcessing) return;
+
+    try {
+      const imported = await importProjectBundle(file);
+      // Keep the imported project's identity unless it would overwrite a different local project
+      const existing = isIndexedDBAvailable() ? await loadProject(imported.id) : null;
+      const project = existing ? { ...imported, id: createProjectId() } : imported;
+      if (isIndexedDBAvailable()) {
+        await saveProject(project);
+        await refreshProjects();
+      }
+      setResumeOffer(null);
+      applyProject(project);
+    } catch (error) {
+      setWorkflowState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to import project'
+      }));
+    }
+  }, [workflowState.isProcessing, refreshProjects, applyProject]);
+
+  const handleCliImport = useCallback(async (files: File[]) => {
+    if (workflowState.isProcessing) return;
+
+    try {
+      const cliFiles = await readCliFiles(files);
+      const project = buildProjectFromCliOutput(cliFiles, toProjectConfig(workflowState.config));
+      if (isIndexedDBAvailable()) {
+        await saveProject(project);
+        await refreshProjects();
+      }
+      setResumeOffer(null);
+      applyProject(project);
+    } catch (error) {
+      setWorkflowState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to import CLI output'
+      }));
+    }
+  }, [workflowState.isProcessing, workflowState.config, refreshProjects, applyProject]);
+
+  const handleDuplicateProject = useCallback(async (projectId: string) => {
+    try {
+      await duplicateProject(projectId);
+      await refreshProjects();
+    } catch (error) {
+      setWorkflowState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to duplicate project'
+      }));
+    }
+  }, [refreshProjects]);
+
+  const handleRenameProject = useCallback(async (projectId: string, name: string) => {
+    try {
+      const renamed = await renameProject(projectId, name);
+      if (projectMeta?.id === projectId) {
+        setProjectMeta(prev => prev ? { ...prev, name: renamed.name } : prev);
+      }
+      await refreshProjects();
+    } catch (error) {
+      setWorkflowState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to rename project'
+      }));
+    }
+  }, [projectMeta, refreshProjects]);
+
+  const handleDeleteProject = useCallback(async (projectId: string) => {
+    try {
+      await deleteProject(projectId);
+      if (projectMeta?.id === projectId) {
+        setProjectMeta(null);
+        clearCheckpoint();
+      }
+      await refreshProjects();
+    } catch (error) {
+      setWorkflowState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to delete project'
+      }));
+    }
+  }, [projectMeta, refreshProjects]);
+
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -269,7 +795,7 @@ function App() {
       isStreaming: workflowState.config.stream,
       // Reset step completion status when re-running
       steps: prev.steps.map(step =>
-        step.id === stepId ? { ...step, completed: false, content: '' } : step
+        step.id === stepId ? { ...step, completed: false, skipped: false, content: '', reasoning: undefined, isProcessing: true } : step
       )
     }));
 
@@ -280,33 +806,17 @@ function App() {
       // Get feedback for current step
       const currentStep = workflowState.steps.find(step => step.id === stepId);
       const stepFeedback = currentStep?.feedback || '';
+      const route = resolveStepRoute(workflowState.config, stepId);
+      const stepModel = mapModelForProvider(route.model, workflowState.config.baseUrl);
 
-      // Build prompt based on step
-      let prompt = '';
-      const storyTypeLabel = storyType === 'short-story' ? 'short story' : 'novel';
-
-      if (stepId === 1) {
-        // Step 1: Brainstorm & Reflection
-        prompt = `Initial Writing Prompt:\n${storyPrompt}\n--\nYour task is to create a writing plan for this prompt. The scope will be a ${storyTypeLabel}; do not assume a fixed number of chapters yet. Your plan should be comprehensive and in this format:\n# Brainstorming\n<Brainstorm ideas for characters, plot, tone, story beats, and possible pacing. The purpose of brainstorming is to cast a wide net of ideas, not to settle on any specific direction. Think about various ways you could take the prompt.>\n# Reflection\n<Reflect out loud on what works and doesn't work in these ideas. The purpose of this reflection is to narrow in on what you think will work best to make a piece that is a. compelling, and b. fits the prompt requirements. You are not making any decisions just yet, just reflecting.>\nFinally, propose the ideal number of chapters for this ${storyTypeLabel} based on the prompt and your analysis.\nOutput a single line at the end in this exact format so it can be parsed reliably:\nCHAPTER_COUNT: <integer>`;
-      } else if (stepId === 2) {
-        // Step 2: Intention & Chapter Planning - include original prompt context
-        prompt = `Original Story Prompt:\n${storyPrompt}\n\nGreat now let's continue with planning the ${storyTypeLabel}. Output in this format:\n# Intention\n<State your formulated intentions for the piece, synthesised from the parts of the brainstorming session that worked, and avoiding the parts that didn't. Be explicit about the choices you have made about plot, voice, stylistic choices, things you intend to aim for & avoid.>\n# Chapter Planning\n<Write a brief chapter plan for all ${chapterCount} chapters.>`;
-      } else if (stepId === 3) {
-        // Step 3: Human vs LLM Critique - include original prompt and previous context
-        prompt = `Original Story Prompt:\n${storyPrompt}\n\nWith a view to making the writing more human, discuss how a human might approach this particular piece (given the original prompt). Discuss telltale LLM approaches to writing (generally) and ways they might not serve this particular piece. For example, common LLM failings are to write safely, or to always wrap things up with a bow, or trying to write impressively at the expense of readability. Then do a deep dive on the intention & plan, critiquing ways it might be falling into typical LLM tropes & pitfalls. Brainstorm ideas to make it more human. Be comprehensive. We aren't doing any rewriting of the plan yet, just critique & brainstorming.`;
-      } else if (stepId === 4) {
-        // Step 4: Final Plan - include original prompt and all previous context
-        const wordTarget = workflowState.config.chapterWordTarget || 3000;
-        prompt = `Original Story Prompt:\n${storyPrompt}\n\nOk now with these considerations in mind, formulate the final plan for a human like, compelling ${storyTypeLabel} in ${chapterCount} chapters. Bear in mind the constraints of the piece (each chapter is approximately ${wordTarget} words). Above all things, the plan must serve the original prompt. We will use the same format as before:\n# Intention\n<State your formulated intentions for the piece, synthesised from the parts of the brainstorming session that worked, and avoiding the parts that didn't. Be explicit about the choices you have made about plot, voice, stylistic choices, things you intend to aim for & avoid.>\n# Chapter Planning\n<Write a brief chapter plan for all ${chapterCount} chapters.>`;
-      } else if (stepId === 5) {
-        // Step 5: Characters - include original prompt and all previous context
-        prompt = `Original Story Prompt:\n${storyPrompt}\n\nPerfect. Now with the outline more crystallised, and bearing in mind the discussion on human writing vs LLM pitfalls, we will flesh out our characters. Lets go through each of our main characters:\n- Write about their background, personality, idiosyncrasies, flaws. Be specific and come up with examples to anchor & ground the character's profile (both core and trivial)\n- Briefly describe their physicality: appearance, how they carry themselves, express, interact with the world.\n- Concisely detail their motives, allegiances and existing relationships. Think from the perspective of the character as a real breathing thinking feeling individual in this world.\n- Write a couple quotes of flavour dialogue / internal monologue from the character to experiment with their voice.\nOutput like this:\n# Character 1 name\n<character exploration>\n# Character 2 name\n<character exploration>\n etc`;
-      }
-
-      // Add feedback to the prompt if it exists
-      if (stepFeedback.trim()) {
-        prompt += `\n\n--- FEEDBACK TO APPLY ---\n${stepFeedback}\n\nPlease incorporate this feedback into your response above.`;
-      }
+      // Build the prompt from the step's template
+      const prompt = buildPrompt(workflowState.config.promptTemplates, stepTemplateId(stepId), {
+        storyPrompt,
+        storyType: storyType === 'short-story' ? 'short story' : 'novel',
+        chapterCount,
+        wordTarget: workflowState.config.chapterWordTarget || CHAPTER_WORD_TARGET,
+        feedback: stepFeedback
+      }, pipeline);
 
       messagesToUse.push({ role: 'user', content: prompt });
 
@@ -314,11 +824,10 @@ function App() {
         // Use streaming
         let fullContent = '';
         try {
-          const mappedModel = mapModelForProvider(workflowState.config.model, workflowState.config.baseUrl);
           const streamGenerator = apiService.chatCompletionStream(
             messagesToUse,
-            mappedModel,
-            workflowState.config.temperature,
+            stepModel,
+            route.temperature,
             getCurrentApiKey(),
             workflowState.config.baseUrl,
             (chunk: string) => {
@@ -327,22 +836,28 @@ function App() {
                 ...prev,
                 streamingContent: fullContent
               }));
-            }
+              checkpointStream('step', stepId, fullContent, stepModel, route.temperature);
+            },
+            workflowState.config.provider,
+            route.sampling
           );
 
-          for await (const chunk of streamGenerator) {
-            console.info('Received chunk:', chunk);
-          }
+          // Streaming is handled by the callback above; reading the generator drives it
+          let next = await streamGenerator.next();
+          while (!next.done) next = await streamGenerator.next();
         } catch (error) {
           console.error('Streaming error:', error);
+          // HTTP errors have already been retried, so a non-streaming request would fail the same way
+          if (error instanceof ApiError) throw error;
           // Fallback to regular API call
-          const mappedModel = mapModelForProvider(workflowState.config.model, workflowState.config.baseUrl);
           const content = await apiService.chatCompletion(
             messagesToUse,
-            mappedModel,
-            workflowState.config.temperature,
+            stepModel,
+            route.temperature,
             getCurrentApiKey(),
-            workflowState.config.baseUrl
+            workflowState.config.baseUrl,
+            workflowState.config.provider,
+            route.sampling
           );
           fullContent = content;
         }
@@ -350,51 +865,66 @@ function App() {
         setWorkflowState(prev => ({
           ...prev,
           steps: prev.steps.map(step =>
-            step.id === stepId ? { ...step, content: fullContent, completed: true } : step
+            step.id === stepId
+              ? {
+                  ...step,
+                  content: fullContent,
+                  completed: true,
+                  isProcessing: false,
+                  model: stepModel,
+                  revisions: appendRevision(step.revisions, createRevision(fullContent, stepModel, route.temperature, stepFeedback))
+                }
+              : step
           ),
           isProcessing: false,
           streamingContent: '',
           isStreaming: false
         }));
 
-        setMessages(prev => [...prev, { role: 'assistant', content: fullContent }]);
+        setMessages(prev => [...prev, { role: 'assistant', content: fullContent, stepId }]);
 
-        // Parse chapter count suggestion from step 1 response
-        if (stepId === 1) {
-          const suggestedCount = parseChapterCountFromResponse(fullContent);
-          if (suggestedCount) {
-            setSuggestedChapterCount(suggestedCount);
-            setChapterCount(suggestedCount);
-          }
+        // Parse chapter count suggestion from any step that proposes one
+        const suggestedCount = parseChapterCountFromResponse(fullContent);
+        if (suggestedCount) {
+          setSuggestedChapterCount(suggestedCount);
+          setChapterCount(suggestedCount);
         }
       } else {
         // Use regular API call
-        const mappedModel = mapModelForProvider(workflowState.config.model, workflowState.config.baseUrl);
         const content = await apiService.chatCompletion(
           messagesToUse,
-          mappedModel,
-          workflowState.config.temperature,
+          stepModel,
+          route.temperature,
           getCurrentApiKey(),
-          workflowState.config.baseUrl
+          workflowState.config.baseUrl,
+          workflowState.config.provider,
+          route.sampling
         );
 
         setWorkflowState(prev => ({
           ...prev,
           steps: prev.steps.map(step =>
-            step.id === stepId ? { ...step, content, completed: true } : step
+            step.id === stepId
+              ? {
+                  ...step,
+                  content,
+                  completed: true,
+                  isProcessing: false,
+                  model: stepModel,
+                  revisions: appendRevision(step.revisions, createRevision(content, stepModel, route.temperature, stepFeedback))
+                }
+              : step
           ),
           isProcessing: false
         }));
 
-        setMessages(prev => [...prev, { role: 'assistant', content }]);
+        setMessages(prev => [...prev, { role: 'assistant', content, stepId }]);
 
-        // Parse chapter count suggestion from step 1 response
-        if (stepId === 1) {
-          const suggestedCount = parseChapterCountFromResponse(content);
-          if (suggestedCount) {
-            setSuggestedChapterCount(suggestedCount);
-            setChapterCount(suggestedCount);
-          }
+        // Parse chapter count suggestion from any step that proposes one
+        const suggestedCount = parseChapterCountFromResponse(content);
+        if (suggestedCount) {
+          setSuggestedChapterCount(suggestedCount);
+          setChapterCount(suggestedCount);
         }
       }
 
@@ -406,6 +936,7 @@ function App() {
           isProcessing: false,
           streamingContent: '',
           isStreaming: false,
+          steps: prev.steps.map(step => ({ ...step, isProcessing: false })),
           error: 'Step processing was cancelled'
         }));
       } else {
@@ -414,11 +945,33 @@ function App() {
           isProcessing: false,
           streamingContent: '',
           isStreaming: false,
+          steps: prev.steps.map(step => ({ ...step, isProcessing: false })),
           error: error instanceof Error ? error.message : 'An error occurred'
         }));
       }
     }
-  }, [workflowState.config, workflowState.isProcessing, workflowState.steps, messages, chapterCount, storyType, getCurrentApiKey, mapModelForProvider, parseChapterCountFromResponse, storyPrompt]);
+  }, [workflowState.config, workflowState.isProcessing, workflowState.steps, messages, chapterCount, storyType, pipeline, getCurrentApiKey, mapModelForProvider, parseChapterCountFromResponse, storyPrompt, checkpointStream]);
+
+  // Summarize a chapter so the summary can stand in for its full text in later prompts
+  const generateChapterSummary = useCallback(async (chapter: Chapter): Promise<string> => {
+    const route = resolveStepRoute(workflowState.config, chapterStepId);
+    summarizingChapterRef.current = chapter.id;
+    try {
+      const summary = await apiService.chatCompletion(
+        [{ role: 'user', content: buildChapterSummaryPrompt(chapter.id, chapter.content) }],
+        mapModelForProvider(route.model, workflowState.config.baseUrl),
+        route.temperature,
+        getCurrentApiKey(),
+        workflowState.config.baseUrl,
+        workflowState.config.provider,
+        route.sampling,
+        false // A pending cache skip is meant for the chapter, not its summaries
+      );
+      return summary.trim();
+    } finally {
+      summarizingChapterRef.current = null;
+    }
+  }, [workflowState.config, chapterStepId, getCurrentApiKey, mapModelForProvider]);
 
   const processChapter = useCallback(async (chapterId: number) => {
     if (workflowState.isProcessing) return;
@@ -430,106 +983,179 @@ function App() {
       streamingContent: '',
       isStreaming: workflowState.config.stream,
       chapters: prev.chapters.map(chapter =>
-        chapter.id === chapterId ? { ...chapter, isProcessing: true, content: '' } : chapter
+        chapter.id === chapterId ? { ...chapter, isProcessing: true, attempt: 1, content: '', reasoning: undefined } : chapter
       )
     }));
 
     try {
-      const wordTarget = workflowState.config.chapterWordTarget || 3000;
+      const wordTarget = workflowState.config.chapterWordTarget || CHAPTER_WORD_TARGET;
       const chapterStoryTypeLabel = workflowState.config.storyType === 'short-story' ? 'short story' : 'novel';
 
       // Get feedback for current chapter
       const currentChapter = workflowState.chapters.find(chapter => chapter.id === chapterId);
       const chapterFeedback = currentChapter?.feedback || '';
+      const route = resolveStepRoute(workflowState.config, chapterStepId);
 
-      let chapterPrompt = `Original Story Prompt:\n${storyPrompt}\n\nWrite Chapter ${chapterId} of the ${chapterStoryTypeLabel}, following the approved plan and prior chapters.\n- Produce at least ${wordTarget} words of narrative prose.\n- Count only the words in your final story text; do not include planning notes or analysis.\n- Output only the polished chapter text (you may open with a 'Chapter ${chapterId}' heading if that matches the style), and do not mention the word count or include any commentary.`;
-
-      // Add feedback to the prompt if it exists
-      if (chapterFeedback.trim()) {
-        chapterPrompt += `\n\n--- FEEDBACK TO APPLY ---\n${chapterFeedback}\n\nPlease incorporate this feedback into your response above.`;
+      const chapterPrompt = buildPrompt(workflowState.config.promptTemplates, 'chapter', {
+        storyPrompt,
+        storyType: chapterStoryTypeLabel,
+        chapterCount,
+        wordTarget,
+        chapterIndex: chapterId,
+        chapterOutline: currentChapter?.outline ? formatChapterOutline(currentChapter.outline) : undefined,
+        feedback: chapterFeedback
+      }, pipeline);
+
+      const chapterModel = mapModelForProvider(route.model, workflowState.config.baseUrl);
+      const maxAttempts = Math.max(1, workflowState.config.chapterMaxAttempts || CHAPTER_MAX_ATTEMPTS);
+
+      // Replace older chapters with summaries when the full history would overflow the context window
+      const fullMessages: Message[] = [...messages, { role: 'user', content: chapterPrompt }];
+      const promptBudget = getPromptBudget(getContextLength(chapterModel, workflowState.config.contextLength), wordTarget, route.sampling?.maxTokens);
+      let contextPlan = fitMessagesToContext(fullMessages, getChapterContextSteps(pipeline, workflowState.steps), workflowState.chapters, promptBudget);
+      const missingSummaries = workflowState.chapters.filter(chapter =>
+        contextPlan.summarizedChapterIds.includes(chapter.id) && !chapter.summary
+      );
+      if (missingSummaries.length > 0) {
+        const summaries: Record<number, string> = {};
+        for (const chapter of missingSummaries) {
+          summaries[chapter.id] = await generateChapterSummary(chapter);
+        }
+        const withSummary = (chapter: Chapter): Chapter =>
+          summaries[chapter.id] ? { ...chapter, summary: summaries[chapter.id] } : chapter;
+        setWorkflowState(prev => ({ ...prev, chapters: prev.chapters.map(withSummary) }));
+        contextPlan = fitMessagesToContext(fullMessages, getChapterContextSteps(pipeline, workflowState.steps), workflowState.chapters.map(withSummary), promptBudget);
       }
+      if (!contextPlan.fits) {
+        console.warn(`Chapter ${chapterId} prompt is about ${contextPlan.estimatedTokens} tokens, over the ${promptBudget} token budget`);
+      }
+      const chapterMessages = contextPlan.messages;
+
+      // Generate one pass of chapter text; prefix is the chapter so far when continuing
+      const generateChapterText = async (requestMessages: Message[], prefix: string): Promise<string> => {
+        if (!workflowState.config.stream) {
+          return apiService.chatCompletion(
+            requestMessages,
+            chapterModel,
+            route.temperature,
+            getCurrentApiKey(),
+            workflowState.config.baseUrl,
+            workflowState.config.provider,
+            route.sampling
+          );
+        }
 
-      const chapterMessages: Message[] = [...messages, { role: 'user', content: chapterPrompt }];
-
-      if (workflowState.config.stream) {
         // Use streaming for chapter writing
-        let fullContent = '';
+        let streamedContent = '';
         try {
-          const mappedModel = mapModelForProvider(workflowState.config.model, workflowState.config.baseUrl);
           const streamGenerator = apiService.chatCompletionStream(
-            chapterMessages,
-            mappedModel,
-            workflowState.config.temperature,
+            requestMessages,
+            chapterModel,
+            route.temperature,
             getCurrentApiKey(),
             workflowState.config.baseUrl,
             (chunk: string) => {
-              fullContent += chunk;
+              streamedContent += chunk;
+              const preview = prefix ? stitchContinuation(prefix, streamedContent) : streamedContent;
               setWorkflowState(prev => ({
                 ...prev,
-                streamingContent: fullContent
+                streamingContent: preview
               }));
-            }
+              checkpointStream('chapter', chapterId, preview, chapterModel, route.temperature);
+            },
+            workflowState.config.provider,
+            route.sampling
           );
 
-          for await (const _chunk of streamGenerator) {
-            // Streaming is handled by the callback above
-            console.info('Received chapter chunk' + _chunk);
-          }
+          // Streaming is handled by the callback above; reading the generator drives it
+          let next = await streamGenerator.next();
+          while (!next.done) next = await streamGenerator.next();
         } catch (error) {
           console.error('Chapter streaming error:', error);
+          // HTTP errors have already been retried, so a non-streaming request would fail the same way
+          if (error instanceof ApiError) throw error;
           // Fallback to regular API call
-          const mappedModel = mapModelForProvider(workflowState.config.model, workflowState.config.baseUrl);
-          const content = await apiService.chatCompletion(
-            chapterMessages,
-            mappedModel,
-            workflowState.config.temperature,
+          streamedContent = await apiService.chatCompletion(
+            requestMessages,
+            chapterModel,
+            route.temperature,
             getCurrentApiKey(),
-            workflowState.config.baseUrl
+            workflowState.config.baseUrl,
+            workflowState.config.provider,
+            route.sampling
           );
-          fullContent = content;
         }
+        return streamedContent;
+      };
 
-        const wordCount = fullContent.split(/\s+/).filter(word => word.length > 0).length;
+      let fullContent = await generateChapterText(chapterMessages, '');
 
+      // Ask the model to keep going until the chapter reaches its word target or attempts run out
+      for (let attempt = 2; attempt <= maxAttempts && countWords(fullContent) < wordTarget; attempt++) {
         setWorkflowState(prev => ({
           ...prev,
           chapters: prev.chapters.map(chapter =>
-            chapter.id === chapterId
-              ? { ...chapter, content: fullContent, wordCount, completed: true, isProcessing: false }
-              : chapter
-          ),
-          isProcessing: false,
-          streamingContent: '',
-          isStreaming: false
+            chapter.id === chapterId ? { ...chapter, attempt } : chapter
+          )
         }));
 
-        setMessages(prev => [...prev, { role: 'assistant', content: fullContent }]);
-      } else {
-        // Use regular API call for chapter writing
-        const mappedModel = mapModelForProvider(workflowState.config.model, workflowState.config.baseUrl);
-        const content = await apiService.chatCompletion(
-          chapterMessages,
-          mappedModel,
-          workflowState.config.temperature,
-          getCurrentApiKey(),
-          workflowState.config.baseUrl
-        );
-
-        const wordCount = content.split(/\s+/).filter(word => word.length > 0).length;
+        const continuationMessages: Message[] = [
+          ...chapterMessages,
+          { role: 'assistant', content: fullContent },
+          {
+            role: 'user',
+            content: buildPrompt(workflowState.config.promptTemplates, 'continuation', {
+              storyPrompt,
+              storyType: chapterStoryTypeLabel,
+              chapterCount,
+              wordTarget,
+              chapterIndex: chapterId,
+              currentWords: countWords(fullContent),
+              remainingWords: Math.max(wordTarget - countWords(fullContent), 0)
+            })
+          }
+        ];
 
-        setWorkflowState(prev => ({
-          ...prev,
-          chapters: prev.chapters.map(chapter =>
-            chapter.id === chapterId
-              ? { ...chapter, content, wordCount, completed: true, isProcessing: false }
-              : chapter
-          ),
-          isProcessing: false
-        }));
+        let continuation: string;
+        try {
+          continuation = await generateChapterText(continuationMessages, fullContent);
+        } catch (error) {
+          // Keep the chapter written so far rather than losing it to a failed continuation
+          console.error('Chapter continuation failed:', error);
+          break;
+        }
 
-        setMessages(prev => [...prev, { role: 'assistant', content }]);
+        const stitched = stitchContinuation(fullContent, continuation);
+        if (countWords(stitched) <= countWords(fullContent)) break;
+        fullContent = stitched;
       }
 
+      const wordCount = countWords(fullContent);
+
+      setWorkflowState(prev => ({
+        ...prev,
+        chapters: prev.chapters.map(chapter =>
+          chapter.id === chapterId
+            ? {
+                ...chapter,
+                content: fullContent,
+                wordCount,
+                completed: true,
+                isProcessing: false,
+                attempt: undefined,
+                model: chapterModel,
+                summary: undefined,
+                revisions: appendRevision(chapter.revisions, createRevision(fullContent, chapterModel, route.temperature, chapterFeedback))
+              }
+            : chapter
+        ),
+        isProcessing: false,
+        streamingContent: '',
+        isStreaming: false
+      }));
+
+      setMessages(prev => [...prev, { role: 'assistant', content: fullContent, chapterId }]);
+
     } catch (error) {
       // Check if this was a cancellation
       if (error instanceof Error && error.message === 'Request was cancelled') {
@@ -539,7 +1165,7 @@ function App() {
           streamingContent: '',
           isStreaming: false,
           chapters: prev.chapters.map(chapter =>
-            chapter.id === chapterId ? { ...chapter, isProcessing: false } : chapter
+            chapter.id === chapterId ? { ...chapter, isProcessing: false, attempt: undefined } : chapter
           ),
           error: 'Chapter generation was cancelled'
         }));
@@ -550,21 +1176,72 @@ function App() {
           streamingContent: '',
           isStreaming: false,
           chapters: prev.chapters.map(chapter =>
-            chapter.id === chapterId ? { ...chapter, isProcessing: false } : chapter
+            chapter.id === chapterId ? { ...chapter, isProcessing: false, attempt: undefined } : chapter
           ),
           error: error instanceof Error ? error.message : 'An error occurred'
         }));
       }
     }
-  }, [workflowState.config, workflowState.isProcessing, workflowState.chapters, messages, storyPrompt, getCurrentApiKey, mapModelForProvider]);
+  }, [workflowState.config, workflowState.isProcessing, workflowState.steps, workflowState.chapters, messages, storyPrompt, chapterCount, pipeline, chapterStepId, getCurrentApiKey, mapModelForProvider, checkpointStream, generateChapterSummary]);
+
+  const updateChapterSummary = useCallback((chapterId: number, summary: string) => {
+    setWorkflowState(prev => ({
+      ...prev,
+      chapters: prev.chapters.map(chapter =>
+        chapter.id === chapterId ? { ...chapter, summary: summary.trim() || undefined } : chapter
+      )
+    }));
+  }, []);
+
+  const updateChapterOutline = useCallback((chapterId: number, outline: ChapterOutline) => {
+    setWorkflowState(prev => ({
+      ...prev,
+      chapters: prev.chapters.map(chapter =>
+        chapter.id === chapterId ? { ...chapter, outline } : chapter
+      )
+    }));
+  }, []);
+
+  const regenerateChapterSummary = useCallback(async (chapterId: number) => {
+    const chapter = workflowState.chapters.find(c => c.id === chapterId);
+    if (!chapter?.content || workflowState.isProcessing) return;
+
+    setWorkflowState(prev => ({ ...prev, isProcessing: true, error: undefined }));
+    try {
+      const summary = await generateChapterSummary(chapter);
+      setWorkflowState(prev => ({
+        ...prev,
+        isProcessing: false,
+        chapters: prev.chapters.map(c => c.id === chapterId ? { ...c, summary } : c)
+      }));
+    } catch (error) {
+      console.error('Failed to summarize chapter:', error);
+      setWorkflowState(prev => ({
+        ...prev,
+        isProcessing: false,
+        error: error instanceof Error ? error.message : 'Failed to summarize chapter'
+      }));
+    }
+  }, [workflowState.chapters, workflowState.isProcessing, generateChapterSummary]);
+
+  // Regenerate a step or chapter that was interrupted in the last session
+  React.useEffect(() => {
+    if (!pendingRegeneration || workflowState.isProcessing || !projectMeta) return;
+    const { kind, targetId } = pendingRegeneration;
+    setPendingRegeneration(null);
+    if (kind === 'step') {
+      processStep(targetId);
+    } else {
+      processChapter(targetId);
+    }
+  }, [pendingRegeneration, workflowState.isProcessing, projectMeta, processStep, processChapter]);
 
   const advanceToNextStep = useCallback(() => {
     console.log('advanceToNextStep called');
     console.log('Current step:', workflowState.currentStep);
-    console.log('WORKFLOW_STEPS.length:', WORKFLOW_STEPS.length);
 
-    // Allow advancing to chapter writing phase (step 6 and beyond)
-    if (workflowState.currentStep < WORKFLOW_STEPS.length + 1) {
+    // Allow advancing up to the chapter writing phase after the pipeline's last step
+    if (workflowState.currentStep < chapterStepId) {
       console.log('Advancing to step:', workflowState.currentStep + 1);
       setWorkflowState(prev => ({
         ...prev,
@@ -574,7 +1251,49 @@ function App() {
     } else {
       console.log('Cannot advance further - at max step');
     }
-  }, [workflowState.currentStep]);
+  }, [workflowState.currentStep, chapterStepId]);
+
+  // Mark an optional pipeline step as done without running it
+  const skipStep = useCallback((stepId: number) => {
+    if (workflowState.isProcessing) return;
+    setWorkflowState(prev => ({
+      ...prev,
+      steps: prev.steps.map(step =>
+        step.id === stepId ? { ...step, content: '', completed: true, skipped: true, reasoning: undefined } : step
+      )
+    }));
+  }, [workflowState.isProcessing]);
+
+  // Switch to another pipeline before the story starts; its steps replace the current ones
+  const applyPipeline = useCallback((next: WorkflowPipeline) => {
+    if (workflowState.currentStep > 0) return;
+    updateConfig(switchPipeline(workflowState.config, next));
+    setWorkflowState(prev => ({ ...prev, steps: createInitialSteps(next) }));
+  }, [workflowState.currentStep, workflowState.config, updateConfig]);
+
+  // Start a new story from a genre preset: its pipeline, plus its chapter count and length for the story type
+  const applyGenrePreset = useCallback((preset: GenrePreset, type: StoryType) => {
+    if (workflowState.currentStep > 0) return;
+    const switching = preset.pipeline.id !== pipeline.id;
+    const sizing = preset.sizing?.[type];
+    if (switching || sizing) {
+      updateConfig({
+        ...(switching ? switchPipeline(workflowState.config, preset.pipeline) : {}),
+        ...(sizing ? { chapterWordTarget: sizing.chapterWordTarget } : {})
+      });
+    }
+    if (switching) {
+      setWorkflowState(prev => ({ ...prev, steps: createInitialSteps(preset.pipeline) }));
+    }
+    if (sizing) {
+      setChapterCount(sizing.chapterCount);
+    }
+  }, [workflowState.currentStep, workflowState.config, pipeline.id, updateConfig]);
+
+  const selectStoryType = useCallback((type: StoryType) => {
+    setStoryType(type);
+    if (genrePreset) applyGenrePreset(genrePreset, type);
+  }, [genrePreset, applyGenrePreset]);
 
   const handleFeedback = useCallback((stepId: number, feedback: string) => {
     setWorkflowState(prev => ({
@@ -605,6 +1324,44 @@ function App() {
     }, 500);
   }, [processChapter]);
 
+  // Replace the latest copy of some content in the conversation history
+  const replaceInMessages = useCallback((previousContent: string, newContent: string) => {
+    setMessages(prev => {
+      const index = prev.map(message => message.role === 'assistant' && message.content === previousContent).lastIndexOf(true);
+      if (index === -1) return prev;
+      return prev.map((message, i) => i === index ? { ...message, content: newContent } : message);
+    });
+  }, []);
+
+  const restoreStepRevision = useCallback((stepId: number, revisionId: string) => {
+    const step = workflowState.steps.find(s => s.id === stepId);
+    const revision = step?.revisions?.find(r => r.id === revisionId);
+    if (!step || !revision) return;
+
+    setWorkflowState(prev => ({
+      ...prev,
+      steps: prev.steps.map(s =>
+        s.id === stepId ? { ...s, content: revision.content, completed: true, model: revision.model, reasoning: undefined } : s
+      )
+    }));
+    replaceInMessages(step.content, revision.content);
+  }, [workflowState.steps, replaceInMessages]);
+
+  const restoreChapterRevision = useCallback((chapterId: number, revisionId: string) => {
+    const chapter = workflowState.chapters.find(c => c.id === chapterId);
+    const revision = chapter?.revisions?.find(r => r.id === revisionId);
+    if (!chapter || !revision) return;
+
+    const wordCount = countWords(revision.content);
+    setWorkflowState(prev => ({
+      ...prev,
+      chapters: prev.chapters.map(c =>
+        c.id === chapterId ? { ...c, content: revision.content, wordCount, completed: true, model: revision.model, reasoning: undefined, summary: undefined } : c
+      )
+    }));
+    replaceInMessages(chapter.content, revision.content);
+  }, [workflowState.chapters, replaceInMessages]);
+
   const cancelCurrentRequest = useCallback(() => {
     apiService.cancelCurrentRequest();
     setWorkflowState(prev => ({
@@ -643,14 +1400,43 @@ function App() {
     ].filter(Boolean).join('\n');
 
     const blob = new Blob([storyContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
+  };
+
+  const handleExport = async (format: ExportFormat, options: ExportOptions) => {
+    if (format === 'txt') {
+      exportStory();
+      return;
+    }
+
+    if (format === 'project-zip' || format === 'project-json') {
+      const project = buildProject(projectMeta || {
+        id: createProjectId(),
+        name: deriveProjectName(storyPrompt),
+        createdAt: Date.now()
+      });
+      const stem = toFileStem(project.name);
+      if (format === 'project-zip') {
+        downloadBlob(await exportProjectZip(project), `${stem}.project.zip`);
+      } else {
+        downloadBlob(exportProjectJson(project), `${stem}.project.json`);
+      }
+      return;
+    }
+
+    if (format === 'html') {
+      const html = renderBookHtml(workflowState.chapters, options);
+      downloadBlob(new Blob([html], { type: 'text/html' }), `${toFileStem(options.title)}.html`);
+      return;
+    }
+
+    const content = { steps: workflowState.steps, chapters: workflowState.chapters };
+    if (format === 'docx') {
+      downloadBlob(await buildDocx(content, options), `${toFileStem(options.title)}.docx`);
+      return;
+    }
+
+    downloadBlob(await buildEpub(content, options), `${toFileStem(options.title)}.epub`);
   };
 
   const clearAll = () => {
@@ -678,9 +1464,14 @@ function App() {
     setStoryType('short-story');
     setChapterCount(5);
     setSuggestedChapterCount(null);
+    setAutopilot(null);
     setApiKeys({});
     setMessages([{ role: 'system', content: 'You are a helpful assistant' }]);
-    apiService.clearCache();
+    setProjectMeta(null);
+    setBranches([]);
+    setActiveBranchId(MAIN_BRANCH_ID);
+    clearCheckpoint();
+    apiService.clearCache().catch(error => console.warn('Failed to clear response cache:', error));
   };
 
   const resetStoryData = () => {
@@ -690,14 +1481,25 @@ function App() {
 
     setWorkflowState({
       currentStep: 0,
-      steps: createInitialSteps(),
+      steps: createInitialSteps(workflowState.config.pipeline),
       chapters: [],
       config: {
         ...createDefaultConfig(),
         model: currentModel === 'deepseek-reasoner' ? 'deepseek/deepseek-r1' : currentModel, // Better default for OpenRouter
         temperature: currentTemperature, // Keep current temperature setting
         baseUrl: currentBaseUrl,
+        provider: workflowState.config.provider, // Keep the protocol that matches the base URL
         chapterWordTarget: workflowState.config.chapterWordTarget, // Keep current chapter word target
+        chapterMaxAttempts: workflowState.config.chapterMaxAttempts, // Keep current continuation limit
+        maxRetries: workflowState.config.maxRetries, // Keep current retry limit
+        contextLength: workflowState.config.contextLength, // Keep current context window override
+        sampling: workflowState.config.sampling, // Keep current sampling parameters
+        cacheTtlHours: workflowState.config.cacheTtlHours, // Keep current cache lifetime
+        cacheMaxSizeMb: workflowState.config.cacheMaxSizeMb, // Keep current cache size limit
+        stepRoutes: workflowState.config.stepRoutes, // Keep per-step model routing
+        promptTemplates: workflowState.config.promptTemplates, // Keep edited prompt templates
+        pipeline: workflowState.config.pipeline, // Keep the workflow pipeline
+        autopilot: workflowState.config.autopilot, // Keep autopilot settings
         storyType: workflowState.config.storyType || 'short-story' // Keep current story type or default to short-story
       },
       isProcessing: false,
@@ -710,8 +1512,13 @@ function App() {
     setStoryType('short-story');
     setChapterCount(3);
     setSuggestedChapterCount(null);
+    setAutopilot(null);
     setMessages([{ role: 'system', content: 'You are a helpful assistant' }]);
-    apiService.clearCache();
+    setProjectMeta(null);
+    setBranches([]);
+    setActiveBranchId(MAIN_BRANCH_ID);
+    clearCheckpoint();
+    apiService.clearCache().catch(error => console.warn('Failed to clear response cache:', error));
   };
 
   const startWorkflow = useCallback(() => {
@@ -726,14 +1533,28 @@ function App() {
     }
 
     const currentApiKey = getCurrentApiKey();
-    if (!currentApiKey || !currentApiKey.trim()) {
+    // A replayed cassette answers every request, so no key is needed
+    const needsApiKey = getProviderAdapter(workflowState.config.provider).requiresApiKey && cassetteMode !== 'replaying';
+    if (needsApiKey && (!currentApiKey || !currentApiKey.trim())) {
       setWorkflowState(prev => ({ ...prev, error: 'Please enter an API key' }));
       return;
     }
 
+    // Register the story in the project library
+    if (!projectMeta) {
+      setProjectMeta({
+        id: createProjectId(),
+        name: deriveProjectName(storyPrompt),
+        createdAt: Date.now()
+      });
+    }
+    setResumeOffer(null);
+
     // Initialize chapters based on chapter count
     setWorkflowState(prev => ({
       ...prev,
+      // A new story runs the pipeline chosen in settings
+      steps: prev.currentStep === 0 ? createInitialSteps(prev.config.pipeline) : prev.steps,
       chapters: createInitialChapters(chapterCount),
       currentStep: 1,
       error: undefined,
@@ -744,7 +1565,90 @@ function App() {
         storyType
       }
     }));
-  }, [storyPrompt, storyType, chapterCount, getCurrentApiKey]);
+  }, [storyPrompt, storyType, chapterCount, getCurrentApiKey, workflowState.config.provider, cassetteMode, projectMeta]);
+
+  // Run the story unattended, starting it first when it hasn't started yet
+  const startAutopilot = useCallback((settings: AutopilotSettings) => {
+    updateConfig({ autopilot: settings });
+    setShowAutopilot(false);
+    if (workflowState.currentStep === 0) {
+      startWorkflow();
+    } else {
+      setWorkflowState(prev => ({ ...prev, error: undefined }));
+    }
+    setAutopilot(createAutopilotRun(settings));
+  }, [workflowState.currentStep, updateConfig, startWorkflow]);
+
+  const pauseAutopilot = useCallback(() => {
+    setAutopilot(prev => prev && recordAutopilotEvent(prev, 'paused', 'Paused', { status: 'paused' }));
+  }, []);
+
+  const resumeAutopilot = useCallback(() => {
+    setWorkflowState(prev => ({ ...prev, error: undefined }));
+    setAutopilot(prev => prev && recordAutopilotEvent(prev, 'resumed', 'Resumed', { status: 'running' }));
+  }, []);
+
+  const stopAutopilot = useCallback(() => {
+    if (workflowState.isProcessing) cancelCurrentRequest();
+    setAutopilot(prev => prev && endAutopilotRun(prev, 'stopped', 'Stopped'));
+  }, [workflowState.isProcessing, cancelCurrentRequest]);
+
+  const approveAutopilot = useCallback(() => {
+    setAutopilot(prev => prev && approveAutopilotCheckpoint(prev));
+  }, []);
+
+  // Take autopilot's next action whenever the previous one has finished
+  React.useEffect(() => {
+    if (autopilot?.status !== 'running' || workflowState.isProcessing) return;
+    if (workflowState.error) {
+      const error = workflowState.error;
+      // A story that never started shows its error on the start screen, with no run to sum up
+      setAutopilot(prev => prev && (workflowState.currentStep === 0 ? null : endAutopilotRun(prev, 'failed', `Failed: ${error}`, error)));
+      return;
+    }
+    if (workflowState.currentStep === 0) return;
+
+    const action = getNextAutopilotAction(autopilot, pipeline, {
+      currentStep: workflowState.currentStep,
+      steps: workflowState.steps,
+      chapters: workflowState.chapters,
+      chapterCount
+    });
+    const stepName = (stepId: number) => workflowState.steps.find(step => step.id === stepId)?.name || `Step ${stepId}`;
+
+    switch (action.kind) {
+      case 'set-chapter-count':
+        setChapterCount(action.chapterCount);
+        setAutopilot(prev => prev && recordAutopilotEvent(prev, 'chapter-count', `Set the chapter count to ${action.chapterCount}`));
+        break;
+      case 'process-step':
+        setAutopilot(prev => prev && recordAutopilotEvent(prev, 'step', `Running ${stepName(action.stepId)}`));
+        processStep(action.stepId);
+        break;
+      case 'skip-step':
+        setAutopilot(prev => prev && recordAutopilotEvent(prev, 'skipped', `Skipped ${stepName(action.stepId)}`));
+        skipStep(action.stepId);
+        break;
+      case 'advance':
+        advanceToNextStep();
+        break;
+      case 'checkpoint':
+        setAutopilot(prev => prev && recordAutopilotEvent(prev, 'checkpoint', `Waiting: ${action.checkpoint.label}`, {
+          status: 'waiting',
+          checkpoint: action.checkpoint
+        }));
+        break;
+      case 'write-chapter':
+        setAutopilot(prev => prev && recordAutopilotEvent(prev, 'chapter', `Writing Chapter ${action.chapterId}`, {
+          writtenChapters: [...prev.writtenChapters, action.chapterId]
+        }));
+        processChapter(action.chapterId);
+        break;
+      case 'finish':
+        setAutopilot(prev => prev && endAutopilotRun(prev, 'finished', `Finished with ${workflowState.chapters.length} chapters`));
+        break;
+    }
+  }, [autopilot, workflowState.isProcessing, workflowState.error, workflowState.currentStep, workflowState.steps, workflowState.chapters, chapterCount, pipeline, processStep, processChapter, skipStep, advanceToNextStep]);
 
   return (
     <ThemeProvider theme={theme}>
@@ -753,19 +1657,86 @@ function App() {
         <AppBar position="static">
           <Toolbar>
             <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
-              AI Author
+              AI Author{projectMeta ? ` — ${projectMeta.name}` : ''}
             </Typography>
             <Box sx={{ display: 'flex', gap: 1 }}>
+              <Tooltip title="Save Project">
+                <span>
+                  <IconButton
+                    color="inherit"
+                    onClick={saveCurrentProject}
+                    disabled={!projectMeta || workflowState.isProcessing}
+                  >
+                    <SaveIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
               <Tooltip title="Configuration">
                 <IconButton color="inherit" onClick={() => setShowConfig(true)}>
                   <SettingsIcon />
                 </IconButton>
               </Tooltip>
+              <Tooltip title="Autopilot">
+                <span>
+                  <IconButton
+                    color="inherit"
+                    onClick={() => setShowAutopilot(true)}
+                    disabled={workflowState.isProcessing || (!!autopilot && autopilot.finishedAt === undefined)}
+                  >
+                    <AutoModeIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Workflow Pipeline">
+                <IconButton color="inherit" onClick={() => setShowPipelines(true)}>
+                  <AccountTreeIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Prompt Templates">
+                <IconButton color="inherit" onClick={() => setShowPromptTemplates(true)}>
+                  <EditNoteIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Usage & Cost">
+                <span>
+                  <IconButton
+                    color="inherit"
+                    onClick={() => setShowCostDashboard(true)}
+                    disabled={workflowState.currentStep === 0}
+                  >
+                    <PaidIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Response Cache">
+                <IconButton color="inherit" onClick={() => setShowCacheInspector(true)}>
+                  <StorageIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={cassetteMode === 'recording' ? 'Session Cassette (recording)' : cassetteMode === 'replaying' ? 'Session Cassette (replaying)' : 'Session Cassette'}>
+                <IconButton
+                  color={cassetteMode === 'recording' ? 'error' : cassetteMode === 'replaying' ? 'warning' : 'inherit'}
+                  onClick={() => setShowCassette(true)}
+                >
+                  <AlbumIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Book Preview">
+                <span>
+                  <IconButton
+                    color="inherit"
+                    onClick={() => setShowBookPreview(true)}
+                    disabled={!workflowState.chapters.some(chapter => chapter.content)}
+                  >
+                    <MenuBookIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
               <Tooltip title="Export Story">
                 <span>
                   <IconButton
                     color="inherit"
-                    onClick={exportStory}
+                    onClick={() => setShowExport(true)}
                     disabled={workflowState.chapters.length === 0}
                   >
                     <DownloadIcon />
@@ -793,6 +1764,41 @@ function App() {
             </Alert>
           )}
 
+          {resumeOffer && (
+            <Alert
+              severity="info"
+              sx={{ mb: 2 }}
+              action={
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  {resumeOffer.checkpoint.inFlight ? (
+                    <>
+                      <Button color="inherit" size="small" onClick={() => resumeLastSession(true)}>
+                        Keep Partial
+                      </Button>
+                      <Button color="inherit" size="small" onClick={() => resumeLastSession(false)}>
+                        Regenerate
+                      </Button>
+                    </>
+                  ) : (
+                    <Button color="inherit" size="small" onClick={() => resumeLastSession(true)}>
+                      Resume
+                    </Button>
+                  )}
+                  <Button color="inherit" size="small" onClick={dismissLastSession}>
+                    Dismiss
+                  </Button>
+                </Box>
+              }
+            >
+              <Typography variant="body2">
+                <strong>Resume where you left off:</strong> "{resumeOffer.project.name}"
+                {resumeOffer.checkpoint.inFlight
+                  ? ` was interrupted while writing ${resumeOffer.checkpoint.inFlight.kind === 'step' ? 'step' : 'chapter'} ${resumeOffer.checkpoint.inFlight.targetId} (${resumeOffer.checkpoint.inFlight.partialContent.length} chars recovered).`
+                  : ` (last saved ${new Date(resumeOffer.checkpoint.savedAt).toLocaleString()}).`}
+              </Typography>
+            </Alert>
+          )}
+
           {isLoadingSettings && (
             <Alert severity="info" sx={{ mb: 2 }}>
               Loading saved settings...
@@ -814,14 +1820,14 @@ function App() {
                   <Box sx={{ display: 'flex', gap: 1 }}>
                     <Button
                       variant={storyType === 'short-story' ? 'contained' : 'outlined'}
-                      onClick={() => setStoryType('short-story')}
+                      onClick={() => selectStoryType('short-story')}
                       size="small"
                     >
                       Short Story
                     </Button>
                     <Button
                       variant={storyType === 'novel' ? 'contained' : 'outlined'}
-                      onClick={() => setStoryType('novel')}
+                      onClick={() => selectStoryType('novel')}
                       size="small"
                     >
                       Novel
@@ -835,6 +1841,31 @@ function App() {
                   </Typography>
                 </Box>
 
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                  <Typography variant="h6" sx={{ minWidth: 120 }}>
+                    Genre:
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                    {GENRE_PRESETS.map(preset => (
+                      <Button
+                        key={preset.id}
+                        variant={genrePreset?.id === preset.id ? 'contained' : 'outlined'}
+                        onClick={() => applyGenrePreset(preset, storyType)}
+                        disabled={workflowState.currentStep > 0}
+                        size="small"
+                      >
+                        {preset.name}
+                      </Button>
+                    ))}
+                  </Box>
+                  <Typography variant="body2" color="text.secondary" sx={{ ml: 2 }}>
+                    {genrePreset
+                      ? genrePreset.description
+                      : `Running the "${pipeline.name}" pipeline`
+                    }
+                  </Typography>
+                </Box>
+
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
                   <Typography variant="h6" sx={{ minWidth: 120 }}>
                     Chapter Count:
@@ -873,6 +1904,20 @@ function App() {
                 </Typography>
 
                 <Box sx={{ maxWidth: 800, mx: 'auto', mt: 4 }}>
+                  <ProjectLibrary
+                    projects={projects}
+                    currentProjectId={projectMeta?.id}
+                    onOpen={openProject}
+                    onDuplicate={handleDuplicateProject}
+                    onRename={handleRenameProject}
+                    onDelete={handleDeleteProject}
+                  />
+
+                  <CliImportDropZone
+                    onImport={handleCliImport}
+                    disabled={workflowState.isProcessing}
+                  />
+
                   <TextField
                     label="Story Prompt"
                     multiline
@@ -904,6 +1949,23 @@ function App() {
                         Load File
                       </Button>
                     </label>
+                    <input
+                      accept=".zip,.json,application/zip,application/json"
+                      style={{ display: 'none' }}
+                      id="project-file-import"
+                      type="file"
+                      onChange={handleImportProject}
+                    />
+                    <label htmlFor="project-file-import">
+                      <Button
+                        variant="outlined"
+                        component="span"
+                        startIcon={<FileUploadIcon />}
+                        sx={{ minWidth: 150, ml: 2 }}
+                      >
+                        Import Project
+                      </Button>
+                    </label>
                   </Box>
 
                   <Box sx={{ display: 'flex', justifyContent: 'center', mb: 3 }}>
@@ -916,6 +1978,16 @@ function App() {
                     >
                       Start
                     </Button>
+                    <Button
+                      variant="outlined"
+                      onClick={() => setShowAutopilot(true)}
+                      size="large"
+                      startIcon={<AutoModeIcon />}
+                      sx={{ ml: 2 }}
+                      disabled={!storyPrompt.trim()}
+                    >
+                      Autopilot
+                    </Button>
                   </Box>
 
                   <Box sx={{ display: 'flex', justifyContent: 'center', mt: 3 }}>
@@ -943,25 +2015,127 @@ function App() {
                 </Box>
               </>
             ) : (
-              <StepNavigation
-                currentStep={workflowState.currentStep - 1}
-                steps={workflowState.steps}
-                chapters={workflowState.chapters}
-                onProcessStep={workflowState.currentStep <= 5 ? processStep : processChapter}
-                onAdvanceStep={advanceToNextStep}
-                onFeedback={workflowState.currentStep <= 5 ? handleFeedback : handleChapterFeedback}
-                onCancel={cancelCurrentRequest}
-                isProcessing={workflowState.isProcessing}
-                streamingContent={workflowState.streamingContent}
-                isStreaming={workflowState.isStreaming}
-                showFeedback={workflowState.showFeedback}
-                onToggleFeedback={toggleFeedback}
-                chapterWordTarget={workflowState.config.chapterWordTarget}
-              />
+              <>
+                {autopilot && (
+                  <AutopilotPanel
+                    run={autopilot}
+                    chapters={workflowState.chapters}
+                    isProcessing={workflowState.isProcessing}
+                    onPause={pauseAutopilot}
+                    onResume={resumeAutopilot}
+                    onStop={stopAutopilot}
+                    onApprove={approveAutopilot}
+                    onDismiss={() => setAutopilot(null)}
+                  />
+                )}
+                <BranchManager
+                  branches={syncedBranches}
+                  activeBranchId={activeBranchId}
+                  disabled={workflowState.isProcessing || autopilot?.status === 'running'}
+                  onSwitch={switchBranch}
+                  onFork={forkBranch}
+                  onDelete={deleteBranch}
+                />
+                <StepNavigation
+                  currentStep={workflowState.currentStep - 1}
+                  pipeline={pipeline}
+                  steps={workflowState.steps}
+                  chapters={workflowState.chapters}
+                  onProcessStep={workflowState.currentStep < chapterStepId ? processStep : processChapter}
+                  onSkipStep={skipStep}
+                  onAdvanceStep={advanceToNextStep}
+                  onFeedback={workflowState.currentStep < chapterStepId ? handleFeedback : handleChapterFeedback}
+                  onCancel={cancelCurrentRequest}
+                  isProcessing={workflowState.isProcessing}
+                  streamingContent={workflowState.streamingContent}
+                  isStreaming={workflowState.isStreaming}
+                  showFeedback={workflowState.showFeedback}
+                  onToggleFeedback={toggleFeedback}
+                  chapterWordTarget={workflowState.config.chapterWordTarget}
+                  chapterMaxAttempts={workflowState.config.chapterMaxAttempts}
+                  retryStatus={workflowState.retryStatus}
+                  onRestoreRevision={workflowState.currentStep < chapterStepId ? restoreStepRevision : restoreChapterRevision}
+                  onUpdateChapterSummary={updateChapterSummary}
+                  onGenerateChapterSummary={regenerateChapterSummary}
+                  onUpdateChapterOutline={updateChapterOutline}
+                />
+              </>
             )}
           </Box>
         </Container>
 
+        <ExportDialog
+          open={showExport}
+          defaultTitle={projectMeta?.name || deriveProjectName(storyPrompt)}
+          onClose={() => setShowExport(false)}
+          onExport={handleExport}
+        />
+
+        <CacheInspector
+          open={showCacheInspector}
+          ttlHours={workflowState.config.cacheTtlHours ?? DEFAULT_CACHE_TTL_HOURS}
+          maxSizeMb={workflowState.config.cacheMaxSizeMb ?? DEFAULT_CACHE_MAX_SIZE_MB}
+          onClose={() => setShowCacheInspector(false)}
+        />
+
+        <PipelineEditor
+          open={showPipelines}
+          pipeline={pipeline}
+          canChange={workflowState.currentStep === 0 && !workflowState.isProcessing}
+          onClose={() => setShowPipelines(false)}
+          onApply={applyPipeline}
+        />
+
+        <AutopilotDialog
+          open={showAutopilot}
+          pipeline={pipeline}
+          settings={workflowState.config.autopilot}
+          currentStep={workflowState.currentStep}
+          suggestedChapterCount={suggestedChapterCount || chapterCount}
+          onClose={() => setShowAutopilot(false)}
+          onStart={startAutopilot}
+        />
+
+        <PromptTemplateEditor
+          open={showPromptTemplates}
+          pipeline={pipeline}
+          templates={workflowState.config.promptTemplates}
+          previewVariables={{
+            storyPrompt: storyPrompt.trim() || 'A lighthouse keeper waits for a brother who left twenty years ago.',
+            storyType: storyType === 'short-story' ? 'short story' : 'novel',
+            chapterCount,
+            wordTarget: workflowState.config.chapterWordTarget || CHAPTER_WORD_TARGET
+          }}
+          onClose={() => setShowPromptTemplates(false)}
+          onSave={(promptTemplates) => updateConfig({ promptTemplates })}
+        />
+
+        <CassetteDialog
+          open={showCassette}
+          fileStem={toFileStem(projectMeta?.name || deriveProjectName(storyPrompt))}
+          isProcessing={workflowState.isProcessing}
+          onClose={() => setShowCassette(false)}
+          onStatusChange={handleCassetteStatus}
+        />
+
+        <CostDashboard
+          open={showCostDashboard}
+          steps={workflowState.steps}
+          chapters={workflowState.chapters}
+          pricing={modelPricing}
+          canFetchPricing={workflowState.config.baseUrl.includes('openrouter.ai')}
+          onClose={() => setShowCostDashboard(false)}
+          onPricingChange={handlePricingChange}
+          onFetchPricing={fetchModelPricing}
+        />
+
+        <BookPreview
+          open={showBookPreview}
+          chapters={workflowState.chapters}
+          defaultTitle={projectMeta?.name || deriveProjectName(storyPrompt)}
+          onClose={() => setShowBookPreview(false)}
+        />
+
         <ConfigurationDialog
           open={showConfig}
           onClose={() => setShowConfig(false)}
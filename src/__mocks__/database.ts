@@ -0,0 +1,69 @@
+/**
+ * In-memory Database
+ * Stands in for IndexedDB, which jsdom lacks, in tests that call jest.mock('./database')
+ */
+
+const actual = jest.requireActual<typeof import('../database')>('../database');
+
+export const { PROJECT_STORE, SESSION_STORE, CACHE_STORE, requestToPromise } = actual;
+
+// The key path of each object store, as created by openDatabase
+const KEY_PATHS: Record<string, string> = {
+  [PROJECT_STORE]: 'id',
+  [SESSION_STORE]: 'id',
+  [CACHE_STORE]: 'key'
+};
+
+// The part of IDBObjectStore the storage modules use; requests complete at once
+interface MemoryStore {
+  get(key: string): { result: unknown };
+  getAll(): { result: unknown[] };
+  put(value: Record<string, unknown>): { result: unknown };
+  delete(key: string): { result: undefined };
+  clear(): { result: undefined };
+}
+
+const stores = new Map<string, Map<string, unknown>>();
+
+// Records are copied in and out, as IndexedDB stores structured clones
+const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+function createMemoryStore(storeName: string): MemoryStore {
+  if (!stores.has(storeName)) stores.set(storeName, new Map());
+  const records = stores.get(storeName)!;
+  const keyPath = KEY_PATHS[storeName] || 'id';
+  return {
+    get: key => ({ result: copy(records.get(key)) }),
+    getAll: () => ({ result: Array.from(records.values()).map(copy) }),
+    put: value => {
+      const key = String(value[keyPath]);
+      records.set(key, copy(value));
+      return { result: key };
+    },
+    delete: key => {
+      records.delete(key);
+      return { result: undefined };
+    },
+    clear: () => {
+      records.clear();
+      return { result: undefined };
+    }
+  };
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return true;
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return Promise.reject(new Error('The in-memory database has no IDBDatabase'));
+}
+
+export async function withStore<T>(
+  storeName: string,
+  _mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const store = createMemoryStore(storeName) as unknown as IDBObjectStore;
+  return callback(store).result;
+}
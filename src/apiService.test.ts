@@ -0,0 +1,44 @@
+import { apiService } from './apiService';
+import { Message } from './types';
+
+jest.mock('./database');
+
+const chapterPrompt: Message[] = [{ role: 'user', content: 'Write Chapter 1 of the short story.' }];
+const summaryPrompt: Message[] = [{ role: 'user', content: 'Summarize Chapter 1 in a paragraph.' }];
+
+// A server that answers every request with the prompt it was sent
+const answer = async (_url: string, init: RequestInit) => {
+  const { messages } = JSON.parse(init.body as string);
+  const content = `Reply to: ${messages[messages.length - 1].content}`;
+  return { ok: true, status: 200, json: async () => ({ choices: [{ message: { role: 'assistant', content } }] }) };
+};
+let fetchMock: jest.Mock;
+
+const request = (messages: Message[], consumeCacheSkip?: boolean) =>
+  apiService.chatCompletion(messages, 'story-model', undefined, 'key', 'https://api.example.com/v1', 'openai', undefined, consumeCacheSkip);
+
+beforeEach(() => {
+  fetchMock = jest.fn(answer);
+  Object.assign(global, { fetch: fetchMock });
+});
+
+test('responses are served from the cache once stored', async () => {
+  const first = await request(chapterPrompt);
+  expect(await request(chapterPrompt)).toBe(first);
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+test('a pending cache skip is left for the chapter by the summary requests before it', async () => {
+  await request(chapterPrompt);
+  await request(summaryPrompt, false);
+  fetchMock.mockClear();
+
+  apiService.skipCacheForNextRequest();
+  await request(summaryPrompt, false);
+  expect(fetchMock).not.toHaveBeenCalled();
+  expect(apiService.isCacheSkipPending()).toBe(true);
+
+  await request(chapterPrompt);
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+  expect(apiService.isCacheSkipPending()).toBe(false);
+});
@@ -1,69 +1,214 @@
-import { Message, PromptCache } from './types';
+import { Message, ProviderId, TokenCounts, UsageRecord, ModelPricing, SamplingParams, Cassette, CassetteStatus } from './types';
+import { getProviderAdapter, readStreamEvents, StreamDelta } from './providers';
+import {
+  ApiError,
+  RetryListener,
+  DEFAULT_MAX_RETRIES,
+  createHttpError,
+  createNetworkError,
+  computeBackoffDelay,
+  waitForRetry
+} from './retryPolicy';
+import {
+  CacheKeyInput,
+  DEFAULT_CACHE_TTL_HOURS,
+  DEFAULT_CACHE_MAX_SIZE_MB,
+  isCacheAvailable,
+  computeCacheKey,
+  createCacheEntry,
+  getCachedResponse,
+  putCachedResponse,
+  clearResponseCache
+} from './responseCache';
+import { createThinkTagFilter, splitThinkTags } from './reasoningUtils';
+import { isMockUrl, mockFetch } from './mockProvider';
+import { CassetteRecorder, CassettePlayer } from './cassette';
+
+// Responses were cached in localStorage before the IndexedDB cache
+const LEGACY_CACHE_KEY = 'ai-author-cache';
 
 class APIService {
-  private cache: PromptCache = {};
-  private cacheKey: string;
   private currentController: AbortController | null = null;
+  private maxRetries: number = DEFAULT_MAX_RETRIES;
+  private retryListener: RetryListener | null = null;
+  private usageListener: ((usage: UsageRecord) => void) | null = null;
+  private reasoningListener: ((reasoning: string) => void) | null = null;
+  private cacheTtlMs: number = DEFAULT_CACHE_TTL_HOURS * 60 * 60 * 1000;
+  private cacheMaxBytes: number = DEFAULT_CACHE_MAX_SIZE_MB * 1024 * 1024;
+  private skipNextCacheLookup = false;
+  private recorder: CassetteRecorder | null = null;
+  private player: CassettePlayer | null = null;
+
+  constructor() {
+    try {
+      localStorage.removeItem(LEGACY_CACHE_KEY);
+    } catch (error) {
+      console.warn('Failed to remove legacy cache:', error);
+    }
+  }
+
+  setCachePolicy(ttlHours: number, maxSizeMb: number): void {
+    this.cacheTtlMs = Math.max(0, ttlHours) * 60 * 60 * 1000;
+    this.cacheMaxBytes = Math.max(0, maxSizeMb) * 1024 * 1024;
+  }
+
+  // Send the next request to the API even if a cached response exists (the new response is still cached)
+  skipCacheForNextRequest(skip: boolean = true): void {
+    this.skipNextCacheLookup = skip;
+  }
 
-  constructor(cacheKey: string = 'ai-author-cache') {
-    this.cacheKey = cacheKey;
-    this.loadCache();
+  isCacheSkipPending(): boolean {
+    return this.skipNextCacheLookup;
   }
 
-  private loadCache(): void {
+  // Cache key for a request, or null when caching is unavailable (e.g. outside a secure context)
+  private async cacheKeyFor(input: CacheKeyInput): Promise<string | null> {
+    if (!isCacheAvailable()) return null;
     try {
-      const stored = localStorage.getItem(this.cacheKey);
-      if (stored) {
-        this.cache = JSON.parse(stored);
-      }
+      return await computeCacheKey(input);
     } catch (error) {
-      console.warn('Failed to load cache:', error);
-      this.cache = {};
+      console.warn('Failed to compute cache key:', error);
+      return null;
     }
   }
 
-  private saveCache(): void {
-    try {
-      localStorage.setItem(this.cacheKey, JSON.stringify(this.cache));
-    } catch (error) {
-      console.warn('Failed to save cache:', error);
+  // Cassettes must see every request, so the cache is bypassed while recording or replaying.
+  // Side requests such as chapter summaries leave a pending skip for the step or chapter they precede.
+  private async lookupCache(key: string | null, consumeSkip: boolean): Promise<string | null> {
+    const skip = consumeSkip && this.skipNextCacheLookup;
+    if (consumeSkip) this.skipNextCacheLookup = false;
+    if (!key || skip || this.recorder || this.player) return null;
+    return getCachedResponse(key, this.cacheTtlMs);
+  }
+
+  private async storeInCache(key: string | null, input: CacheKeyInput, content: string): Promise<void> {
+    if (!key || !content || this.player) return;
+    await putCachedResponse(createCacheEntry(key, input, content), this.cacheMaxBytes);
+  }
+
+  setMaxRetries(maxRetries: number): void {
+    this.maxRetries = Math.max(0, maxRetries);
+  }
+
+  // Notified with the pending retry while waiting, and with null once the request moves on
+  setRetryListener(listener: RetryListener | null): void {
+    this.retryListener = listener;
+  }
+
+  // Notified with the token usage of every API call that reports it (cache hits cost nothing)
+  setUsageListener(listener: ((usage: UsageRecord) => void) | null): void {
+    this.usageListener = listener;
+  }
+
+  // Notified with reasoning text as it arrives; it never reaches the returned content
+  setReasoningListener(listener: ((reasoning: string) => void) | null): void {
+    this.reasoningListener = listener;
+  }
+
+  private reportReasoning(reasoning: string): void {
+    if (reasoning) {
+      this.reasoningListener?.(reasoning);
     }
   }
 
-  private generateCacheKey(messages: Message[], temperature?: number): string {
-    const payload = {
-      messages,
-      temperature: temperature ?? null // Use null for undefined to ensure consistent caching
-    };
-    // Use crypto API or fallback to create a hash that works with Unicode
-    const jsonString = JSON.stringify(payload);
-    let hash = 0;
-    for (let i = 0; i < jsonString.length; i++) {
-      const char = jsonString.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private reportUsage(model: string, counts?: Partial<TokenCounts>): void {
+    if (!counts || (counts.promptTokens === undefined && counts.completionTokens === undefined)) {
+      return;
     }
-    return Math.abs(hash).toString(36).substring(0, 32);
+    this.usageListener?.({
+      model,
+      promptTokens: counts.promptTokens || 0,
+      completionTokens: counts.completionTokens || 0,
+      cost: counts.cost,
+      createdAt: Date.now()
+    });
+  }
+
+  // Record every request of the session (replacing any replay) until stopRecording
+  startRecording(): void {
+    this.player = null;
+    this.recorder = new CassetteRecorder();
+  }
+
+  stopRecording(): Cassette | null {
+    const cassette = this.recorder?.toCassette() || null;
+    this.recorder = null;
+    return cassette;
+  }
+
+  // Answer requests from a cassette, in recorded order, instead of the network
+  startReplay(cassette: Cassette): void {
+    this.recorder = null;
+    this.player = new CassettePlayer(cassette);
   }
 
-  private getCachedResponse(messages: Message[], temperature?: number): string | null {
-    const key = this.generateCacheKey(messages, temperature);
-    const entry = this.cache[key];
+  stopReplay(): void {
+    this.player = null;
+  }
 
-    if (entry && Date.now() - entry.timestamp < 24 * 60 * 60 * 1000) { // 24 hours
-      return entry.content;
+  getCassetteStatus(): CassetteStatus {
+    if (this.recorder) {
+      return { mode: 'recording', interactions: this.recorder.size };
     }
+    if (this.player) {
+      return { mode: 'replaying', interactions: this.player.position, total: this.player.total };
+    }
+    return { mode: 'off', interactions: 0 };
+  }
 
-    return null;
+  // mock:// URLs are answered in the browser by the offline mock provider
+  private fetchResponse(url: string, init: RequestInit): Promise<Response> {
+    return isMockUrl(url) ? mockFetch(url, init) : fetch(url, init);
+  }
+
+  // Generation requests go through the cassette being recorded or replayed, if any
+  private send(url: string, init: RequestInit): Promise<Response> {
+    if (this.player) {
+      return this.player.serve(url, init);
+    }
+    if (this.recorder) {
+      return this.recorder.capture(url, init, (requestUrl, requestInit) => this.fetchResponse(requestUrl, requestInit));
+    }
+    return this.fetchResponse(url, init);
   }
 
-  private setCachedResponse(messages: Message[], temperature: number | undefined, content: string): void {
-    const key = this.generateCacheKey(messages, temperature);
-    this.cache[key] = {
-      content,
-      timestamp: Date.now()
-    };
-    this.saveCache();
+  // Send a request, retrying rate limits, server and network errors with backoff
+  private async fetchWithRetry(url: string, init: RequestInit, signal: AbortSignal): Promise<Response> {
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let failure: ApiError;
+        try {
+          const response = await this.send(url, { ...init, signal });
+          if (response.ok) {
+            return response;
+          }
+          const errorText = await response.text();
+          console.error('Response error text:', errorText);
+          failure = createHttpError(response.status, errorText, response.headers.get('Retry-After'));
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            throw error;
+          }
+          failure = error instanceof ApiError ? error : createNetworkError(error);
+        }
+
+        if (!failure.retryable || attempt >= this.maxRetries) {
+          throw failure;
+        }
+
+        const delayMs = computeBackoffDelay(attempt, failure.retryAfterMs);
+        console.warn(`Retrying in ${delayMs}ms (attempt ${attempt + 1} of ${this.maxRetries}):`, failure.message);
+        this.retryListener?.({
+          attempt: attempt + 1,
+          maxRetries: this.maxRetries,
+          resumeAt: Date.now() + delayMs,
+          reason: failure.message
+        });
+        await waitForRetry(delayMs, signal);
+      }
+    } finally {
+      this.retryListener?.(null);
+    }
   }
 
   async chatCompletion(
@@ -71,49 +216,35 @@ class APIService {
     model: string,
     temperature: number | undefined,
     apiKey: string,
-    baseUrl: string = 'https://api.openai.com/v1'
+    baseUrl: string = 'https://api.openai.com/v1',
+    provider: ProviderId = 'openai',
+    sampling?: SamplingParams,
+    consumeCacheSkip: boolean = true
   ): Promise<string> {
     // Check cache first
-    const cached = this.getCachedResponse(messages, temperature);
+    const cacheInput: CacheKeyInput = { provider, baseUrl, model, messages, temperature, sampling };
+    const cacheKey = await this.cacheKeyFor(cacheInput);
+    const cached = await this.lookupCache(cacheKey, consumeCacheSkip);
     if (cached) {
       return cached;
     }
 
+    const adapter = getProviderAdapter(provider);
+
     // Create new AbortController for this request
     this.currentController = new AbortController();
 
     try {
-      // Build request body - only include temperature if it's defined
-      const requestBody: any = {
-        model,
-        messages,
-        stream: false
-      };
-
-      if (temperature !== undefined) {
-        requestBody.temperature = temperature;
-      }
-
-      const response = await fetch(`${baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-        signal: this.currentController.signal,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-      }
+      const { url, init } = adapter.buildRequest({ messages, model, temperature, sampling, apiKey, baseUrl, stream: false });
+      const response = await this.fetchWithRetry(url, init, this.currentController.signal);
 
       const data = await response.json();
-      const content = data.choices[0]?.message?.content || '';
+      const { content, reasoning } = splitThinkTags(adapter.parseResponse(data));
+      this.reportReasoning((adapter.parseReasoning(data) || '') + reasoning);
+      this.reportUsage(model, adapter.parseUsage(data));
 
       // Cache the response
-      this.setCachedResponse(messages, temperature, content);
+      await this.storeInCache(cacheKey, cacheInput, content);
 
       return content;
     } catch (error) {
@@ -123,6 +254,9 @@ class APIService {
         throw new Error('Request was cancelled');
       }
       console.error('API Error:', error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new Error(`API request failed: ${error}`);
     } finally {
       // Always clear the controller when done
@@ -136,97 +270,98 @@ class APIService {
     temperature: number | undefined,
     apiKey: string,
     baseUrl: string = 'https://api.openai.com/v1',
-    onChunk?: (chunk: string) => void
+    onChunk?: (chunk: string) => void,
+    provider: ProviderId = 'openai',
+    sampling?: SamplingParams
   ): AsyncGenerator<string, string, unknown> {
-    console.log('Starting streaming request to:', `${baseUrl}/chat/completions`);
-    console.log('Request payload:', { model, messages: messages.length, temperature, stream: true });
+    const adapter = getProviderAdapter(provider);
+    const { url, init } = adapter.buildRequest({ messages, model, temperature, sampling, apiKey, baseUrl, stream: true });
+    const cacheInput: CacheKeyInput = { provider, baseUrl, model, messages, temperature, sampling };
+    const cacheKey = await this.cacheKeyFor(cacheInput);
+    // Streams always go to the API; a pending skip applies to this request
+    this.skipNextCacheLookup = false;
+
+    console.log('Starting streaming request to:', url);
+    console.log('Request payload:', { provider: adapter.id, model, messages: messages.length, temperature, sampling, stream: true });
 
     // Create new AbortController for this request
     this.currentController = new AbortController();
 
     try {
-      // Build request body - only include temperature if it's defined
-      const requestBody: any = {
-        model,
-        messages,
-        stream: true
-      };
-
-      if (temperature !== undefined) {
-        requestBody.temperature = temperature;
-      }
-
-      const response = await fetch(`${baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-        signal: this.currentController.signal,
-      });
+      const response = await this.fetchWithRetry(url, init, this.currentController.signal);
 
       console.log('Response status:', response.status);
-      console.log('Response ok:', response.ok);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Response error text:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-      }
 
       const reader = response.body?.getReader();
       if (!reader) {
         throw new Error('Response body is not readable');
       }
 
-      const decoder = new TextDecoder();
-      let buffer = '';
       let fullContent = '';
+      const thinkFilter = createThinkTagFilter();
+      const usage: Partial<TokenCounts> = {};
 
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
+        for await (const payload of readStreamEvents(reader, adapter.streamFormat)) {
+          let delta: StreamDelta;
+          try {
+            delta = adapter.parseStreamEvent(payload);
+          } catch (e) {
+            // Ignore parsing errors for non-JSON lines
+            continue;
+          }
 
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
+          if (delta.error) {
+            throw new Error(delta.error);
+          }
 
-              if (data === '[DONE]') {
-                // Cache the final response
-                this.setCachedResponse(messages, temperature, fullContent);
-                return fullContent;
+          if (delta.usage) {
+            Object.entries(delta.usage).forEach(([key, value]) => {
+              if (value !== undefined) {
+                usage[key as keyof TokenCounts] = value;
               }
+            });
+          }
 
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content;
-
-                if (content) {
-                  fullContent += content;
-                  if (onChunk) {
-                    onChunk(content);
-                  }
-                  yield content;
-                }
-              } catch (e) {
-                // Ignore parsing errors for non-JSON lines
+          if (delta.reasoning) {
+            this.reportReasoning(delta.reasoning);
+          }
+
+          if (delta.content) {
+            // Inline <think> blocks are reasoning too
+            const { content, reasoning } = thinkFilter.push(delta.content);
+            this.reportReasoning(reasoning);
+            if (content) {
+              fullContent += content;
+              if (onChunk) {
+                onChunk(content);
               }
+              yield content;
             }
           }
+
+          // OpenAI-compatible servers send usage after the final content, just before [DONE]
+          if (delta.done) {
+            break;
+          }
         }
       } finally {
         reader.releaseLock();
       }
 
+      const { content: heldContent, reasoning: heldReasoning } = thinkFilter.flush();
+      this.reportReasoning(heldReasoning);
+      if (heldContent) {
+        fullContent += heldContent;
+        if (onChunk) {
+          onChunk(heldContent);
+        }
+        yield heldContent;
+      }
+
+      this.reportUsage(model, usage);
       // Cache the final response
-      this.setCachedResponse(messages, temperature, fullContent);
+      await this.storeInCache(cacheKey, cacheInput, fullContent);
       return fullContent;
 
     } catch (error) {
@@ -236,6 +371,9 @@ class APIService {
         throw new Error('Request was cancelled');
       }
       console.error('Streaming API Error:', error);
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new Error(`Streaming API request failed: ${error}`);
     } finally {
       // Always clear the controller when done
@@ -243,13 +381,8 @@ class APIService {
     }
   }
 
-  clearCache(): void {
-    this.cache = {};
-    localStorage.removeItem(this.cacheKey);
-  }
-
-  getCacheSize(): number {
-    return Object.keys(this.cache).length;
+  clearCache(): Promise<void> {
+    return clearResponseCache();
   }
 
   // Cancel the current request
@@ -265,30 +398,33 @@ class APIService {
     return this.currentController !== null;
   }
 
-  async fetchAvailableModels(apiKey: string, baseUrl: string = 'https://api.openai.com/v1'): Promise<string[]> {
+  async fetchAvailableModels(
+    apiKey: string,
+    baseUrl: string = 'https://api.openai.com/v1',
+    provider: ProviderId = 'openai'
+  ): Promise<string[]> {
+    const adapter = getProviderAdapter(provider);
     try {
-      // Handle OpenRouter models endpoint
-      if (baseUrl.includes('openrouter.ai')) {
-        const response = await fetch(`${baseUrl}/models`, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        });
+      const { url, init } = adapter.buildModelsRequest(apiKey, baseUrl);
+      const response = await this.fetchResponse(url, init);
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-        }
-
-        const data = await response.json();
-        // OpenRouter returns models in a different format
-        return data.data?.map((model: any) => model.id) || [];
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
       }
 
-      // Handle standard OpenAI-compatible endpoints
-      const response = await fetch(`${baseUrl}/models`, {
+      const data = await response.json();
+      return adapter.parseModels(data);
+    } catch (error) {
+      console.error('Failed to fetch models:', error);
+      throw new Error(`Failed to fetch available models: ${error}`);
+    }
+  }
+
+  // Fetch per-model prices from an OpenRouter-style /models listing (USD per token strings)
+  async fetchModelPricing(apiKey: string, baseUrl: string): Promise<Record<string, ModelPricing>> {
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, {
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${apiKey}`,
@@ -302,11 +438,18 @@ class APIService {
       }
 
       const data = await response.json();
-      // Extract model IDs from the response
-      return data.data?.map((model: any) => model.id) || [];
+      const pricing: Record<string, ModelPricing> = {};
+      for (const model of data.data || []) {
+        const prompt = parseFloat(model.pricing?.prompt);
+        const completion = parseFloat(model.pricing?.completion);
+        if (!isNaN(prompt) && !isNaN(completion)) {
+          pricing[model.id] = { prompt: prompt * 1e6, completion: completion * 1e6, source: 'openrouter' };
+        }
+      }
+      return pricing;
     } catch (error) {
-      console.error('Failed to fetch models:', error);
-      throw new Error(`Failed to fetch available models: ${error}`);
+      console.error('Failed to fetch model pricing:', error);
+      throw new Error(`Failed to fetch model pricing: ${error}`);
     }
   }
 }
@@ -0,0 +1,90 @@
+import {
+  DEFAULT_AUTOPILOT_SETTINGS,
+  AutopilotProgress,
+  approveAutopilotCheckpoint,
+  createAutopilotRun,
+  endAutopilotRun,
+  getNextAutopilotAction,
+  recordAutopilotEvent,
+  summarizeAutopilotRun
+} from './autopilot';
+import { BUILT_IN_PIPELINES, CLASSIC_PIPELINE, createPipelineSteps } from './pipelines';
+import { Chapter } from './types';
+
+const chapter = (id: number, wordCount = 0): Chapter => ({
+  id,
+  content: wordCount ? 'words' : '',
+  wordCount,
+  completed: wordCount > 0,
+  feedback: '',
+  isProcessing: false
+});
+
+const progress = (currentStep: number, completedSteps: number, chapters: Chapter[] = []): AutopilotProgress => ({
+  currentStep,
+  steps: createPipelineSteps(CLASSIC_PIPELINE).map(step => ({ ...step, completed: step.id <= completedSteps })),
+  chapters,
+  chapterCount: chapters.length || 3
+});
+
+test('runs each planning step, then advances', () => {
+  const run = createAutopilotRun(DEFAULT_AUTOPILOT_SETTINGS);
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(1, 0))).toEqual({ kind: 'process-step', stepId: 1 });
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(1, 1))).toEqual({ kind: 'advance' });
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(6, 5, [chapter(1, 900), chapter(2)]))).toEqual({ kind: 'write-chapter', chapterId: 2 });
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(6, 5, [chapter(1, 900)]))).toEqual({ kind: 'finish' });
+});
+
+test('skips optional steps unless asked to run them', () => {
+  const worldBuilding = BUILT_IN_PIPELINES.find(pipeline => pipeline.id === 'world-building')!;
+  const state = { ...progress(3, 2), steps: createPipelineSteps(worldBuilding) };
+  expect(getNextAutopilotAction(createAutopilotRun(DEFAULT_AUTOPILOT_SETTINGS), worldBuilding, state)).toEqual({ kind: 'skip-step', stepId: 3 });
+  expect(getNextAutopilotAction(createAutopilotRun({ ...DEFAULT_AUTOPILOT_SETTINGS, runOptionalSteps: true }), worldBuilding, state))
+    .toEqual({ kind: 'process-step', stepId: 3 });
+});
+
+test('a fixed chapter count overrides the suggestion until chapters are written', () => {
+  const run = createAutopilotRun({ ...DEFAULT_AUTOPILOT_SETTINGS, chapterCount: 4 });
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(2, 1))).toEqual({ kind: 'set-chapter-count', chapterCount: 4 });
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, { ...progress(2, 1), chapterCount: 4 })).toEqual({ kind: 'process-step', stepId: 2 });
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(6, 5, [chapter(1, 900), chapter(2)]))).toEqual({ kind: 'write-chapter', chapterId: 2 });
+});
+
+test('waits at each checkpoint until it is approved', () => {
+  let run = createAutopilotRun({ ...DEFAULT_AUTOPILOT_SETTINGS, pauseAfterSteps: [4], pauseBeforeChapters: true, pauseAfterEachChapter: true });
+
+  const afterFinalPlan = getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(4, 4));
+  expect(afterFinalPlan).toMatchObject({ kind: 'checkpoint', checkpoint: { id: 'step-4' } });
+  run = approveAutopilotCheckpoint({ ...run, status: 'waiting', checkpoint: afterFinalPlan.kind === 'checkpoint' ? afterFinalPlan.checkpoint : undefined });
+  expect(run.status).toBe('running');
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(4, 4))).toEqual({ kind: 'advance' });
+
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(6, 5, [chapter(1), chapter(2)])))
+    .toMatchObject({ kind: 'checkpoint', checkpoint: { id: 'chapters' } });
+  run = { ...run, approvedCheckpoints: [...run.approvedCheckpoints, 'chapters'], writtenChapters: [1] };
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(6, 5, [chapter(1, 900), chapter(2)])))
+    .toMatchObject({ kind: 'checkpoint', checkpoint: { id: 'chapter-1' } });
+  // No checkpoint after the last chapter; the run just finishes
+  expect(getNextAutopilotAction(run, CLASSIC_PIPELINE, progress(6, 5, [chapter(1, 900)]))).toEqual({ kind: 'finish' });
+});
+
+test('sums up what the run did', () => {
+  let run = createAutopilotRun(DEFAULT_AUTOPILOT_SETTINGS, 1000);
+  run = recordAutopilotEvent(run, 'step', 'Running Brainstorm', {}, 2000);
+  run = recordAutopilotEvent(run, 'skipped', 'Skipped World-Building', {}, 3000);
+  run = recordAutopilotEvent(run, 'chapter', 'Writing Chapter 2', { writtenChapters: [2] }, 4000);
+  run = endAutopilotRun(run, 'finished', 'Finished', undefined, 61000);
+
+  expect(endAutopilotRun(run, 'stopped', 'Stopped').status).toBe('finished');
+  expect(summarizeAutopilotRun(run, [chapter(1, 800), chapter(2, 1200)])).toEqual({
+    status: 'finished',
+    durationMs: 60000,
+    stepsRun: 1,
+    stepsSkipped: 1,
+    chapterCount: 2,
+    chaptersWritten: 1,
+    wordsWritten: 1200,
+    checkpointsApproved: 0,
+    error: undefined
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Autopilot
+ * Picks the next thing to do while a story runs unattended, and sums up the run when it ends
+ */
+
+import { AutopilotSettings, Chapter, WorkflowPipeline, WorkflowStep } from './types';
+import { getChapterStepId, getPipelineStep } from './pipelines';
+
+export const DEFAULT_AUTOPILOT_SETTINGS: AutopilotSettings = {
+  runOptionalSteps: false,
+  pauseAfterSteps: [],
+  pauseBeforeChapters: false,
+  pauseAfterEachChapter: false
+};
+
+export type AutopilotStatus = 'running' | 'paused' | 'waiting' | 'finished' | 'stopped' | 'failed';
+
+export type AutopilotEventKind =
+  | 'started'
+  | 'step'
+  | 'skipped'
+  | 'chapter-count'
+  | 'chapter'
+  | 'checkpoint'
+  | 'approved'
+  | 'paused'
+  | 'resumed'
+  | 'stopped'
+  | 'failed'
+  | 'finished';
+
+export interface AutopilotEvent {
+  at: number; // Epoch ms
+  kind: AutopilotEventKind;
+  message: string;
+}
+
+// A point where autopilot waits for a person to approve what has been written
+export interface AutopilotCheckpoint {
+  id: string;
+  label: string;
+}
+
+export interface AutopilotRun {
+  status: AutopilotStatus;
+  settings: AutopilotSettings;
+  startedAt: number;
+  finishedAt?: number;
+  checkpoint?: AutopilotCheckpoint; // Set while waiting for approval
+  approvedCheckpoints: string[];
+  writtenChapters: number[]; // Chapters this run wrote, in order
+  events: AutopilotEvent[];
+  error?: string;
+}
+
+export type AutopilotAction =
+  | { kind: 'set-chapter-count'; chapterCount: number }
+  | { kind: 'process-step'; stepId: number }
+  | { kind: 'skip-step'; stepId: number }
+  | { kind: 'advance' }
+  | { kind: 'checkpoint'; checkpoint: AutopilotCheckpoint }
+  | { kind: 'write-chapter'; chapterId: number }
+  | { kind: 'finish' };
+
+// Where the story is when autopilot picks its next action
+export interface AutopilotProgress {
+  currentStep: number;
+  steps: WorkflowStep[];
+  chapters: Chapter[];
+  chapterCount: number;
+}
+
+export interface AutopilotSummary {
+  status: AutopilotStatus;
+  durationMs: number;
+  stepsRun: number;
+  stepsSkipped: number;
+  chapterCount: number;
+  chaptersWritten: number;
+  wordsWritten: number;
+  checkpointsApproved: number;
+  error?: string;
+}
+
+export function createAutopilotRun(settings: AutopilotSettings, now = Date.now()): AutopilotRun {
+  return {
+    status: 'running',
+    settings,
+    startedAt: now,
+    approvedCheckpoints: [],
+    writtenChapters: [],
+    events: [{ at: now, kind: 'started', message: 'Autopilot started' }]
+  };
+}
+
+export function recordAutopilotEvent(
+  run: AutopilotRun,
+  kind: AutopilotEventKind,
+  message: string,
+  changes: Partial<AutopilotRun> = {},
+  now = Date.now()
+): AutopilotRun {
+  return { ...run, ...changes, events: [...run.events, { at: now, kind, message }] };
+}
+
+// End the run; a run that has already ended keeps its outcome
+export function endAutopilotRun(
+  run: AutopilotRun,
+  status: 'finished' | 'stopped' | 'failed',
+  message: string,
+  error?: string,
+  now = Date.now()
+): AutopilotRun {
+  if (run.finishedAt !== undefined) return run;
+  const kind: AutopilotEventKind = status;
+  return recordAutopilotEvent(run, kind, message, { status, finishedAt: now, checkpoint: undefined, error }, now);
+}
+
+export function approveAutopilotCheckpoint(run: AutopilotRun, now = Date.now()): AutopilotRun {
+  if (run.status !== 'waiting' || !run.checkpoint) return run;
+  return recordAutopilotEvent(run, 'approved', `Approved: ${run.checkpoint.label}`, {
+    status: 'running',
+    checkpoint: undefined,
+    approvedCheckpoints: [...run.approvedCheckpoints, run.checkpoint.id]
+  }, now);
+}
+
+/**
+ * The next action for a running autopilot. Planning steps run in order (optional ones are skipped
+ * unless the settings say otherwise), then every unwritten chapter is written, stopping at each
+ * checkpoint the settings ask for until it is approved.
+ */
+export function getNextAutopilotAction(
+  run: AutopilotRun,
+  pipeline: WorkflowPipeline,
+  progress: AutopilotProgress
+): AutopilotAction {
+  const { settings, approvedCheckpoints } = run;
+  const { currentStep, steps, chapters, chapterCount } = progress;
+  const chaptersStarted = chapters.some(chapter => chapter.completed);
+
+  // A fixed chapter count wins over the model's suggestion until the first chapter is written
+  if (settings.chapterCount && chapterCount !== settings.chapterCount && !chaptersStarted) {
+    return { kind: 'set-chapter-count', chapterCount: settings.chapterCount };
+  }
+
+  if (currentStep < getChapterStepId(pipeline)) {
+    const step = steps.find(candidate => candidate.id === currentStep);
+    if (!step) return { kind: 'advance' };
+    if (!step.completed) {
+      return getPipelineStep(pipeline, step.id)?.optional && !settings.runOptionalSteps
+        ? { kind: 'skip-step', stepId: step.id }
+        : { kind: 'process-step', stepId: step.id };
+    }
+    const checkpointId = `step-${step.id}`;
+    if (settings.pauseAfterSteps.includes(step.id) && !step.skipped && !approvedCheckpoints.includes(checkpointId)) {
+      return { kind: 'checkpoint', checkpoint: { id: checkpointId, label: `Review "${step.name}" before the next step` } };
+    }
+    return { kind: 'advance' };
+  }
+
+  if (settings.pauseBeforeChapters && !chaptersStarted && !approvedCheckpoints.includes('chapters')) {
+    return { kind: 'checkpoint', checkpoint: { id: 'chapters', label: 'Review the plan before the chapters are written' } };
+  }
+
+  const nextChapter = chapters.find(chapter => !chapter.completed);
+  if (!nextChapter) return { kind: 'finish' };
+
+  const unapprovedChapter = run.writtenChapters.find(id => !approvedCheckpoints.includes(`chapter-${id}`));
+  if (settings.pauseAfterEachChapter && unapprovedChapter !== undefined) {
+    return {
+      kind: 'checkpoint',
+      checkpoint: { id: `chapter-${unapprovedChapter}`, label: `Review Chapter ${unapprovedChapter} before the next one is written` }
+    };
+  }
+  return { kind: 'write-chapter', chapterId: nextChapter.id };
+}
+
+export function summarizeAutopilotRun(run: AutopilotRun, chapters: Chapter[], now = Date.now()): AutopilotSummary {
+  const count = (kind: AutopilotEventKind) => run.events.filter(event => event.kind === kind).length;
+  const written = chapters.filter(chapter => chapter.completed && run.writtenChapters.includes(chapter.id));
+  return {
+    status: run.status,
+    durationMs: (run.finishedAt ?? now) - run.startedAt,
+    stepsRun: count('step'),
+    stepsSkipped: count('skipped'),
+    chapterCount: chapters.length,
+    chaptersWritten: written.length,
+    wordsWritten: written.reduce((total, chapter) => total + chapter.wordCount, 0),
+    checkpointsApproved: count('approved'),
+    error: run.error
+  };
+}
@@ -0,0 +1,46 @@
+import { renderBookHtml } from './bookRenderer';
+import { createInitialChapters } from './workflowUtils';
+
+const chapters = createInitialChapters(3).map(chapter => {
+  if (chapter.id === 3) return chapter;
+  return {
+    ...chapter,
+    content: `Chapter ${chapter.id}\n\nThe *first* paragraph.\n\nThe second.\n\n* * *\n\nAfter the break.`,
+    completed: true,
+    outline: chapter.id === 2 ? { title: 'Salt & Water', summary: '', beats: [] } : undefined
+  };
+});
+
+const parseBook = () => new DOMParser().parseFromString(
+  renderBookHtml(chapters, { title: 'The <Salt> Road', author: '' }),
+  'text/html'
+);
+
+test('the book has a title page, contents and one section per written chapter', () => {
+  const book = parseBook();
+  expect(book.title).toBe('The <Salt> Road');
+  expect(book.querySelector('.title-page h1')?.textContent).toBe('The <Salt> Road');
+  expect(book.querySelector('.title-page .author')).toBeNull();
+
+  const entries = Array.from(book.querySelectorAll('[data-target]'));
+  expect(entries.map(entry => entry.getAttribute('data-target'))).toEqual(['chapter-1', 'chapter-2']);
+  expect(entries[1].textContent).toContain('Salt & Water');
+  expect(book.querySelectorAll('section[data-kind="chapter"]')).toHaveLength(2);
+  expect(book.getElementById('chapter-3')).toBeNull();
+});
+
+test('chapter openers show the outline title and the text starts after them', () => {
+  const book = parseBook();
+  const first = book.getElementById('chapter-1')!;
+  expect(first.querySelector('.chapter-number')?.textContent).toBe('Chapter 1');
+  expect(first.querySelector('.chapter-title')).toBeNull();
+
+  const second = book.getElementById('chapter-2')!;
+  expect(second.getAttribute('data-title')).toBe('Salt & Water');
+  expect(second.querySelector('.chapter-title')?.textContent).toBe('Salt & Water');
+
+  const paragraphs = Array.from(first.querySelectorAll('p'));
+  expect(paragraphs.map(paragraph => paragraph.className)).toEqual(['first', '', '']);
+  expect(paragraphs[0].innerHTML).toBe('The <em>first</em> paragraph.');
+  expect(first.querySelectorAll('.scene-break')).toHaveLength(1);
+});
@@ -0,0 +1,282 @@
+/**
+ * Book Renderer
+ * Produces a self-contained, paginated HTML book that can be previewed, printed to PDF or downloaded
+ */
+
+import { Chapter, ExportOptions } from './types';
+import {
+  escapeXml,
+  stripChapterHeading,
+  parseManuscriptBlocks,
+  inlineMarkdownToXhtml,
+  getChapterTitle,
+  getWrittenChapters
+} from './manuscriptUtils';
+
+export type BookOptions = Pick<ExportOptions, 'title' | 'author'>;
+
+const BOOK_STYLES = `
+@page { size: 6in 9in; margin: 0; }
+* { box-sizing: border-box; }
+html, body { margin: 0; padding: 0; }
+body { background: #e8e6e1; font-family: 'Iowan Old Style', 'Palatino Linotype', Palatino, Georgia, serif; color: #1d1d1d; }
+#source { display: none; }
+#book { padding: 24px 0; }
+.page {
+  position: relative;
+  width: 6in;
+  height: 9in;
+  margin: 0 auto 24px;
+  background: #fffdf8;
+  box-shadow: 0 2px 12px rgba(0, 0, 0, 0.25);
+  overflow: hidden;
+}
+.page-body {
+  position: absolute;
+  top: 0.9in;
+  bottom: 0.85in;
+  left: 0.75in;
+  right: 0.75in;
+  overflow: hidden;
+  font-size: 11pt;
+  line-height: 1.45;
+  hyphens: auto;
+  text-align: justify;
+}
+.running-header {
+  position: absolute;
+  top: 0.45in;
+  left: 0.75in;
+  right: 0.75in;
+  font-size: 8pt;
+  letter-spacing: 0.15em;
+  text-transform: uppercase;
+  color: #666;
+}
+.page.verso .running-header { text-align: left; }
+.page.recto .running-header { text-align: right; }
+.folio {
+  position: absolute;
+  bottom: 0.45in;
+  left: 0;
+  right: 0;
+  text-align: center;
+  font-size: 9pt;
+  color: #666;
+}
+.page.opener .running-header, .page.front .running-header, .page.front .folio { display: none; }
+p { margin: 0; text-indent: 1.5em; orphans: 2; widows: 2; }
+p.first, p.continued, .scene-break + p { text-indent: 0; }
+.page.opener .page-body p.first::first-letter {
+  float: left;
+  font-size: 3.6em;
+  line-height: 0.85;
+  padding: 0.06em 0.08em 0 0;
+}
+.scene-break { text-align: center; margin: 0.9em 0; letter-spacing: 0.5em; color: #555; }
+h3, h4 { font-weight: normal; font-style: italic; text-align: center; margin: 1em 0 0.5em; font-size: 1em; }
+.chapter-opener { text-align: center; padding-top: 1.4in; margin-bottom: 0.5in; }
+.chapter-opener .chapter-number { font-size: 10pt; letter-spacing: 0.3em; text-transform: uppercase; color: #777; }
+.chapter-opener .chapter-title { font-size: 20pt; font-weight: normal; margin: 0.2em 0 0; }
+.chapter-opener .ornament { margin-top: 0.25in; color: #999; }
+.title-page { text-align: center; padding-top: 2.2in; }
+.title-page h1 { font-size: 26pt; font-weight: normal; margin: 0 0 0.4in; }
+.title-page .author { font-size: 13pt; font-style: italic; }
+.contents h2 { text-align: center; font-weight: normal; font-size: 16pt; margin: 0.6in 0 0.4in; }
+p.entry { display: flex; text-indent: 0; text-align: left; }
+p.entry .dots { flex: 1; border-bottom: 1px dotted #999; margin: 0 0.4em 0.35em; }
+@media print {
+  body { background: none; }
+  #book { padding: 0; }
+  .page { margin: 0; box-shadow: none; page-break-after: always; break-after: page; }
+}
+`;
+
+// Paginates the hidden #source sections into fixed-size pages.
+// Kept as plain ES5 so the exported HTML works without any build step.
+const PAGINATION_SCRIPT = `
+(function () {
+  var book = document.getElementById('book');
+  var source = document.getElementById('source');
+  var bookTitle = document.body.getAttribute('data-title') || '';
+  var pageNumber = 0;
+  var chapterPages = {};
+
+  function createPage(kind, headerText) {
+    pageNumber += 1;
+    var page = document.createElement('div');
+    page.className = 'page ' + (pageNumber % 2 === 0 ? 'verso' : 'recto') + (kind ? ' ' + kind : '');
+    var header = document.createElement('div');
+    header.className = 'running-header';
+    header.textContent = pageNumber % 2 === 0 ? bookTitle : headerText;
+    var body = document.createElement('div');
+    body.className = 'page-body';
+    var folio = document.createElement('div');
+    folio.className = 'folio';
+    folio.textContent = String(pageNumber);
+    page.appendChild(header);
+    page.appendChild(body);
+    page.appendChild(folio);
+    book.appendChild(page);
+    return body;
+  }
+
+  function overflows(body) {
+    return body.scrollHeight > body.clientHeight + 1;
+  }
+
+  // Split a paragraph's HTML at a token boundary, re-opening any inline tags on the remainder
+  function tokenize(html) {
+    return html.match(/<[^>]+>|[^<\\s]+|\\s+/g) || [];
+  }
+  function openTagsAt(tokens, count) {
+    var stack = [];
+    for (var i = 0; i < count; i++) {
+      var token = tokens[i];
+      if (/^<\\//.test(token)) { stack.pop(); }
+      else if (/^<[^!]/.test(token) && !/\\/>$/.test(token)) { stack.push(token); }
+    }
+    return stack;
+  }
+  function closeTags(stack) {
+    return stack.slice().reverse().map(function (tag) {
+      return '</' + tag.replace(/^<([a-zA-Z0-9]+).*$/, '$1') + '>';
+    }).join('');
+  }
+
+  function splitParagraph(body, node) {
+    var tokens = tokenize(node.innerHTML);
+    var low = 0;
+    var high = tokens.length;
+    var part = node.cloneNode(false);
+    body.appendChild(part);
+    while (low < high) {
+      var mid = Math.ceil((low + high) / 2);
+      part.innerHTML = tokens.slice(0, mid).join('') + closeTags(openTagsAt(tokens, mid));
+      if (overflows(body)) { high = mid - 1; } else { low = mid; }
+    }
+    if (low === 0) {
+      body.removeChild(part);
+      return node;
+    }
+    part.innerHTML = tokens.slice(0, low).join('') + closeTags(openTagsAt(tokens, low));
+    var rest = node.cloneNode(false);
+    rest.className = (rest.className + ' continued').trim();
+    rest.innerHTML = openTagsAt(tokens, low).join('') + tokens.slice(low).join('');
+    return rest;
+  }
+
+  function flow(section, kind, headerText) {
+    var body = createPage(kind, headerText);
+    var queue = Array.prototype.slice.call(section.children).map(function (node) {
+      return node.cloneNode(true);
+    });
+    while (queue.length > 0) {
+      var node = queue.shift();
+      body.appendChild(node);
+      if (!overflows(body)) { continue; }
+      body.removeChild(node);
+      if (node.tagName === 'P') {
+        var rest = splitParagraph(body, node);
+        if (rest !== node) {
+          queue.unshift(rest);
+          body = createPage('', headerText);
+          continue;
+        }
+      }
+      if (body.children.length === 0) {
+        // Too tall for an empty page: place it anyway rather than loop forever
+        body.appendChild(node);
+        continue;
+      }
+      queue.unshift(node);
+      body = createPage('', headerText);
+    }
+  }
+
+  var sections = Array.prototype.slice.call(source.children);
+  sections.forEach(function (section) {
+    var kind = section.getAttribute('data-kind');
+    if (kind === 'chapter') {
+      chapterPages[section.id] = pageNumber + 1;
+      flow(section, 'opener', section.getAttribute('data-title') || '');
+    } else {
+      flow(section, 'front', '');
+    }
+  });
+
+  Array.prototype.slice.call(book.querySelectorAll('[data-target]')).forEach(function (entry) {
+    var number = entry.querySelector('.number');
+    if (number) { number.textContent = chapterPages[entry.getAttribute('data-target')] || ''; }
+  });
+})();
+`;
+
+function blocksToHtml(text: string): string {
+  let isFirst = true;
+  return parseManuscriptBlocks(text).map(block => {
+    switch (block.type) {
+      case 'heading': {
+        // Chapter titles live in the opener, so in-text headings start one level down
+        const tag = block.level && block.level > 2 ? 'h4' : 'h3';
+        return `<${tag}>${inlineMarkdownToXhtml(block.text)}</${tag}>`;
+      }
+      case 'sceneBreak':
+        return '<div class="scene-break">⁂</div>';
+      default: {
+        const className = isFirst ? ' class="first"' : '';
+        isFirst = false;
+        return `<p${className}>${inlineMarkdownToXhtml(block.text)}</p>`;
+      }
+    }
+  }).join('\n');
+}
+
+// Render the chapters as a standalone, self-paginating HTML document
+export function renderBookHtml(chapters: Chapter[], options: BookOptions): string {
+  const written = getWrittenChapters(chapters);
+
+  const titlePage = `<section data-kind="front">
+  <div class="title-page">
+    <h1>${escapeXml(options.title)}</h1>
+    ${options.author.trim() ? `<div class="author">${escapeXml(options.author)}</div>` : ''}
+  </div>
+</section>`;
+
+  const contents = `<section data-kind="front">
+  <div class="contents"><h2>Contents</h2></div>
+  ${written.map(chapter => `<p class="entry" data-target="chapter-${chapter.id}"><span>${escapeXml(getChapterTitle(chapter))}</span><span class="dots"></span><span class="number">000</span></p>`).join('\n  ')}
+</section>`;
+
+  const chapterSections = written.map(chapter => {
+    const title = getChapterTitle(chapter);
+    return `<section id="chapter-${chapter.id}" data-kind="chapter" data-title="${escapeXml(title)}">
+  <div class="chapter-opener">
+    <div class="chapter-number">Chapter ${chapter.id}</div>
+    ${title !== `Chapter ${chapter.id}` ? `<h2 class="chapter-title">${escapeXml(title)}</h2>` : ''}
+    <div class="ornament">❦</div>
+  </div>
+  ${blocksToHtml(stripChapterHeading(chapter.content))}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeXml(options.title)}</title>
+<style>${BOOK_STYLES}</style>
+</head>
+<body data-title="${escapeXml(options.title)}">
+<div id="source">
+${titlePage}
+${contents}
+${chapterSections}
+</div>
+<div id="book"></div>
+<script>${PAGINATION_SCRIPT}</script>
+</body>
+</html>
+`;
+}
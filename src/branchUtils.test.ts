@@ -0,0 +1,119 @@
+import { createBranch, describeForkPoint, forkSnapshot, MAIN_BRANCH_ID, syncActiveBranch } from './branchUtils';
+import { createPipelineSteps, BUILT_IN_PIPELINES } from './pipelines';
+import { BranchSnapshot, Message } from './types';
+import { createInitialChapters } from './workflowUtils';
+
+const worldBuilding = BUILT_IN_PIPELINES.find(pipeline => pipeline.id === 'world-building')!;
+
+// Steps 1-5 of the world-building pipeline done, with the optional step 3 skipped
+const snapshot = (): BranchSnapshot => {
+  const outputs: Record<number, string> = { 1: 'Brainstorm', 2: 'Plan', 4: 'Critique', 5: 'Final plan' };
+  const steps = createPipelineSteps(worldBuilding).map(step => (
+    step.id <= 5
+      ? { ...step, completed: true, skipped: step.id === 3, content: outputs[step.id] || '' }
+      : step
+  ));
+  const messages: Message[] = [{ role: 'system', content: 'You are a helpful assistant' }];
+  [1, 2, 4, 5].forEach(id => messages.push({ role: 'user', content: `Prompt ${id}` }, { role: 'assistant', content: outputs[id] }));
+  return { currentStep: 6, chapterCount: 2, steps, chapters: createInitialChapters(2), messages };
+};
+
+test('forking after a skipped step keeps the conversation up to the last generated step', () => {
+  const fork = forkSnapshot(snapshot(), 'step', 4);
+  expect(fork.messages.map(message => message.content)).toEqual(['You are a helpful assistant', 'Prompt 1', 'Brainstorm', 'Prompt 2', 'Plan']);
+  expect(fork.steps.find(step => step.id === 3)).toMatchObject({ completed: true, skipped: true });
+  expect(fork.steps.find(step => step.id === 4)).toMatchObject({ completed: false, content: '' });
+});
+
+test('forking at the first step keeps only the system messages', () => {
+  expect(forkSnapshot(snapshot(), 'step', 1).messages).toEqual([{ role: 'system', content: 'You are a helpful assistant' }]);
+});
+
+test('the first chapter of a fork continues from the last generated planning step', () => {
+  const source = snapshot();
+  source.steps = source.steps.map(step => (step.id === 6 ? { ...step, completed: true, skipped: true } : step));
+  const fork = forkSnapshot(source, 'chapter', 1);
+  expect(fork.messages[fork.messages.length - 1]).toEqual({ role: 'assistant', content: 'Final plan' });
+});
+
+test('an output edited since it was generated never lets the whole conversation into the fork', () => {
+  const source = snapshot();
+  source.steps = source.steps.map(step => (step.id === 2 ? { ...step, content: 'Plan, edited by hand' } : step));
+  expect(forkSnapshot(source, 'step', 4).messages.map(message => message.content))
+    .toEqual(['You are a helpful assistant', 'Prompt 1', 'Brainstorm']);
+
+  source.steps = source.steps.map(step => (step.id === 1 ? { ...step, content: 'Restored brainstorm' } : step));
+  expect(forkSnapshot(source, 'step', 4).messages).toEqual([{ role: 'system', content: 'You are a helpful assistant' }]);
+});
+
+test('a chapter fork keeps the chapters before the fork point and drops the rest', () => {
+  const source = snapshot();
+  source.chapters = source.chapters.map(chapter => ({ ...chapter, content: `Chapter ${chapter.id} text`, completed: true, wordCount: 3 }));
+  source.messages = [
+    ...source.messages,
+    { role: 'user', content: 'Write 1' }, { role: 'assistant', content: 'Chapter 1 text' },
+    { role: 'user', content: 'Write 2' }, { role: 'assistant', content: 'Chapter 2 text' }
+  ];
+
+  const fork = forkSnapshot(source, 'chapter', 2);
+  expect(fork.messages[fork.messages.length - 1]).toEqual({ role: 'assistant', content: 'Chapter 1 text' });
+  expect(fork.chapters.map(chapter => chapter.completed)).toEqual([true, false]);
+});
+
+test('forking leaves the source untouched and clears the history of what it resets', () => {
+  const source = snapshot();
+  source.steps = source.steps.map(step => ({ ...step, feedback: 'Darker', revisions: [{ id: `r${step.id}`, content: step.content, model: 'm', createdAt: 1 }] }));
+  const before = JSON.stringify(source);
+
+  const fork = forkSnapshot(source, 'step', 2);
+  expect(JSON.stringify(source)).toBe(before);
+  expect(fork.currentStep).toBe(2);
+  expect(fork.steps[0]).toEqual(source.steps[0]);
+  expect(fork.steps[1]).toMatchObject({ content: '', completed: false, skipped: false, feedback: '', revisions: [] });
+});
+
+test('cleared steps and chapters lose the model, reasoning and summary of their old content', () => {
+  const source = snapshot();
+  source.steps = source.steps.map(step => ({ ...step, model: 'old-model', reasoning: 'Old thoughts' }));
+  source.chapters = source.chapters.map(chapter => ({
+    ...chapter,
+    content: 'Old text',
+    completed: true,
+    attempt: 2,
+    model: 'old-model',
+    reasoning: 'Old thoughts',
+    summary: 'Old summary',
+    outline: { title: `Chapter ${chapter.id}`, summary: '', beats: [] }
+  }));
+
+  const stepFork = forkSnapshot(source, 'step', 4);
+  expect(stepFork.steps[1]).toMatchObject({ model: 'old-model', reasoning: 'Old thoughts' });
+  [stepFork.steps[3], stepFork.chapters[0]].forEach(cleared => {
+    expect(cleared.model).toBeUndefined();
+    expect(cleared.reasoning).toBeUndefined();
+  });
+
+  const [kept, cleared] = forkSnapshot(source, 'chapter', 2).chapters;
+  expect(kept).toEqual(source.chapters[0]);
+  expect(cleared).toMatchObject({ content: '', outline: { title: 'Chapter 2' } });
+  expect(cleared.attempt).toBeUndefined();
+  expect(cleared.summary).toBeUndefined();
+  expect(cleared.model).toBeUndefined();
+});
+
+test('branches are kept in step with the live story and describe where they forked', () => {
+  const main = createBranch('', snapshot());
+  expect(main).toMatchObject({ id: MAIN_BRANCH_ID, name: 'Main' });
+  const fork = createBranch('  ', forkSnapshot(snapshot(), 'chapter', 1), { branchId: MAIN_BRANCH_ID, kind: 'chapter', targetId: 1 });
+  expect(fork.id).not.toBe(MAIN_BRANCH_ID);
+  expect(fork.name).toBe('Untitled Branch');
+
+  const live = { ...snapshot(), currentStep: 3 };
+  const synced = syncActiveBranch([main, fork], MAIN_BRANCH_ID, live);
+  expect(synced[0]).toMatchObject({ id: MAIN_BRANCH_ID, currentStep: 3 });
+  expect(synced[1]).toBe(fork);
+  expect(syncActiveBranch([], MAIN_BRANCH_ID, live)).toEqual([expect.objectContaining({ id: MAIN_BRANCH_ID, name: 'Main', currentStep: 3 })]);
+
+  expect(describeForkPoint(fork.forkedFrom!, [main, fork])).toBe('Forked from Main at chapter 1');
+  expect(describeForkPoint({ branchId: 'gone', kind: 'step', targetId: 4 }, [main])).toBe('Forked from a deleted branch at step 4');
+});
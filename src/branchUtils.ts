@@ -0,0 +1,118 @@
+import { BranchSnapshot, BranchForkPoint, StoryBranch, Message, WorkflowStep, Chapter } from './types';
+import { createProjectId } from './projectStorage';
+
+export const MAIN_BRANCH_ID = 'main';
+export const MAIN_BRANCH_NAME = 'Main';
+
+// Cleared steps and chapters keep nothing that described their old content; a chapter keeps its outline
+function resetStep(step: WorkflowStep): WorkflowStep {
+  return {
+    ...step,
+    content: '',
+    completed: false,
+    skipped: false,
+    feedback: '',
+    isProcessing: false,
+    model: undefined,
+    reasoning: undefined,
+    revisions: [],
+    usage: []
+  };
+}
+
+function resetChapter(chapter: Chapter): Chapter {
+  return {
+    ...chapter,
+    content: '',
+    wordCount: 0,
+    completed: false,
+    feedback: '',
+    isProcessing: false,
+    attempt: undefined,
+    model: undefined,
+    reasoning: undefined,
+    summary: undefined,
+    revisions: [],
+    usage: []
+  };
+}
+
+// Truncate the conversation just after the latest of the given outputs (oldest first) that it still contains.
+// An output edited or restored since it was generated no longer matches, so the cut falls after an earlier
+// one; with no match at all only the system messages are kept, never the whole conversation.
+function truncateMessagesAfter(messages: Message[], outputs: string[]): Message[] {
+  for (let i = outputs.length - 1; i >= 0; i--) {
+    const index = messages.map(message => message.role === 'assistant' && message.content === outputs[i]).lastIndexOf(true);
+    if (index !== -1) return messages.slice(0, index + 1);
+  }
+  return messages.filter(message => message.role === 'system');
+}
+
+// Outputs of the steps before the given one that are in the conversation; skipped steps never are
+function generatedStepOutputs(steps: WorkflowStep[], beforeId: number): string[] {
+  return steps
+    .filter(step => step.id < beforeId && step.completed && !step.skipped && step.content)
+    .map(step => step.content);
+}
+
+// Create a snapshot for a new branch that diverges at the given step or chapter.
+// Everything before the fork point is carried over; the fork point and later are cleared.
+export function forkSnapshot(source: BranchSnapshot, kind: BranchForkPoint['kind'], targetId: number): BranchSnapshot {
+  if (kind === 'step') {
+    return {
+      currentStep: targetId,
+      chapterCount: source.chapterCount,
+      steps: source.steps.map(step => step.id >= targetId ? resetStep(step) : { ...step }),
+      chapters: source.chapters.map(resetChapter),
+      messages: truncateMessagesAfter(source.messages, generatedStepOutputs(source.steps, targetId))
+    };
+  }
+
+  // Chapters continue from the previous chapter, or the last planning step for the first one
+  const earlierChapterOutputs = source.chapters
+    .filter(chapter => chapter.id < targetId && chapter.completed && chapter.content)
+    .map(chapter => chapter.content);
+  return {
+    // The last step writes the chapters
+    currentStep: Math.max(source.currentStep, source.steps.length),
+    chapterCount: source.chapterCount,
+    steps: source.steps.map(step => ({ ...step })),
+    chapters: source.chapters.map(chapter => chapter.id >= targetId ? resetChapter(chapter) : { ...chapter }),
+    messages: truncateMessagesAfter(
+      source.messages,
+      [...generatedStepOutputs(source.steps, source.steps.length), ...earlierChapterOutputs]
+    )
+  };
+}
+
+export function createBranch(
+  name: string,
+  snapshot: BranchSnapshot,
+  forkedFrom?: BranchForkPoint
+): StoryBranch {
+  return {
+    ...snapshot,
+    id: forkedFrom ? createProjectId() : MAIN_BRANCH_ID,
+    name: name.trim() || (forkedFrom ? 'Untitled Branch' : MAIN_BRANCH_NAME),
+    createdAt: Date.now(),
+    forkedFrom
+  };
+}
+
+// Return the branch list with the active branch updated from the live snapshot
+export function syncActiveBranch(
+  branches: StoryBranch[],
+  activeBranchId: string,
+  snapshot: BranchSnapshot
+): StoryBranch[] {
+  if (!branches.some(branch => branch.id === activeBranchId)) {
+    return [...branches, createBranch(activeBranchId === MAIN_BRANCH_ID ? MAIN_BRANCH_NAME : activeBranchId, snapshot)];
+  }
+  return branches.map(branch => branch.id === activeBranchId ? { ...branch, ...snapshot } : branch);
+}
+
+export function describeForkPoint(forkPoint: BranchForkPoint, branches: StoryBranch[]): string {
+  const parent = branches.find(branch => branch.id === forkPoint.branchId);
+  const target = forkPoint.kind === 'step' ? `step ${forkPoint.targetId}` : `chapter ${forkPoint.targetId}`;
+  return `Forked from ${parent?.name || 'a deleted branch'} at ${target}`;
+}
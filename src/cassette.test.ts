@@ -0,0 +1,99 @@
+import { apiService } from './apiService';
+import { parseCassette } from './cassette';
+import { MOCK_BASE_URL, MOCK_MODEL, configureMockProvider, resetMockProvider, getMockRequestCount } from './mockProvider';
+import { Message } from './types';
+
+const chapterPrompt: Message[] = [{ role: 'user', content: 'Write Chapter 1 of the short story.' }];
+
+const collectStream = async () => {
+  let content = '';
+  const stream = apiService.chatCompletionStream(chapterPrompt, MOCK_MODEL, undefined, '', MOCK_BASE_URL, undefined, 'mock');
+  for await (const chunk of stream) {
+    content += chunk;
+  }
+  return content;
+};
+
+// Record a session against the mock provider and return it as a downloaded cassette would be read back
+const recordSession = async (run: () => Promise<unknown>) => {
+  apiService.startRecording();
+  await run();
+  return parseCassette(JSON.stringify(apiService.stopRecording()));
+};
+
+beforeEach(() => {
+  resetMockProvider();
+  configureMockProvider({ chapterWords: 60, chunkWords: 10, chunkDelayMs: 5 });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  apiService.stopRecording();
+  apiService.stopReplay();
+  jest.restoreAllMocks();
+});
+
+test('records streamed chunks with their timing and replays them without the provider', async () => {
+  let recorded = '';
+  const cassette = await recordSession(async () => {
+    recorded = await collectStream();
+  });
+
+  expect(cassette.interactions).toHaveLength(1);
+  const [interaction] = cassette.interactions;
+  expect(interaction.status).toBe(200);
+  expect(interaction.chunks!.length).toBeGreaterThan(1);
+  expect(interaction.chunks!.map(chunk => chunk.data).join('')).toContain('[DONE]');
+  expect((interaction.requestBody as { messages: Message[] }).messages).toEqual(chapterPrompt);
+
+  // Different canned text proves the replay never reaches the provider
+  configureMockProvider({ responses: { chapter: 'Something else entirely.' } });
+  apiService.startReplay(cassette);
+  const startedAt = Date.now();
+  expect(await collectStream()).toBe(recorded);
+  // Chunks arrive with their recorded spacing
+  const recordedDuration = interaction.latencyMs + interaction.chunks!.reduce((sum, chunk) => sum + chunk.delayMs, 0);
+  expect(Date.now() - startedAt).toBeGreaterThanOrEqual(recordedDuration - 10);
+  expect(getMockRequestCount()).toBe(0);
+  expect(apiService.getCassetteStatus()).toEqual({ mode: 'replaying', interactions: 1, total: 1 });
+});
+
+test('replays a rate limit and its retry in order', async () => {
+  configureMockProvider({ failures: [{ request: 1, kind: 'rate-limit' }] });
+  const cassette = await recordSession(() => collectStream());
+
+  expect(cassette.interactions.map(interaction => interaction.status)).toEqual([429, 200]);
+  expect(cassette.interactions[0].headers).toEqual({ 'Retry-After': '0' });
+
+  resetMockProvider();
+  apiService.startReplay(cassette);
+  await expect(collectStream()).resolves.toMatch(/^Chapter 1/);
+  expect(getMockRequestCount()).toBe(0);
+});
+
+test('replays a mid-stream disconnect as a failed stream', async () => {
+  configureMockProvider({ failures: [{ request: 1, kind: 'disconnect' }] });
+  const cassette = await recordSession(() => collectStream().catch(() => undefined));
+
+  expect(cassette.interactions[0].error).toEqual({ name: 'TypeError', message: 'Network connection lost (mock disconnect)' });
+
+  apiService.startReplay(cassette);
+  await expect(collectStream()).rejects.toThrow('Network connection lost');
+});
+
+test('fails clearly once the cassette runs out', async () => {
+  const cassette = await recordSession(() => apiService.chatCompletion(chapterPrompt, MOCK_MODEL, undefined, '', MOCK_BASE_URL, 'mock'));
+
+  apiService.startReplay(cassette);
+  await apiService.chatCompletion(chapterPrompt, MOCK_MODEL, undefined, '', MOCK_BASE_URL, 'mock');
+  await expect(
+    apiService.chatCompletion(chapterPrompt, MOCK_MODEL, undefined, '', MOCK_BASE_URL, 'mock')
+  ).rejects.toThrow('no more recorded responses');
+});
+
+test('rejects files that are not cassettes', () => {
+  expect(() => parseCassette('{"version": 2, "interactions": []}')).toThrow('not a session cassette file');
+  expect(() => parseCassette('not json')).toThrow('not valid JSON');
+});
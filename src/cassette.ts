@@ -0,0 +1,190 @@
+/**
+ * Session Cassettes
+ * Record every API exchange of a session (with raw stream chunks and their timing) and replay it without a key
+ */
+
+import { Cassette, CassetteInteraction } from './types';
+import { ApiError } from './retryPolicy';
+import { createSyntheticResponse, createChunkReader, sleep } from './syntheticResponse';
+
+export const CASSETTE_VERSION = 1;
+
+type Send = (url: string, init: RequestInit) => Promise<Response>;
+
+// Only headers that change how a response is handled; the rest are noise
+const RECORDED_HEADERS = ['Content-Type', 'Retry-After'];
+
+const parseRequestBody = (body: RequestInit['body']): unknown => {
+  if (typeof body !== 'string') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    return body;
+  }
+};
+
+const toRecordedError = (error: unknown) => ({
+  name: error instanceof Error ? error.name : 'Error',
+  message: error instanceof Error ? error.message : String(error)
+});
+
+const fromRecordedError = ({ name, message }: { name: string; message: string }): Error => {
+  const error = name === 'TypeError' ? new TypeError(message) : new Error(message);
+  error.name = name;
+  return error;
+};
+
+const isStreamingResponse = (response: Response, requestBody: unknown) => {
+  const contentType = response.headers.get('Content-Type') || '';
+  return /event-stream|ndjson/.test(contentType) || (requestBody as { stream?: boolean } | undefined)?.stream === true;
+};
+
+const withoutQuery = (url: string) => url.split('?')[0];
+
+// Pass stream chunks through to the caller while writing them to the interaction
+const createRecordingReader = (
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  interaction: CassetteInteraction
+): ReadableStreamDefaultReader<Uint8Array> => {
+  const decoder = new TextDecoder();
+  const chunks = interaction.chunks || [];
+  let lastChunkAt = Date.now();
+  return {
+    async read() {
+      try {
+        const result = await reader.read();
+        if (!result.done) {
+          const now = Date.now();
+          chunks.push({ delayMs: now - lastChunkAt, data: decoder.decode(result.value, { stream: true }) });
+          lastChunkAt = now;
+        }
+        return result;
+      } catch (error) {
+        interaction.error = toRecordedError(error);
+        throw error;
+      }
+    },
+    releaseLock() {
+      reader.releaseLock();
+    }
+  } as unknown as ReadableStreamDefaultReader<Uint8Array>;
+};
+
+export class CassetteRecorder {
+  private readonly recordedAt = Date.now();
+  private readonly interactions: CassetteInteraction[] = [];
+
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  // Send a request through send and record the exchange; the caller gets an equivalent response
+  async capture(url: string, init: RequestInit, send: Send): Promise<Response> {
+    const requestedAt = Date.now();
+    const interaction: CassetteInteraction = {
+      method: init.method || 'GET',
+      url,
+      requestBody: parseRequestBody(init.body),
+      startedAt: requestedAt - this.recordedAt,
+      latencyMs: 0
+    };
+    this.interactions.push(interaction);
+
+    let response: Response;
+    try {
+      response = await send(url, init);
+    } catch (error) {
+      interaction.latencyMs = Date.now() - requestedAt;
+      interaction.error = toRecordedError(error);
+      throw error;
+    }
+
+    interaction.latencyMs = Date.now() - requestedAt;
+    interaction.status = response.status;
+    const headers: Record<string, string> = {};
+    RECORDED_HEADERS.forEach(name => {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    });
+    interaction.headers = headers;
+
+    if (response.ok && response.body && isStreamingResponse(response, interaction.requestBody)) {
+      interaction.chunks = [];
+      return createSyntheticResponse(response.status, '', headers, createRecordingReader(response.body.getReader(), interaction));
+    }
+
+    try {
+      interaction.body = await response.text();
+    } catch (error) {
+      interaction.error = toRecordedError(error);
+      throw error;
+    }
+    return createSyntheticResponse(response.status, interaction.body, headers);
+  }
+
+  toCassette(): Cassette {
+    return {
+      version: CASSETTE_VERSION,
+      recordedAt: this.recordedAt,
+      interactions: this.interactions.map(interaction => ({ ...interaction }))
+    };
+  }
+}
+
+export class CassettePlayer {
+  private readonly cassette: Cassette;
+  private nextIndex = 0;
+
+  constructor(cassette: Cassette) {
+    this.cassette = cassette;
+  }
+
+  get position(): number {
+    return this.nextIndex;
+  }
+
+  get total(): number {
+    return this.cassette.interactions.length;
+  }
+
+  // Serve the next recorded exchange, whatever was asked for, with its original latency and chunk timing
+  async serve(url: string, init: RequestInit): Promise<Response> {
+    const interaction = this.cassette.interactions[this.nextIndex];
+    if (!interaction) {
+      throw new ApiError(`The cassette has no more recorded responses (all ${this.total} were replayed)`, 'request');
+    }
+    this.nextIndex++;
+
+    if (withoutQuery(interaction.url) !== withoutQuery(url)) {
+      console.warn(`Cassette request ${this.nextIndex} was recorded for ${interaction.url} but is being replayed for ${url}`);
+    }
+
+    await sleep(interaction.latencyMs, init.signal);
+    if (interaction.status === undefined) {
+      throw fromRecordedError(interaction.error || { name: 'TypeError', message: 'Failed to fetch' });
+    }
+
+    if (interaction.chunks) {
+      const failure = interaction.error
+        ? { afterChunk: interaction.chunks.length, error: fromRecordedError(interaction.error) }
+        : undefined;
+      const reader = createChunkReader(interaction.chunks, init.signal, failure);
+      return createSyntheticResponse(interaction.status, '', interaction.headers, reader);
+    }
+    return createSyntheticResponse(interaction.status, interaction.body || '', interaction.headers);
+  }
+}
+
+// Read a downloaded cassette file
+export function parseCassette(text: string): Cassette {
+  let data: Partial<Cassette>;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Failed to read cassette: the file is not valid JSON');
+  }
+  if (data.version !== CASSETTE_VERSION || !Array.isArray(data.interactions)) {
+    throw new Error('Failed to read cassette: this is not a session cassette file');
+  }
+  return data as Cassette;
+}
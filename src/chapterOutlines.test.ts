@@ -0,0 +1,128 @@
+import {
+  applyChapterOutlines,
+  findChapterPlan,
+  formatChapterOutline,
+  parseChapterOutlines,
+  resizeChapters
+} from './chapterOutlines';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { buildPrompt } from './promptTemplates';
+import { createInitialChapters } from './workflowUtils';
+import { ChapterOutline } from './types';
+
+const outline = (title: string, beats: string[] = []): ChapterOutline => ({ title, summary: `${title} happens.`, beats });
+
+test('reads the chapter planning of the last plan that has one', () => {
+  const steps = createPipelineSteps(CLASSIC_PIPELINE).map(step => ({ ...step, completed: step.id <= 5 }));
+  steps[1].content = '# Intention\nDraft.\n# Chapter Planning\nChapter 1: Draft plan.';
+  steps[3].content = '# Intention\nFinal.\n\n# Chapter Planning\n## Chapter 1: Arrival\nMara lands.\n\n# Notes\nNot part of the plan.';
+
+  expect(findChapterPlan(steps, 6)).toBe('## Chapter 1: Arrival\nMara lands.');
+  expect(findChapterPlan(steps.map(step => (step.id === 4 ? { ...step, skipped: true } : step)), 6)).toBe('Chapter 1: Draft plan.');
+  expect(findChapterPlan(steps.slice(0, 1), 6)).toBeUndefined();
+});
+
+test('parses one-line, headed and bulleted chapter entries', () => {
+  expect(parseChapterOutlines('Chapter 1: Mara faces the harbour.\nChapter 2: Theo faces the lighthouse.')).toEqual([
+    { title: '', summary: 'Mara faces the harbour.', beats: [] },
+    { title: '', summary: 'Theo faces the lighthouse.', beats: [] }
+  ]);
+
+  expect(parseChapterOutlines(`Opening notes are ignored.
+### Chapter I: "The Return" (POV: Mara)
+Mara comes home after twenty years.
+- She finds the lamp dark
+- Theo will not meet her eyes
+  at the harbour
+
+**Chapter 2** - The Storm - Everything breaks.
+Key beats:
+1. The boat goes out
+Chapter 4 is mentioned here but is not the next chapter.
+
+- **Chapter 3:** Aftermath
+  - **Title:** Morning
+  - **POV:** Theo
+  - **Summary:** The town counts its losses.`)).toEqual([
+    {
+      title: 'The Return',
+      summary: 'Mara comes home after twenty years.',
+      pov: 'Mara',
+      beats: ['She finds the lamp dark', 'Theo will not meet her eyes at the harbour']
+    },
+    {
+      title: 'The Storm',
+      summary: 'Everything breaks.',
+      beats: ['The boat goes out Chapter 4 is mentioned here but is not the next chapter.']
+    },
+    { title: 'Morning', summary: 'The town counts its losses.', pov: 'Theo', beats: [] }
+  ]);
+});
+
+test('outlines edited by hand survive a re-run plan', () => {
+  const chapters = createInitialChapters(2).map(chapter =>
+    chapter.id === 1 ? { ...chapter, outline: { ...outline('Mine'), edited: true } } : chapter
+  );
+  const updated = applyChapterOutlines(chapters, [outline('Planned 1'), outline('Planned 2')]);
+  expect(updated.map(chapter => chapter.outline?.title)).toEqual(['Mine', 'Planned 2']);
+  expect(applyChapterOutlines(updated, [outline('Planned 1'), outline('Planned 2')])).toBe(updated);
+});
+
+test('changing the chapter count keeps written chapters and folds removed outlines into the last one', () => {
+  const chapters = createInitialChapters(4).map((chapter, index) => ({
+    ...chapter,
+    content: index === 0 ? 'Written.' : '',
+    completed: index === 0,
+    outline: outline(`Part ${index + 1}`, [`Beat ${index + 1}`])
+  }));
+
+  const grown = resizeChapters(chapters, 5);
+  expect(grown).toHaveLength(5);
+  expect(grown[0].content).toBe('Written.');
+  expect(grown[4].outline).toBeUndefined();
+
+  const shrunk = resizeChapters(chapters, 2);
+  expect(shrunk[0]).toBe(chapters[0]);
+  expect(shrunk[1].outline).toEqual({
+    title: 'Part 2',
+    summary: 'Part 2 happens. Part 3 happens. Part 4 happens.',
+    beats: ['Beat 2', 'Beat 3', 'Beat 4']
+  });
+});
+
+test('a re-parsed plan still updates the outlines after the chapter count goes down', () => {
+  const plan = [1, 2, 3, 4].map(id => outline(`Part ${id}`, [`Beat ${id}`]));
+  const shrunk = resizeChapters(applyChapterOutlines(createInitialChapters(4), plan), 2);
+  // The outline effect runs again right after the resize and must leave the folded outline as it is
+  expect(applyChapterOutlines(shrunk, plan)).toBe(shrunk);
+
+  const replanned = [1, 2, 3, 4].map(id => outline(`New part ${id}`, [`New beat ${id}`]));
+  const updated = applyChapterOutlines(shrunk, replanned);
+  expect(updated.map(chapter => chapter.outline?.title)).toEqual(['New part 1', 'New part 2']);
+  expect(updated[1].outline?.beats).toEqual(['New beat 2', 'New beat 3', 'New beat 4']);
+  expect(updated[1].outline?.edited).toBeUndefined();
+});
+
+test('an outline edited by hand survives being folded into a chapter that was not', () => {
+  const plan = [1, 2, 3].map(id => outline(`Part ${id}`, [`Beat ${id}`]));
+  const chapters = applyChapterOutlines(createInitialChapters(3), plan).map(chapter =>
+    chapter.id === 3 ? { ...chapter, outline: { ...outline('Mine', ['My beat']), edited: true } } : chapter
+  );
+
+  const shrunk = resizeChapters(chapters, 2);
+  expect(shrunk[1].outline).toMatchObject({ title: 'Part 2', beats: ['Beat 2', 'My beat'], edited: true });
+  // The outline effect runs right after the resize and must not put the plan's outline back
+  expect(applyChapterOutlines(shrunk, plan)).toBe(shrunk);
+});
+
+test('the outline is sent with the chapter prompt', () => {
+  const prompt = buildPrompt(undefined, 'chapter', {
+    storyPrompt: 'A lighthouse keeper.',
+    storyType: 'novel',
+    chapterCount: 3,
+    wordTarget: 2000,
+    chapterIndex: 2,
+    chapterOutline: formatChapterOutline({ title: 'The Storm', summary: 'Everything breaks.', pov: 'Theo', beats: ['The boat goes out'] })
+  });
+  expect(prompt).toContain('Write Chapter 2 of the novel, following the approved plan and prior chapters.\n\nOutline for this chapter:\nTitle: The Storm\nPOV: Theo\nSummary: Everything breaks.\nKey beats:\n- The boat goes out\n\n- Produce at least 2000 words');
+});
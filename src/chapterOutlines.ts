@@ -0,0 +1,172 @@
+/**
+ * Chapter Outlines
+ * Per-chapter plans read from the "# Chapter Planning" section of the plan, kept in step with the chapter count
+ */
+
+import { Chapter, ChapterOutline, WorkflowStep } from './types';
+import { createInitialChapters } from './workflowUtils';
+
+const PLANNING_HEADING = /^(#{1,6})\s*Chapter Planning\b.*$/im;
+const CHAPTER_ENTRY = /^\s*(?:#{1,6}\s*|[-*+]\s+)?(?:\*\*|__)?\s*Chapter\s+(\d+|[ivxlc]+)\b(?:\*\*|__)?\s*[:.\-–—]?\s*(.*)$/i;
+const FIELD = /^\s*(?:[-*+]\s+)?(?:\*\*|__)?(title|summary|pov|point of view|perspective|key beats|beats)(?:\*\*|__)?\s*:\s*(?:\*\*|__)?\s*(.*)$/i;
+const BULLET = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+const INLINE_POV = /\(\s*(?:POV|point of view)\s*:\s*([^)]+)\)/i;
+const TITLE_SEPARATOR = /\s+[—–-]\s+|:\s+/;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+
+const clean = (text: string) => text.replace(/\*\*|__/g, '').trim();
+const unquote = (text: string) => text.replace(/^["“'](.*)["”']$/, '$1').trim();
+
+function parseChapterNumber(label: string): number {
+  if (/^\d+$/.test(label)) return parseInt(label, 10);
+  const values = label.toLowerCase().split('').map(letter => ROMAN_VALUES[letter]);
+  return values.reduce((total, value, index) => total + (value < (values[index + 1] || 0) ? -value : value), 0);
+}
+
+// The chapter plan of the last planning step that has one (the final plan, in the classic pipeline)
+export function findChapterPlan(steps: WorkflowStep[], chapterStepId: number): string | undefined {
+  const planned = steps.filter(step =>
+    step.id < chapterStepId && step.completed && !step.skipped && PLANNING_HEADING.test(step.content)
+  );
+  const content = planned[planned.length - 1]?.content;
+  const heading = content?.match(PLANNING_HEADING);
+  if (!content || !heading || heading.index === undefined) return undefined;
+
+  // The section runs until the next heading at the same level or above that isn't a chapter entry
+  const level = heading[1].length;
+  const rest = content.slice(heading.index + heading[0].length);
+  const end = rest.search(new RegExp(`^#{1,${level}}\\s+(?!chapter\\s+(\\d+|[ivxlc]+)\\b)`, 'im'));
+  return (end === -1 ? rest : rest.slice(0, end)).trim();
+}
+
+/**
+ * Read one outline per chapter from a chapter plan. Entries start with "Chapter N" (as a heading,
+ * a list item or bold text) and may carry Title, Summary, POV and Beats fields or bulleted beats.
+ * Entries are taken in order, so a later line that happens to start with "Chapter 2" is read as
+ * part of the current entry unless chapter 2 is the next one expected.
+ */
+export function parseChapterOutlines(plan: string): ChapterOutline[] {
+  const entries: { header: string; body: string[] }[] = [];
+  plan.split('\n').forEach(line => {
+    const entry = line.match(CHAPTER_ENTRY);
+    if (entry && parseChapterNumber(entry[1]) === entries.length + 1) {
+      entries.push({ header: clean(entry[2]), body: [] });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].body.push(line);
+    }
+  });
+
+  return entries.map(({ header, body }) => {
+    let title: string | undefined;
+    let pov: string | undefined;
+    const summary: string[] = [];
+    const beats: string[] = [];
+    let inBeats = false;
+
+    const inlinePov = header.match(INLINE_POV);
+    if (inlinePov) {
+      pov = clean(inlinePov[1]);
+      header = header.replace(INLINE_POV, '').trim();
+    }
+
+    body.forEach(line => {
+      if (!line.trim()) return;
+      const field = line.match(FIELD);
+      const bullet = line.match(BULLET);
+      if (field) {
+        const name = field[1].toLowerCase();
+        const value = clean(field[2]);
+        inBeats = name.includes('beats');
+        if (name === 'title') title = unquote(value);
+        else if (name === 'summary') summary.push(value);
+        else if (inBeats) { if (value) beats.push(value); }
+        else pov = value;
+      } else if (bullet) {
+        beats.push(clean(bullet[1]));
+      } else if ((inBeats || /^\s/.test(line)) && beats.length > 0) {
+        beats[beats.length - 1] = `${beats[beats.length - 1]} ${clean(line)}`;
+      } else {
+        summary.push(clean(line));
+      }
+    });
+
+    // "Chapter 1: Title - what happens" or "Chapter 1: Title", unless the header reads as a sentence
+    if (title === undefined && header) {
+      const separator = header.match(TITLE_SEPARATOR);
+      if (separator && separator.index !== undefined) {
+        title = unquote(header.slice(0, separator.index));
+        summary.unshift(header.slice(separator.index + separator[0].length).trim());
+      } else if (/[.!?]$/.test(header)) {
+        summary.unshift(header);
+      } else {
+        title = unquote(header);
+      }
+    }
+
+    return {
+      title: title || '',
+      summary: summary.filter(Boolean).join(' '),
+      ...(pov ? { pov } : {}),
+      beats
+    };
+  });
+}
+
+const sameOutline = (a: ChapterOutline | undefined, b: ChapterOutline) => JSON.stringify(a) === JSON.stringify(b);
+
+// Give each chapter its outline from the plan; outlines edited by hand are kept. When the plan has
+// more chapters than the story, the surplus is folded into the last chapter as resizeChapters does.
+export function applyChapterOutlines(chapters: Chapter[], outlines: ChapterOutline[]): Chapter[] {
+  let changed = false;
+  const next = chapters.map((chapter, index) => {
+    const outline = index === chapters.length - 1 && outlines.length > chapters.length
+      ? mergeChapterOutlines(outlines.slice(chapter.id - 1))
+      : outlines[chapter.id - 1];
+    if (!outline || chapter.outline?.edited || sameOutline(chapter.outline, outline)) return chapter;
+    changed = true;
+    return { ...chapter, outline };
+  });
+  return changed ? next : chapters;
+}
+
+// One outline covering several chapters, for when the chapters are folded into one.
+// It counts as edited if any of them was, so a re-run plan never replaces hand-written beats;
+// outlines merged from the plan alone are not edited and still follow re-runs.
+export function mergeChapterOutlines(outlines: ChapterOutline[]): ChapterOutline {
+  const povs = Array.from(new Set(outlines.map(outline => outline.pov).filter(Boolean)));
+  return {
+    title: outlines.find(outline => outline.title)?.title || '',
+    summary: outlines.map(outline => outline.summary).filter(Boolean).join(' '),
+    ...(povs.length > 0 ? { pov: povs.join(', ') } : {}),
+    beats: outlines.flatMap(outline => outline.beats),
+    ...(outlines.some(outline => outline.edited) ? { edited: true } : {})
+  };
+}
+
+/**
+ * Change the number of chapters, keeping everything written and planned so far. New chapters are
+ * added empty; when chapters are removed, their outlines are folded into the new last chapter so
+ * the events they planned still happen.
+ */
+export function resizeChapters(chapters: Chapter[], count: number): Chapter[] {
+  if (count >= chapters.length) {
+    return [...chapters, ...createInitialChapters(count).slice(chapters.length)];
+  }
+  const kept = chapters.slice(0, count);
+  const removed = chapters.slice(count).map(chapter => chapter.outline).filter((outline): outline is ChapterOutline => !!outline);
+  const last = kept[kept.length - 1];
+  if (!last || removed.length === 0) return kept;
+  const merged = mergeChapterOutlines([...(last.outline ? [last.outline] : []), ...removed]);
+  return [...kept.slice(0, -1), { ...last, outline: merged }];
+}
+
+// An outline as it is given to the model in the chapter prompt
+export function formatChapterOutline(outline: ChapterOutline): string {
+  const lines: string[] = [];
+  if (outline.title.trim()) lines.push(`Title: ${outline.title.trim()}`);
+  if (outline.pov?.trim()) lines.push(`POV: ${outline.pov.trim()}`);
+  if (outline.summary.trim()) lines.push(`Summary: ${outline.summary.trim()}`);
+  const beats = outline.beats.map(beat => beat.trim()).filter(Boolean);
+  if (beats.length > 0) lines.push('Key beats:', ...beats.map(beat => `- ${beat}`));
+  return lines.join('\n');
+}
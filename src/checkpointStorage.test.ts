@@ -0,0 +1,82 @@
+import { clearCheckpoint, keepPartialGeneration, loadCheckpoint, saveCheckpoint } from './checkpointStorage';
+import { loadProject, saveProject } from './projectStorage';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+import { StoryProject } from './types';
+
+jest.mock('./database');
+
+// Planning done and chapter 1 written when the tab closed
+const project: StoryProject = {
+  id: 'story',
+  name: 'Story',
+  createdAt: 1,
+  updatedAt: 1,
+  storyPrompt: 'A story.',
+  storyType: 'novel',
+  chapterCount: 2,
+  currentStep: 6,
+  steps: createPipelineSteps(CLASSIC_PIPELINE).map(step => ({ ...step, content: step.id < 6 ? `Step ${step.id}` : '', completed: step.id < 6 })),
+  chapters: createInitialChapters(2).map(chapter => (
+    chapter.id === 1 ? { ...chapter, content: 'Chapter one.', wordCount: 2, completed: true } : chapter
+  )),
+  messages: [{ role: 'assistant', content: 'Step 5' }, { role: 'assistant', content: 'Chapter one.' }],
+  config: { model: 'model', baseUrl: 'https://api.example.com/v1', stream: true }
+};
+
+test('a checkpoint saved mid-stream loads back with the partial output, until it is cleared', async () => {
+  expect(await loadCheckpoint()).toBeNull();
+
+  await saveCheckpoint('story', 6, { kind: 'chapter', targetId: 2, partialContent: 'Chapter two began', updatedAt: 5 });
+  expect(await loadCheckpoint()).toMatchObject({
+    projectId: 'story',
+    currentStep: 6,
+    inFlight: { kind: 'chapter', targetId: 2, partialContent: 'Chapter two began' }
+  });
+
+  // Later checkpoints replace the earlier one
+  await saveCheckpoint('story', 6);
+  expect((await loadCheckpoint())?.inFlight).toBeUndefined();
+
+  await clearCheckpoint();
+  expect(await loadCheckpoint()).toBeNull();
+});
+
+test('resuming keeps the partial chapter as the chapter text', async () => {
+  await saveProject(project);
+  await saveCheckpoint('story', 6, {
+    kind: 'chapter',
+    targetId: 2,
+    partialContent: 'Chapter two began  here',
+    model: 'chapter-model',
+    temperature: 0.8,
+    updatedAt: 5
+  });
+  const checkpoint = await loadCheckpoint();
+  const saved = await loadProject(checkpoint!.projectId);
+
+  const resumed = keepPartialGeneration(saved!, checkpoint!.inFlight!);
+  expect(resumed.chapters[1]).toMatchObject({ content: 'Chapter two began  here', wordCount: 4, completed: true, model: 'chapter-model' });
+  expect(resumed.chapters[1].revisions).toEqual([
+    expect.objectContaining({ content: 'Chapter two began  here', model: 'chapter-model', temperature: 0.8 })
+  ]);
+  expect(resumed.chapters[0]).toEqual(saved!.chapters[0]);
+  expect(resumed.messages[resumed.messages.length - 1]).toEqual({ role: 'assistant', content: 'Chapter two began  here', chapterId: 2 });
+});
+
+test('resuming keeps a partial planning step as the step output, after its earlier revisions', () => {
+  const earlier = { id: 'earlier', content: 'A first draft', model: 'model', createdAt: 2 };
+  const resumed = keepPartialGeneration(
+    {
+      ...project,
+      currentStep: 3,
+      steps: project.steps.map(step => (step.id >= 3 ? { ...step, content: '', completed: false, revisions: step.id === 3 ? [earlier] : [] } : step))
+    },
+    { kind: 'step', targetId: 3, partialContent: 'Half a draft', updatedAt: 5 }
+  );
+  // Checkpoints from before the model was recorded fall back to the project's model
+  expect(resumed.steps[2]).toMatchObject({ content: 'Half a draft', completed: true, model: 'model' });
+  expect(resumed.steps[2].revisions?.map(revision => revision.content)).toEqual(['A first draft', 'Half a draft']);
+  expect(resumed.steps[3]).toMatchObject({ content: '', completed: false });
+  expect(resumed.chapters).toBe(project.chapters);
+});
@@ -0,0 +1,98 @@
+/**
+ * Session Checkpoint Storage
+ * Records the active project and any in-flight stream so a closed tab can resume
+ */
+
+import { SessionCheckpoint, InFlightGeneration, StoryProject, Message } from './types';
+import { SESSION_STORE, withStore, isIndexedDBAvailable } from './database';
+import { appendRevision, createRevision } from './revisionUtils';
+
+const CHECKPOINT_ID = 'current';
+
+// Minimum delay between checkpoints written while a response is streaming
+export const STREAM_CHECKPOINT_INTERVAL_MS = 3000;
+
+interface StoredCheckpoint extends SessionCheckpoint {
+  id: string;
+}
+
+// Save the current session checkpoint
+export async function saveCheckpoint(
+  projectId: string,
+  currentStep: number,
+  inFlight?: InFlightGeneration
+): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const checkpoint: StoredCheckpoint = {
+    id: CHECKPOINT_ID,
+    projectId,
+    currentStep,
+    inFlight,
+    savedAt: Date.now()
+  };
+
+  try {
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(checkpoint));
+  } catch (error) {
+    console.warn('Failed to save session checkpoint:', error);
+  }
+}
+
+// Load the last session checkpoint, if any
+export async function loadCheckpoint(): Promise<SessionCheckpoint | null> {
+  if (!isIndexedDBAvailable()) return null;
+
+  try {
+    const stored = await withStore<StoredCheckpoint | undefined>(SESSION_STORE, 'readonly', store => store.get(CHECKPOINT_ID));
+    if (!stored) return null;
+
+    const { id, ...checkpoint } = stored;
+    return checkpoint;
+  } catch (error) {
+    console.warn('Failed to load session checkpoint:', error);
+    return null;
+  }
+}
+
+// Remove the session checkpoint (e.g. when the story is reset)
+export async function clearCheckpoint(): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await withStore(SESSION_STORE, 'readwrite', store => store.delete(CHECKPOINT_ID));
+  } catch (error) {
+    console.warn('Failed to clear session checkpoint:', error);
+  }
+}
+
+// Keep an interrupted response as the output of the step or chapter it was writing, recorded as a revision
+export function keepPartialGeneration(project: StoryProject, inFlight: InFlightGeneration): StoryProject {
+  const partialContent = inFlight.partialContent;
+  const model = inFlight.model || project.config.model;
+  const revision = createRevision(partialContent, model, inFlight.temperature);
+  const link = inFlight.kind === 'step' ? { stepId: inFlight.targetId } : { chapterId: inFlight.targetId };
+  const messages: Message[] = [...project.messages, { role: 'assistant', content: partialContent, ...link }];
+  if (inFlight.kind === 'step') {
+    return {
+      ...project,
+      steps: project.steps.map(step =>
+        step.id === inFlight.targetId
+          ? { ...step, content: partialContent, completed: true, model, revisions: appendRevision(step.revisions, revision) }
+          : step
+      ),
+      messages
+    };
+  }
+
+  const wordCount = partialContent.split(/\s+/).filter(word => word.length > 0).length;
+  return {
+    ...project,
+    chapters: project.chapters.map(chapter =>
+      chapter.id === inFlight.targetId
+        ? { ...chapter, content: partialContent, wordCount, completed: true, model, revisions: appendRevision(chapter.revisions, revision) }
+        : chapter
+    ),
+    messages
+  };
+}
@@ -0,0 +1,63 @@
+import JSZip from 'jszip';
+import { buildProjectFromCliOutput, readCliFiles, ImportedFile } from './cliImport';
+import { BUILT_IN_PIPELINES, CLASSIC_PIPELINE } from './pipelines';
+import { ProjectConfig } from './types';
+
+const config: ProjectConfig = { model: 'model', baseUrl: 'https://api.example.com/v1', stream: true };
+
+const cliFolder: ImportedFile[] = [
+  { path: 'salt-road/prompt.md', content: 'The Salt Road\nA caravan crosses the flats.' },
+  { path: 'salt-road/01_Brainstorm_and_Reflection.md', content: 'Ideas.\n\nCHAPTER_COUNT: 4\n' },
+  { path: 'salt-road/02_intention_and_chapter_planning.md', content: '# Chapter Planning\nChapter 1: Departure.' },
+  { path: 'salt-road/chapters/chapter_02.md', content: 'The second day.' },
+  { path: 'salt-road/chapters/01.md', content: 'They set out at dawn.' }
+];
+
+test('step files are matched to the classic pipeline by their CLI file names', () => {
+  const project = buildProjectFromCliOutput(cliFolder, config);
+
+  expect(project.steps.map(step => step.completed)).toEqual([true, true, false, false, false, false]);
+  expect(project.steps[0].content).toBe('Ideas.\n\nCHAPTER_COUNT: 4');
+  expect(project.name).toBe('The Salt Road');
+  expect(project.storyPrompt).toBe('The Salt Road\nA caravan crosses the flats.');
+
+  // The brainstorm's CHAPTER_COUNT wins over the highest chapter file, and chapter files may be named by number alone
+  expect(project.chapterCount).toBe(4);
+  expect(project.chapters.map(chapter => chapter.content)).toEqual(['They set out at dawn.', 'The second day.', '', '']);
+  expect(project.chapters[0]).toMatchObject({ wordCount: 5, completed: true });
+  expect(project.currentStep).toBe(6);
+});
+
+test('the conversation replays each saved response after the prompt that produced it', () => {
+  const { messages } = buildProjectFromCliOutput(cliFolder, config);
+  expect(messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant', 'user', 'assistant', 'user', 'assistant']);
+  expect(messages[1].content).toContain('A caravan crosses the flats.');
+  expect(messages[4].content).toBe('# Chapter Planning\nChapter 1: Departure.');
+  expect(messages[5].content).toContain('Chapter 1');
+  expect(messages[8].content).toBe('The second day.');
+});
+
+test('an unfinished plan resumes at its first missing step, on the classic pipeline', () => {
+  const worldBuilding = BUILT_IN_PIPELINES.find(pipeline => pipeline.id === 'world-building')!;
+  const project = buildProjectFromCliOutput(cliFolder.slice(0, 2), { ...config, pipeline: worldBuilding });
+  expect(project.currentStep).toBe(2);
+  expect(project.chapterCount).toBe(4);
+  expect(project.config.pipeline).toBe(CLASSIC_PIPELINE);
+
+  expect(buildProjectFromCliOutput([{ path: 'notes/04_final_plan.md', content: 'Plan.' }], config).name).toBe('notes');
+  expect(() => buildProjectFromCliOutput([{ path: 'notes.md', content: 'Hi' }], config)).toThrow('No CLI output found');
+});
+
+test('dropped files and zips are read with their folder paths', async () => {
+  const zip = new JSZip();
+  zip.file('out/04_final_plan.md', 'Final.');
+  zip.file('out/cover.png', 'binary');
+  const archive = new File([await zip.generateAsync({ type: 'blob' })], 'out.zip', { type: 'application/zip' });
+  const chapter = new File(['Chapter text.'], 'chapter_03.md');
+  Object.defineProperty(chapter, 'webkitRelativePath', { value: 'out/chapters/chapter_03.md' });
+
+  expect(await readCliFiles([archive, chapter, new File(['x'], 'image.jpg')])).toEqual([
+    { path: 'out/04_final_plan.md', content: 'Final.' },
+    { path: 'out/chapters/chapter_03.md', content: 'Chapter text.' }
+  ]);
+});
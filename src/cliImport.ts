@@ -0,0 +1,154 @@
+/**
+ * CLI Output Import
+ * Reconstructs a project from the folder (or zip) of Markdown files written by the Python CLI
+ */
+
+import JSZip from 'jszip';
+import { StoryProject, ProjectConfig, WorkflowStep, Chapter, Message } from './types';
+import { CHAPTER_WORD_TARGET, countWords, parseProposedChapters } from './workflowUtils';
+import { DEFAULT_PROMPT_TEMPLATES, PromptVariables, fillPromptTemplate } from './promptTemplates';
+import { CLASSIC_PIPELINE, createPipelineSteps, getChapterStepId, resolvePipeline, switchPipeline } from './pipelines';
+import { createProjectId, deriveProjectName } from './projectStorage';
+
+export interface ImportedFile {
+  path: string;
+  content: string;
+}
+
+const TEXT_FILE_PATTERN = /\.(md|markdown|txt)$/i;
+const PROMPT_FILE_PATTERN = /^(prompt|story_prompt|writing_prompt|input)\.(md|txt)$/i;
+const CHAPTER_FILE_PATTERN = /chapter[\s_-]*0*(\d+)/i;
+
+function basename(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+function isZip(file: File): boolean {
+  return /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+}
+
+// Read dropped or selected files, expanding any zip archives
+export async function readCliFiles(files: File[]): Promise<ImportedFile[]> {
+  const imported: ImportedFile[] = [];
+
+  for (const file of files) {
+    if (isZip(file)) {
+      const zip = await JSZip.loadAsync(file);
+      const entries = Object.values(zip.files).filter(entry => !entry.dir && TEXT_FILE_PATTERN.test(entry.name));
+      for (const entry of entries) {
+        imported.push({ path: entry.name, content: await entry.async('string') });
+      }
+    } else if (TEXT_FILE_PATTERN.test(file.name)) {
+      const path = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+      imported.push({ path, content: await file.text() });
+    }
+  }
+
+  return imported;
+}
+
+function findChapterNumber(file: ImportedFile): number | null {
+  const name = basename(file.path);
+  const match = name.match(CHAPTER_FILE_PATTERN);
+  if (match) return parseInt(match[1], 10);
+
+  // Files inside a chapters/ folder may be named just by number, e.g. chapters/03.md
+  if (/(^|\/)chapters\//i.test(file.path)) {
+    const numberMatch = name.match(/0*(\d+)/);
+    if (numberMatch) return parseInt(numberMatch[1], 10);
+  }
+  return null;
+}
+
+// Guess the folder name shared by the imported files
+function findRootFolder(files: ImportedFile[]): string | undefined {
+  const first = files[0]?.path.split('/');
+  return first && first.length > 1 ? first[0] : undefined;
+}
+
+// Build a project from CLI output files, including a plausible conversation history
+export function buildProjectFromCliOutput(files: ImportedFile[], config: ProjectConfig): StoryProject {
+  // The CLI always runs the classic pipeline
+  const stepFilenames = CLASSIC_PIPELINE.steps.map(step => step.filename);
+  const stepContents: Record<number, string> = {};
+  stepFilenames.forEach((filename, index) => {
+    const file = files.find(f => basename(f.path).toLowerCase() === filename);
+    if (file) {
+      stepContents[index + 1] = file.content.trim();
+    }
+  });
+
+  const chapterFiles = files
+    .map(file => ({ file, number: findChapterNumber(file) }))
+    .filter((entry): entry is { file: ImportedFile; number: number } =>
+      entry.number !== null && !stepFilenames.includes(basename(entry.file.path).toLowerCase()))
+    .sort((a, b) => a.number - b.number);
+
+  if (Object.keys(stepContents).length === 0 && chapterFiles.length === 0) {
+    throw new Error('No CLI output found. Expected files like 01_brainstorm_and_reflection.md or chapters/chapter_01.md');
+  }
+
+  const promptFile = files.find(f => PROMPT_FILE_PATTERN.test(basename(f.path)));
+  const storyPrompt = promptFile?.content.trim() || '';
+
+  const proposedCount = stepContents[1] ? parseProposedChapters(stepContents[1]) : null;
+  const highestChapter = chapterFiles.length > 0 ? chapterFiles[chapterFiles.length - 1].number : 0;
+  const chapterCount = Math.max(proposedCount || 0, highestChapter, 1);
+
+  const steps: WorkflowStep[] = createPipelineSteps(CLASSIC_PIPELINE).map(step => ({
+    ...step,
+    content: stepContents[step.id] || '',
+    completed: !!stepContents[step.id]
+  }));
+
+  const chapters: Chapter[] = Array.from({ length: chapterCount }, (_, i) => {
+    const content = chapterFiles.find(entry => entry.number === i + 1)?.file.content.trim() || '';
+    return {
+      id: i + 1,
+      content,
+      wordCount: countWords(content),
+      completed: content.length > 0,
+      feedback: '',
+      isProcessing: false
+    };
+  });
+
+  // Replay the prompts the CLI would have sent alongside each saved response
+  const messages: Message[] = [{ role: 'system', content: 'You are a helpful assistant' }];
+  // The CLI only writes short stories with its default chapter length
+  const variables: PromptVariables = { storyPrompt, storyType: 'short story', chapterCount, wordTarget: CHAPTER_WORD_TARGET };
+  for (let id = 1; id <= CLASSIC_PIPELINE.steps.length; id++) {
+    if (!stepContents[id]) break;
+    messages.push({ role: 'user', content: fillPromptTemplate(CLASSIC_PIPELINE.steps[id - 1].template, variables) });
+    messages.push({ role: 'assistant', content: stepContents[id], stepId: id });
+  }
+  for (const chapter of chapters) {
+    if (!chapter.completed) break;
+    messages.push({ role: 'user', content: fillPromptTemplate(DEFAULT_PROMPT_TEMPLATES.chapter, { ...variables, chapterIndex: chapter.id }) });
+    messages.push({ role: 'assistant', content: chapter.content, chapterId: chapter.id });
+  }
+
+  // Resume at the first unfinished planning step, or chapter writing once planning is done
+  const chapterStepId = getChapterStepId(CLASSIC_PIPELINE);
+  const firstIncompleteStep = steps.find(step => step.id < chapterStepId && !step.completed);
+  const currentStep = chapterFiles.length > 0 || !firstIncompleteStep ? chapterStepId : firstIncompleteStep.id;
+
+  const now = Date.now();
+  const rootFolder = findRootFolder(files);
+  return {
+    id: createProjectId(),
+    name: storyPrompt ? deriveProjectName(storyPrompt) : (rootFolder || 'Imported CLI Project'),
+    createdAt: now,
+    updatedAt: now,
+    storyPrompt,
+    storyType: chapterCount > 10 ? 'novel' : 'short-story',
+    chapterCount,
+    currentStep,
+    steps,
+    chapters,
+    messages,
+    config: resolvePipeline(config.pipeline).id === CLASSIC_PIPELINE.id
+      ? config
+      : { ...config, ...switchPipeline(config, CLASSIC_PIPELINE) }
+  };
+}
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Checkbox,
+  Switch,
+  Box,
+  Typography,
+  Alert
+} from '@mui/material';
+import { AutopilotSettings, WorkflowPipeline } from '../types';
+import { DEFAULT_AUTOPILOT_SETTINGS } from '../autopilot';
+
+interface AutopilotDialogProps {
+  open: boolean;
+  pipeline: WorkflowPipeline;
+  settings?: AutopilotSettings;
+  currentStep: number; // 0 before the story has started
+  suggestedChapterCount: number;
+  onClose: () => void;
+  onStart: (settings: AutopilotSettings) => void;
+}
+
+// Choose how autopilot runs the story and where it stops for approval
+const AutopilotDialog: React.FC<AutopilotDialogProps> = ({
+  open,
+  pipeline,
+  settings,
+  currentStep,
+  suggestedChapterCount,
+  onClose,
+  onStart
+}) => {
+  const [draft, setDraft] = useState<AutopilotSettings>(DEFAULT_AUTOPILOT_SETTINGS);
+  const [fixedCount, setFixedCount] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      const initial = { ...DEFAULT_AUTOPILOT_SETTINGS, ...settings };
+      setDraft({
+        ...initial,
+        pauseAfterSteps: initial.pauseAfterSteps.filter(stepId => stepId <= pipeline.steps.length)
+      });
+      setFixedCount(String(initial.chapterCount || suggestedChapterCount));
+    }
+  }, [open, settings, pipeline, suggestedChapterCount]);
+
+  const fixed = draft.chapterCount !== undefined;
+  const fixedCountValue = parseInt(fixedCount, 10);
+  const fixedCountValid = !fixed || (fixedCountValue >= 1 && fixedCountValue <= 50);
+  const hasOptionalSteps = pipeline.steps.some(step => step.optional);
+
+  const togglePauseAfterStep = (stepId: number, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      pauseAfterSteps: checked
+        ? [...prev.pauseAfterSteps, stepId].sort((a, b) => a - b)
+        : prev.pauseAfterSteps.filter(id => id !== stepId)
+    }));
+  };
+
+  const handleStart = () => {
+    onStart({ ...draft, chapterCount: fixed ? fixedCountValue : undefined });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Autopilot
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          {currentStep === 0
+            ? 'Start the story and run every planning step, then write every chapter in order'
+            : 'Carry on from the current step, then write every chapter that has not been written yet'}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+          <FormControl>
+            <FormLabel>Chapter count</FormLabel>
+            <RadioGroup
+              value={fixed ? 'fixed' : 'suggested'}
+              onChange={(e) => setDraft(prev => ({
+                ...prev,
+                chapterCount: e.target.value === 'fixed' ? parseInt(fixedCount, 10) || suggestedChapterCount : undefined
+              }))}
+            >
+              <FormControlLabel value="suggested" control={<Radio />} label="Use the model's CHAPTER_COUNT suggestion" />
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                <FormControlLabel value="fixed" control={<Radio />} label="Always write" />
+                <TextField
+                  type="number"
+                  size="small"
+                  value={fixedCount}
+                  onChange={(e) => {
+                    setFixedCount(e.target.value);
+                    setDraft(prev => ({ ...prev, chapterCount: parseInt(e.target.value, 10) || 0 }));
+                  }}
+                  disabled={!fixed}
+                  error={!fixedCountValid}
+                  inputProps={{ min: 1, max: 50 }}
+                  sx={{ width: 90 }}
+                />
+                <Typography variant="body2">chapters</Typography>
+              </Box>
+            </RadioGroup>
+          </FormControl>
+
+          {hasOptionalSteps && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={draft.runOptionalSteps}
+                  onChange={(e) => setDraft(prev => ({ ...prev, runOptionalSteps: e.target.checked }))}
+                />
+              }
+              label="Run optional steps instead of skipping them"
+            />
+          )}
+
+          <FormControl component="fieldset">
+            <FormLabel component="legend">Wait for approval</FormLabel>
+            <Typography variant="caption" color="text.secondary">
+              Autopilot pauses at each checkpoint so you can read, give feedback or re-run before it carries on.
+            </Typography>
+            <FormGroup>
+              {pipeline.steps.map((step, index) => (
+                <FormControlLabel
+                  key={index}
+                  control={
+                    <Checkbox
+                      checked={draft.pauseAfterSteps.includes(index + 1)}
+                      onChange={(e) => togglePauseAfterStep(index + 1, e.target.checked)}
+                    />
+                  }
+                  label={`After ${index + 1}. ${step.name}`}
+                />
+              ))}
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={draft.pauseBeforeChapters}
+                    onChange={(e) => setDraft(prev => ({ ...prev, pauseBeforeChapters: e.target.checked }))}
+                  />
+                }
+                label="Before writing the chapters"
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={draft.pauseAfterEachChapter}
+                    onChange={(e) => setDraft(prev => ({ ...prev, pauseAfterEachChapter: e.target.checked }))}
+                  />
+                }
+                label="After each chapter"
+              />
+            </FormGroup>
+          </FormControl>
+
+          {!fixedCountValid && (
+            <Alert severity="warning">The chapter count must be between 1 and 50.</Alert>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleStart} disabled={!fixedCountValid}>
+          Start Autopilot
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AutopilotDialog;
@@ -0,0 +1,138 @@
+import React from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  Button,
+  Alert,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import {
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  Stop as StopIcon,
+  Check as CheckIcon
+} from '@mui/icons-material';
+import { Chapter } from '../types';
+import { AutopilotRun, summarizeAutopilotRun } from '../autopilot';
+
+interface AutopilotPanelProps {
+  run: AutopilotRun;
+  chapters: Chapter[];
+  isProcessing: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onApprove: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_TITLES: Record<AutopilotRun['status'], string> = {
+  running: 'Autopilot is running',
+  paused: 'Autopilot is paused',
+  waiting: 'Autopilot is waiting for your approval',
+  finished: 'Autopilot finished',
+  stopped: 'Autopilot was stopped',
+  failed: 'Autopilot stopped after an error'
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Controls for a running autopilot, and what it did once it ends
+const AutopilotPanel: React.FC<AutopilotPanelProps> = ({
+  run,
+  chapters,
+  isProcessing,
+  onPause,
+  onResume,
+  onStop,
+  onApprove,
+  onDismiss
+}) => {
+  const ended = run.finishedAt !== undefined;
+  const lastEvent = run.events[run.events.length - 1];
+
+  if (!ended) {
+    return (
+      <Paper sx={{ p: 2, mb: 3 }} variant="outlined">
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="subtitle1">{STATUS_TITLES[run.status]}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {run.status === 'waiting' && run.checkpoint
+                ? `${run.checkpoint.label}. You can edit, give feedback or re-run it first.`
+                : run.status === 'paused' && isProcessing
+                  ? 'Finishing the current request, then waiting to resume'
+                  : lastEvent?.message}
+            </Typography>
+          </Box>
+          {run.status === 'running' && (
+            <Button startIcon={<PauseIcon />} onClick={onPause}>Pause</Button>
+          )}
+          {run.status === 'paused' && (
+            <Button variant="contained" startIcon={<PlayArrowIcon />} onClick={onResume}>Resume</Button>
+          )}
+          {run.status === 'waiting' && (
+            <Button variant="contained" startIcon={<CheckIcon />} onClick={onApprove} disabled={isProcessing}>
+              Approve & Continue
+            </Button>
+          )}
+          <Button color="error" startIcon={<StopIcon />} onClick={onStop}>Stop</Button>
+        </Box>
+        {run.status === 'running' && <LinearProgress sx={{ mt: 2 }} />}
+      </Paper>
+    );
+  }
+
+  const summary = summarizeAutopilotRun(run, chapters);
+  return (
+    <Paper sx={{ p: 2, mb: 3 }} variant="outlined">
+      <Alert severity={summary.status === 'finished' ? 'success' : summary.status === 'failed' ? 'error' : 'info'} sx={{ mb: 2 }}>
+        {STATUS_TITLES[summary.status]} after {formatDuration(summary.durationMs)}
+        {summary.error ? `: ${summary.error}` : ''}
+      </Alert>
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: 2, mb: 2 }}>
+        <Box>
+          <Typography variant="caption" color="text.secondary">Planning steps</Typography>
+          <Typography variant="body1">
+            {summary.stepsRun} run{summary.stepsSkipped > 0 ? `, ${summary.stepsSkipped} skipped` : ''}
+          </Typography>
+        </Box>
+        <Box>
+          <Typography variant="caption" color="text.secondary">Chapters written</Typography>
+          <Typography variant="body1">{summary.chaptersWritten} of {summary.chapterCount}</Typography>
+        </Box>
+        <Box>
+          <Typography variant="caption" color="text.secondary">Words written</Typography>
+          <Typography variant="body1">{summary.wordsWritten.toLocaleString()}</Typography>
+        </Box>
+        <Box>
+          <Typography variant="caption" color="text.secondary">Checkpoints approved</Typography>
+          <Typography variant="body1">{summary.checkpointsApproved}</Typography>
+        </Box>
+      </Box>
+      <Typography variant="subtitle2">What happened</Typography>
+      <List dense disablePadding sx={{ maxHeight: 240, overflow: 'auto' }}>
+        {run.events.map((event, index) => (
+          <ListItem key={index} disableGutters>
+            <ListItemText
+              primary={event.message}
+              secondary={new Date(event.at).toLocaleTimeString()}
+            />
+          </ListItem>
+        ))}
+      </List>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <Button onClick={onDismiss}>Dismiss</Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default AutopilotPanel;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  Dialog,
+  AppBar,
+  Toolbar,
+  IconButton,
+  Typography,
+  TextField,
+  Button,
+  Box
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Print as PrintIcon,
+  Download as DownloadIcon
+} from '@mui/icons-material';
+import { Chapter } from '../types';
+import { renderBookHtml, BookOptions } from '../bookRenderer';
+import { downloadBlob, toFileStem } from '../manuscriptUtils';
+
+interface BookPreviewProps {
+  open: boolean;
+  chapters: Chapter[];
+  defaultTitle: string;
+  onClose: () => void;
+}
+
+const BookPreview: React.FC<BookPreviewProps> = ({
+  open,
+  chapters,
+  defaultTitle,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<BookOptions>({ title: defaultTitle, author: '' });
+  // Re-paginating a whole novel is slow, so only apply edits on blur
+  const [options, setOptions] = useState<BookOptions>({ title: defaultTitle, author: '' });
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(prev => ({ ...prev, title: defaultTitle }));
+      setOptions(prev => ({ ...prev, title: defaultTitle }));
+    }
+  }, [open, defaultTitle]);
+
+  const html = useMemo(
+    () => (open ? renderBookHtml(chapters, options) : ''),
+    [open, chapters, options]
+  );
+
+  const applyDraft = () => setOptions(draft);
+
+  const handlePrint = () => {
+    const frameWindow = frameRef.current?.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.focus();
+    frameWindow.print();
+  };
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${toFileStem(options.title)}.html`);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullScreen>
+      <AppBar position="static" color="default" elevation={1}>
+        <Toolbar sx={{ gap: 2 }}>
+          <IconButton edge="start" onClick={onClose} aria-label="Close preview">
+            <CloseIcon />
+          </IconButton>
+          <Typography variant="h6" sx={{ flexShrink: 0 }}>
+            Book Preview
+          </Typography>
+          <TextField
+            size="small"
+            label="Title"
+            value={draft.title}
+            onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+            onBlur={applyDraft}
+          />
+          <TextField
+            size="small"
+            label="Author"
+            value={draft.author}
+            onChange={(e) => setDraft(prev => ({ ...prev, author: e.target.value }))}
+            onBlur={applyDraft}
+          />
+          <Box sx={{ flexGrow: 1 }} />
+          <Button startIcon={<DownloadIcon />} onClick={handleDownload}>
+            Download HTML
+          </Button>
+          <Button variant="contained" startIcon={<PrintIcon />} onClick={handlePrint}>
+            Print / Save as PDF
+          </Button>
+        </Toolbar>
+      </AppBar>
+      <Box sx={{ flexGrow: 1, display: 'flex' }}>
+        <iframe
+          ref={frameRef}
+          title="Book preview"
+          srcDoc={html}
+          style={{ border: 'none', width: '100%', flexGrow: 1 }}
+        />
+      </Box>
+    </Dialog>
+  );
+};
+
+export default BookPreview;
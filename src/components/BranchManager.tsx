@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField
+} from '@mui/material';
+import {
+  CallSplit as CallSplitIcon,
+  CompareArrows as CompareArrowsIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { StoryBranch, BranchForkPoint } from '../types';
+import { MAIN_BRANCH_ID, describeForkPoint } from '../branchUtils';
+
+interface BranchManagerProps {
+  branches: StoryBranch[];
+  activeBranchId: string;
+  disabled?: boolean;
+  onSwitch: (branchId: string) => void;
+  onFork: (name: string, kind: BranchForkPoint['kind'], targetId: number) => void;
+  onDelete: (branchId: string) => void;
+}
+
+// Encode a fork target as a single select value, e.g. "step:4" or "chapter:2"
+const encodeTarget = (kind: BranchForkPoint['kind'], targetId: number) => `${kind}:${targetId}`;
+const decodeTarget = (value: string): { kind: BranchForkPoint['kind']; targetId: number } => {
+  const [kind, id] = value.split(':');
+  return { kind: kind === 'chapter' ? 'chapter' : 'step', targetId: parseInt(id, 10) };
+};
+
+const getTargetContent = (branch: StoryBranch | undefined, value: string): string => {
+  if (!branch) return '';
+  const { kind, targetId } = decodeTarget(value);
+  const item = kind === 'step'
+    ? branch.steps.find(step => step.id === targetId)
+    : branch.chapters.find(chapter => chapter.id === targetId);
+  return item?.content || '';
+};
+
+const BranchManager: React.FC<BranchManagerProps> = ({
+  branches,
+  activeBranchId,
+  disabled = false,
+  onSwitch,
+  onFork,
+  onDelete
+}) => {
+  const activeBranch = branches.find(branch => branch.id === activeBranchId);
+  const [showFork, setShowFork] = useState(false);
+  const [forkName, setForkName] = useState('');
+  const [forkTarget, setForkTarget] = useState('');
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareLeft, setCompareLeft] = useState('');
+  const [compareRight, setCompareRight] = useState('');
+  const [compareTarget, setCompareTarget] = useState('');
+
+  const branchSteps = activeBranch?.steps || [];
+  // The last step writes the chapters, which are offered individually below
+  const planningSteps = branchSteps.filter(step => step.id < branchSteps.length);
+  const targetOptions = [
+    ...planningSteps.map(step => ({ value: encodeTarget('step', step.id), label: `Step ${step.id}: ${step.name}` })),
+    ...(activeBranch?.chapters || []).map(chapter => ({ value: encodeTarget('chapter', chapter.id), label: `Chapter ${chapter.id}` }))
+  ];
+
+  const openForkDialog = () => {
+    const lastCompleted = [...planningSteps].reverse().find(step => step.completed);
+    setForkName('');
+    setForkTarget(encodeTarget('step', lastCompleted?.id || 1));
+    setShowFork(true);
+  };
+
+  const handleFork = () => {
+    if (!forkTarget) return;
+    const { kind, targetId } = decodeTarget(forkTarget);
+    onFork(forkName, kind, targetId);
+    setShowFork(false);
+  };
+
+  const openCompareDialog = () => {
+    const other = branches.find(branch => branch.id !== activeBranchId);
+    setCompareLeft(activeBranchId);
+    setCompareRight(other?.id || activeBranchId);
+    setCompareTarget(activeBranch?.forkedFrom
+      ? encodeTarget(activeBranch.forkedFrom.kind, activeBranch.forkedFrom.targetId)
+      : encodeTarget('step', [...planningSteps].reverse().find(step => step.completed && !step.skipped)?.id || 1));
+    setShowCompare(true);
+  };
+
+  const renderBranchSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <FormControl size="small" sx={{ minWidth: 200 }}>
+      <InputLabel>{label}</InputLabel>
+      <Select value={value} label={label} onChange={(e) => onChange(e.target.value)}>
+        {branches.map(branch => (
+          <MenuItem key={branch.id} value={branch.id}>{branch.name}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const renderCompareColumn = (branchId: string) => {
+    const branch = branches.find(b => b.id === branchId);
+    const content = getTargetContent(branch, compareTarget);
+    return (
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Typography variant="subtitle2" gutterBottom>
+          {branch?.name || 'Unknown branch'}
+        </Typography>
+        <Box
+          sx={{
+            maxHeight: '60vh',
+            overflow: 'auto',
+            border: '1px solid',
+            borderColor: 'divider',
+            borderRadius: 1,
+            p: 2
+          }}
+        >
+          <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.6 }}>
+            {content || 'Not generated on this branch yet.'}
+          </Typography>
+        </Box>
+      </Box>
+    );
+  };
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Typography variant="h6" sx={{ minWidth: 120 }}>
+          Branch:
+        </Typography>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <Select
+            value={activeBranchId}
+            onChange={(e) => onSwitch(e.target.value)}
+            disabled={disabled}
+          >
+            {branches.map(branch => (
+              <MenuItem key={branch.id} value={branch.id}>{branch.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<CallSplitIcon />}
+          onClick={openForkDialog}
+          disabled={disabled}
+        >
+          Fork
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<CompareArrowsIcon />}
+          onClick={openCompareDialog}
+          disabled={branches.length < 2}
+        >
+          Compare
+        </Button>
+        {activeBranchId !== MAIN_BRANCH_ID && (
+          <Tooltip title="Delete this branch">
+            <span>
+              <IconButton color="error" onClick={() => onDelete(activeBranchId)} disabled={disabled}>
+                <DeleteIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        )}
+        {activeBranch?.forkedFrom && (
+          <Typography variant="body2" color="text.secondary">
+            {describeForkPoint(activeBranch.forkedFrom, branches)}
+          </Typography>
+        )}
+      </Box>
+
+      <Dialog open={showFork} onClose={() => setShowFork(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          Fork Story
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            The new branch keeps everything before the selected point and regenerates from there
+          </Typography>
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              autoFocus
+              label="Branch Name"
+              value={forkName}
+              onChange={(e) => setForkName(e.target.value)}
+              placeholder="e.g. What if the antagonist wins"
+              fullWidth
+            />
+            <FormControl fullWidth>
+              <InputLabel>Fork At</InputLabel>
+              <Select value={forkTarget} label="Fork At" onChange={(e) => setForkTarget(e.target.value)}>
+                {targetOptions.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowFork(false)}>Cancel</Button>
+          <Button onClick={handleFork} variant="contained" disabled={!forkName.trim() || !forkTarget}>
+            Create Branch
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={showCompare} onClose={() => setShowCompare(false)} maxWidth="xl" fullWidth>
+        <DialogTitle>Compare Branches</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2, pt: 1, flexWrap: 'wrap' }}>
+            {renderBranchSelect('Left', compareLeft, setCompareLeft)}
+            {renderBranchSelect('Right', compareRight, setCompareRight)}
+            <FormControl size="small" sx={{ minWidth: 240 }}>
+              <InputLabel>Output</InputLabel>
+              <Select value={compareTarget} label="Output" onChange={(e) => setCompareTarget(e.target.value)}>
+                {targetOptions.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            {renderCompareColumn(compareLeft)}
+            {renderCompareColumn(compareRight)}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowCompare(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default BranchManager;
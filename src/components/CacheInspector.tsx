@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Chip,
+  Alert,
+  IconButton,
+  Checkbox,
+  Collapse,
+  CircularProgress
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon
+} from '@mui/icons-material';
+import { CacheEntry } from '../types';
+import { apiService } from '../apiService';
+import {
+  listCacheEntries,
+  deleteCacheEntries,
+  clearResponseCache,
+  isExpired,
+  isCacheAvailable
+} from '../responseCache';
+
+interface CacheInspectorProps {
+  open: boolean;
+  ttlHours: number;
+  maxSizeMb: number;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// Browse, search and purge cached API responses
+const CacheInspector: React.FC<CacheInspectorProps> = ({
+  open,
+  ttlHours,
+  maxSizeMb,
+  onClose
+}) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [skipPending, setSkipPending] = useState(false);
+  const ttlMs = ttlHours * 60 * 60 * 1000;
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await listCacheEntries());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the cache');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+      setSelected(new Set());
+      setSkipPending(apiService.isCacheSkipPending());
+    }
+  }, [open, refresh]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return entries;
+    return entries.filter(entry =>
+      entry.model.toLowerCase().includes(query) ||
+      entry.promptPreview.toLowerCase().includes(query) ||
+      entry.content.toLowerCase().includes(query)
+    );
+  }, [entries, search]);
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const expiredKeys = entries.filter(entry => isExpired(entry, ttlMs)).map(entry => entry.key);
+
+  const runAndRefresh = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the cache');
+    }
+    await refresh();
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const allFilteredSelected = filtered.length > 0 && filtered.every(entry => selected.has(entry.key));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Response Cache
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Responses are keyed by model, endpoint, messages and every sampling parameter, kept for {ttlHours} hours and trimmed to {maxSizeMb} MB
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {!isCacheAvailable() && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Caching needs IndexedDB and a secure context (https or localhost), so responses are not being cached.
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+          <Chip label={`${entries.length} entries`} />
+          <Chip variant="outlined" label={`${formatBytes(totalSize)} of ${maxSizeMb} MB`} />
+          {expiredKeys.length > 0 && <Chip variant="outlined" color="warning" label={`${expiredKeys.length} expired`} />}
+          <Box sx={{ flexGrow: 1 }} />
+          <Button
+            size="small"
+            variant={skipPending ? 'contained' : 'outlined'}
+            onClick={() => {
+              apiService.skipCacheForNextRequest(!skipPending);
+              setSkipPending(!skipPending);
+            }}
+          >
+            {skipPending ? 'Next Request Skips Cache' : 'Skip Cache for Next Request'}
+          </Button>
+        </Box>
+
+        <TextField
+          fullWidth
+          size="small"
+          placeholder="Search by model, prompt or response text..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          sx={{ mb: 2 }}
+        />
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : filtered.length === 0 ? (
+          <Typography color="text.secondary">
+            {entries.length === 0 ? 'The cache is empty.' : 'No entries match your search.'}
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={allFilteredSelected}
+                    indeterminate={!allFilteredSelected && filtered.some(entry => selected.has(entry.key))}
+                    onChange={() => setSelected(allFilteredSelected ? new Set() : new Set(filtered.map(entry => entry.key)))}
+                  />
+                </TableCell>
+                <TableCell>Last used</TableCell>
+                <TableCell>Model</TableCell>
+                <TableCell>Prompt</TableCell>
+                <TableCell align="right">Size</TableCell>
+                <TableCell align="right">Hits</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filtered.map(entry => (
+                <React.Fragment key={entry.key}>
+                  <TableRow hover selected={selected.has(entry.key)}>
+                    <TableCell padding="checkbox">
+                      <Checkbox checked={selected.has(entry.key)} onChange={() => toggleSelected(entry.key)} />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {new Date(entry.lastAccessedAt).toLocaleString()}
+                      {isExpired(entry, ttlMs) && <Chip size="small" color="warning" label="Expired" sx={{ ml: 1 }} />}
+                    </TableCell>
+                    <TableCell>{entry.model}</TableCell>
+                    <TableCell sx={{ maxWidth: 360, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {entry.promptPreview}
+                    </TableCell>
+                    <TableCell align="right">{formatBytes(entry.size)}</TableCell>
+                    <TableCell align="right">{entry.hits}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size="small" onClick={() => setExpandedKey(expandedKey === entry.key ? null : entry.key)}>
+                        {expandedKey === entry.key ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                      </IconButton>
+                      <IconButton size="small" onClick={() => runAndRefresh(() => deleteCacheEntries([entry.key]))}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={7} sx={{ py: 0, borderBottom: expandedKey === entry.key ? undefined : 'none' }}>
+                      <Collapse in={expandedKey === entry.key} unmountOnExit>
+                        <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 1 }}>
+                          {entry.baseUrl} · created {new Date(entry.createdAt).toLocaleString()} · key {entry.key.slice(0, 16)}…
+                        </Typography>
+                        <Box sx={{ maxHeight: 240, overflow: 'auto', whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '0.8rem', my: 1 }}>
+                          {entry.content}
+                        </Box>
+                      </Collapse>
+                    </TableCell>
+                  </TableRow>
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button
+          color="error"
+          onClick={() => runAndRefresh(() => deleteCacheEntries(Array.from(selected)))}
+          disabled={selected.size === 0}
+        >
+          Delete Selected ({selected.size})
+        </Button>
+        <Button onClick={() => runAndRefresh(() => deleteCacheEntries(expiredKeys))} disabled={expiredKeys.length === 0}>
+          Purge Expired
+        </Button>
+        <Button color="error" onClick={() => runAndRefresh(clearResponseCache)} disabled={entries.length === 0}>
+          Purge All
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CacheInspector;
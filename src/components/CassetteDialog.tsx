@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  LinearProgress
+} from '@mui/material';
+import {
+  FiberManualRecord as RecordIcon,
+  Stop as StopIcon,
+  FileUpload as FileUploadIcon
+} from '@mui/icons-material';
+import { CassetteStatus } from '../types';
+import { apiService } from '../apiService';
+import { parseCassette } from '../cassette';
+import { downloadBlob } from '../manuscriptUtils';
+
+interface CassetteDialogProps {
+  open: boolean;
+  fileStem: string;
+  isProcessing: boolean;
+  onClose: () => void;
+  onStatusChange: (status: CassetteStatus) => void;
+}
+
+// Record a session's API traffic to a cassette file, or replay one in place of the API
+const CassetteDialog: React.FC<CassetteDialogProps> = ({
+  open,
+  fileStem,
+  isProcessing,
+  onClose,
+  onStatusChange
+}) => {
+  const [status, setStatus] = useState<CassetteStatus>(apiService.getCassetteStatus());
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    const next = apiService.getCassetteStatus();
+    setStatus(next);
+    onStatusChange(next);
+  }, [onStatusChange]);
+
+  // Counts change as requests are made, so keep polling while the dialog is open
+  useEffect(() => {
+    if (!open) return;
+    refresh();
+    const timer = setInterval(refresh, 1000);
+    return () => clearInterval(timer);
+  }, [open, refresh]);
+
+  const startRecording = () => {
+    setError(null);
+    apiService.startRecording();
+    refresh();
+  };
+
+  const stopRecording = () => {
+    const cassette = apiService.stopRecording();
+    if (cassette) {
+      const blob = new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `${fileStem}-cassette.json`);
+    }
+    refresh();
+  };
+
+  const loadCassette = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      apiService.startReplay(parseCassette(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read cassette');
+    }
+    refresh();
+  };
+
+  const stopReplay = () => {
+    apiService.stopReplay();
+    refresh();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Session Cassette</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          A cassette records every generation request and response of a session, including each streamed chunk
+          and when it arrived. Replaying it serves the same responses, in order and with the original timing, so
+          anyone can reproduce a session without an API key. The response cache is bypassed in both modes.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {status.mode === 'recording' && (
+          <Alert severity="info" icon={<RecordIcon color="error" />} sx={{ mb: 2 }}>
+            Recording: {status.interactions} {status.interactions === 1 ? 'request' : 'requests'} so far.
+            Cassettes contain your prompts and the generated text, but never API keys or request headers.
+          </Alert>
+        )}
+
+        {status.mode === 'replaying' && (
+          <Box sx={{ mb: 2 }}>
+            <Alert severity="warning" sx={{ mb: 1 }}>
+              Replaying: {status.interactions} of {status.total} responses served. Requests are answered from the
+              cassette instead of the API; repeat the recorded actions to reproduce the session.
+            </Alert>
+            <LinearProgress
+              variant="determinate"
+              value={status.total ? (status.interactions / status.total) * 100 : 100}
+            />
+          </Box>
+        )}
+
+        {status.mode === 'off' && (
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Requests currently go to the API as usual.
+          </Typography>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        {status.mode === 'recording' ? (
+          <Button startIcon={<StopIcon />} onClick={stopRecording} variant="contained">
+            Stop & Download
+          </Button>
+        ) : (
+          <Button startIcon={<RecordIcon />} onClick={startRecording} color="error" disabled={isProcessing}>
+            Start Recording
+          </Button>
+        )}
+        {status.mode === 'replaying' ? (
+          <Button startIcon={<StopIcon />} onClick={stopReplay} disabled={isProcessing}>
+            Stop Replay
+          </Button>
+        ) : (
+          <>
+            <input
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              id="cassette-file-load"
+              type="file"
+              onChange={loadCassette}
+            />
+            <label htmlFor="cassette-file-load">
+              <Button component="span" startIcon={<FileUploadIcon />} disabled={isProcessing}>
+                Replay Cassette
+              </Button>
+            </label>
+          </>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CassetteDialog;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Chip
+} from '@mui/material';
+import { Edit as EditIcon } from '@mui/icons-material';
+import { ChapterOutline } from '../types';
+
+interface ChapterOutlineEditorProps {
+  outline?: ChapterOutline;
+  disabled: boolean;
+  onSave: (outline: ChapterOutline) => void;
+}
+
+interface OutlineDraft {
+  title: string;
+  pov: string;
+  summary: string;
+  beats: string; // One beat per line
+}
+
+const toDraft = (outline?: ChapterOutline): OutlineDraft => ({
+  title: outline?.title || '',
+  pov: outline?.pov || '',
+  summary: outline?.summary || '',
+  beats: (outline?.beats || []).join('\n')
+});
+
+// The chapter's outline from the plan, which is sent with the chapter prompt and can be edited first
+const ChapterOutlineEditor: React.FC<ChapterOutlineEditorProps> = ({ outline, disabled, onSave }) => {
+  const [draft, setDraft] = useState<OutlineDraft | null>(null);
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave({
+      title: draft.title.trim(),
+      summary: draft.summary.trim(),
+      ...(draft.pov.trim() ? { pov: draft.pov.trim() } : {}),
+      beats: draft.beats.split('\n').map(beat => beat.replace(/^\s*[-*]\s*/, '').trim()).filter(Boolean),
+      edited: true
+    });
+    setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <Box sx={{ mb: 2, p: 2, bgcolor: 'background.paper', borderRadius: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+          <TextField
+            label="Title"
+            size="small"
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            sx={{ flex: 2, minWidth: 200 }}
+          />
+          <TextField
+            label="POV"
+            size="small"
+            value={draft.pov}
+            onChange={(e) => setDraft({ ...draft, pov: e.target.value })}
+            sx={{ flex: 1, minWidth: 140 }}
+          />
+        </Box>
+        <TextField
+          label="Summary"
+          size="small"
+          multiline
+          minRows={2}
+          value={draft.summary}
+          onChange={(e) => setDraft({ ...draft, summary: e.target.value })}
+        />
+        <TextField
+          label="Key beats"
+          size="small"
+          multiline
+          minRows={3}
+          value={draft.beats}
+          onChange={(e) => setDraft({ ...draft, beats: e.target.value })}
+          helperText="One beat per line"
+        />
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button size="small" variant="contained" onClick={handleSave}>
+            Save Outline
+          </Button>
+          <Button size="small" variant="outlined" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+        </Box>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mb: 2, p: 2, bgcolor: 'background.paper', borderRadius: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: outline ? 1 : 0 }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          {outline?.title || 'Outline'}
+        </Typography>
+        {outline?.pov && <Chip label={`POV: ${outline.pov}`} size="small" variant="outlined" />}
+        {outline?.edited && <Chip label="Edited" size="small" />}
+        <Button size="small" startIcon={<EditIcon />} onClick={() => setDraft(toDraft(outline))} disabled={disabled}>
+          {outline ? 'Edit Outline' : 'Add Outline'}
+        </Button>
+      </Box>
+      {outline ? (
+        <>
+          {outline.summary && (
+            <Typography variant="body2" color="text.secondary">{outline.summary}</Typography>
+          )}
+          {outline.beats.length > 0 && (
+            <Box component="ul" sx={{ m: 0, mt: 1, pl: 3 }}>
+              {outline.beats.map((beat, index) => (
+                <Typography key={index} component="li" variant="body2">{beat}</Typography>
+              ))}
+            </Box>
+          )}
+        </>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          No outline yet. One is read from the plan's chapter planning, or you can write your own.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default ChapterOutlineEditor;
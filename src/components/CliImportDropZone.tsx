@@ -0,0 +1,164 @@
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  Button,
+  CircularProgress
+} from '@mui/material';
+import {
+  DriveFolderUpload as DriveFolderUploadIcon,
+  FolderZip as FolderZipIcon
+} from '@mui/icons-material';
+
+interface CliImportDropZoneProps {
+  onImport: (files: File[]) => Promise<void>;
+  disabled?: boolean;
+}
+
+const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry => entry.isDirectory;
+
+// Recursively collect files from a dropped directory entry
+const readEntry = (entry: FileSystemEntry, path: string = ''): Promise<File[]> => {
+  return new Promise((resolve) => {
+    if (isFileEntry(entry)) {
+      entry.file((file) => {
+        // Preserve the relative path so chapters/ folders can be recognised
+        Object.defineProperty(file, 'webkitRelativePath', { value: `${path}${file.name}` });
+        resolve([file]);
+      }, () => resolve([]));
+      return;
+    }
+
+    if (isDirectoryEntry(entry)) {
+      const reader = entry.createReader();
+      const collected: File[] = [];
+      const readBatch = () => {
+        reader.readEntries(async (entries) => {
+          if (entries.length === 0) {
+            resolve(collected);
+            return;
+          }
+          for (const child of entries) {
+            collected.push(...await readEntry(child, `${path}${entry.name}/`));
+          }
+          readBatch();
+        }, () => resolve(collected));
+      };
+      readBatch();
+      return;
+    }
+
+    resolve([]);
+  });
+};
+
+const CliImportDropZone: React.FC<CliImportDropZoneProps> = ({
+  onImport,
+  disabled = false
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React does not type the non-standard directory picker attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    folderInputRef.current?.setAttribute('directory', '');
+  }, []);
+
+  const runImport = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsImporting(true);
+    try {
+      await onImport(files);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+
+    const items = Array.from(event.dataTransfer.items || []);
+    const entries = items
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+
+    if (entries.length > 0) {
+      const nested = await Promise.all(entries.map(entry => readEntry(entry)));
+      await runImport(nested.flat());
+    } else {
+      await runImport(Array.from(event.dataTransfer.files));
+    }
+  };
+
+  const handleInputChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    await runImport(files);
+  };
+
+  return (
+    <Paper
+      variant="outlined"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      sx={{
+        p: 2,
+        mb: 3,
+        textAlign: 'center',
+        borderStyle: 'dashed',
+        borderColor: isDragging ? 'primary.main' : 'divider',
+        bgcolor: isDragging ? 'action.hover' : 'background.paper'
+      }}
+    >
+      <Typography variant="subtitle1" gutterBottom>
+        Continue a story from the Python CLI
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Drop a CLI output folder or zip here (01_brainstorm_and_reflection.md … 05_characters.md and chapter files)
+      </Typography>
+      {isImporting ? (
+        <CircularProgress size={24} />
+      ) : (
+        <Box sx={{ display: 'flex', gap: 2, justifyContent: 'center' }}>
+          <input
+            ref={folderInputRef}
+            style={{ display: 'none' }}
+            id="cli-folder-import"
+            type="file"
+            multiple
+            onChange={handleInputChange}
+          />
+          <label htmlFor="cli-folder-import">
+            <Button variant="outlined" component="span" size="small" startIcon={<DriveFolderUploadIcon />} disabled={disabled}>
+              Choose Folder
+            </Button>
+          </label>
+          <input
+            accept=".zip,application/zip"
+            style={{ display: 'none' }}
+            id="cli-zip-import"
+            type="file"
+            onChange={handleInputChange}
+          />
+          <label htmlFor="cli-zip-import">
+            <Button variant="outlined" component="span" size="small" startIcon={<FolderZipIcon />} disabled={disabled}>
+              Choose Zip
+            </Button>
+          </label>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default CliImportDropZone;
@@ -18,10 +18,19 @@ import {
   CircularProgress,
   Chip
 } from '@mui/material';
-import { StoryConfig } from '../types';
-import { saveSettings, PRESET_ENDPOINTS } from '../secureStorage';
+import { StoryConfig, ProviderId } from '../types';
+import { CHAPTER_MAX_ATTEMPTS } from '../workflowUtils';
+import { DEFAULT_MAX_RETRIES } from '../retryPolicy';
+import { getContextLength } from '../contextUtils';
+import { DEFAULT_CACHE_TTL_HOURS, DEFAULT_CACHE_MAX_SIZE_MB } from '../responseCache';
+import { saveSettings, PRESET_ENDPOINTS, PRESET_PROVIDERS } from '../secureStorage';
+import { PROVIDER_ADAPTERS, getProviderAdapter } from '../providers';
 import { apiService } from '../apiService';
 import { getDefaultConfigFromEnv } from '../env';
+import StepRoutesEditor from './StepRoutesEditor';
+import { resolvePipeline } from '../pipelines';
+import SamplingParamsEditor from './SamplingParamsEditor';
+import { validateSamplingParams } from '../samplingParams';
 
 interface ConfigurationDialogProps {
   open: boolean;
@@ -37,8 +46,11 @@ const PROVIDER_MODELS: Record<string, string[]> = {
   'https://api.deepseek.com': ['deepseek-reasoner', 'deepseek-chat'],
   'https://openrouter.ai/api/v1': ['meta-llama/llama-3.3-70b-instruct:free', 'openai/gpt-4', 'openai/gpt-3.5-turbo', 'anthropic/claude-3-sonnet-20240229'],
   'https://api.openai.com/v1': ['gpt-4', 'gpt-3.5-turbo'],
-  'http://localhost:11434': ['llama2', 'codellama', 'mistral'],
-  'http://localhost:1234': ['local-model']
+  'http://localhost:11434': ['llama3.1', 'mistral', 'qwen2.5'],
+  'http://localhost:1234': ['local-model'],
+  'https://api.anthropic.com/v1': ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-3-5-haiku-latest'],
+  'https://generativelanguage.googleapis.com/v1beta': ['gemini-2.5-pro', 'gemini-2.5-flash'],
+  'mock://story-author': ['mock-storyteller']
 };
 
 const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
@@ -65,9 +77,12 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
     !showFreeModelsOnly || model.toLowerCase().includes('free')
   );
 
+  const adapter = getProviderAdapter(config.provider);
+  const samplingErrors = validateSamplingParams(config.sampling || {}, adapter, config.baseUrl);
+
   // Fetch available models when API key and base URL are available
   const fetchModels = useCallback(async () => {
-    if (!config.apiKey.trim() || !config.baseUrl.trim()) {
+    if ((getProviderAdapter(config.provider).requiresApiKey && !config.apiKey.trim()) || !config.baseUrl.trim()) {
       setAvailableModels([]);
       setModelsError(null);
       return;
@@ -77,7 +92,7 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
     setModelsError(null);
 
     try {
-      const models = await apiService.fetchAvailableModels(config.apiKey, config.baseUrl);
+      const models = await apiService.fetchAvailableModels(config.apiKey, config.baseUrl, config.provider);
       setAvailableModels(models);
 
       // If current model is not in the list, reset to first available model
@@ -90,7 +105,7 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
     } finally {
       setIsLoadingModels(false);
     }
-  }, [config.apiKey, config.baseUrl, config.model]);
+  }, [config.apiKey, config.baseUrl, config.provider, config.model]);
 
   // Handle base URL changes
   const handleEndpointChange = (endpoint: string) => {
@@ -100,7 +115,8 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
       const suggestedModels = PROVIDER_MODELS[baseUrl] || [];
       const newModel = suggestedModels.length > 0 ? suggestedModels[0] : config.model;
 
-      setConfig(prev => ({ ...prev, baseUrl, model: newModel }));
+      const provider = PRESET_PROVIDERS[endpoint as keyof typeof PRESET_PROVIDERS];
+      setConfig(prev => ({ ...prev, baseUrl, provider, model: newModel }));
       setCustomBaseUrl('');
     }
   };
@@ -133,7 +149,7 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
   const validateConfig = (): boolean => {
     const newErrors: Record<string, string> = {};
 
-    if (!config.apiKey.trim()) {
+    if (adapter.requiresApiKey && !config.apiKey.trim()) {
       newErrors.apiKey = 'API key is required';
     }
 
@@ -145,6 +161,39 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
       newErrors.chapterWordTarget = 'Chapter word target must be between 500 and 10,000';
     }
 
+    if (config.chapterMaxAttempts !== undefined && (config.chapterMaxAttempts < 1 || config.chapterMaxAttempts > 10)) {
+      newErrors.chapterMaxAttempts = 'Chapter attempts must be between 1 and 10';
+    }
+
+    if (config.maxRetries !== undefined && (config.maxRetries < 0 || config.maxRetries > 10)) {
+      newErrors.maxRetries = 'Automatic retries must be between 0 and 10';
+    }
+
+    if (config.contextLength !== undefined && (config.contextLength < 2048 || config.contextLength > 2000000)) {
+      newErrors.contextLength = 'Context window must be between 2,048 and 2,000,000 tokens';
+    }
+
+    if (config.cacheTtlHours !== undefined && (config.cacheTtlHours < 0 || config.cacheTtlHours > 8760)) {
+      newErrors.cacheTtlHours = 'Cache lifetime must be between 0 and 8,760 hours';
+    }
+
+    if (config.cacheMaxSizeMb !== undefined && (config.cacheMaxSizeMb < 1 || config.cacheMaxSizeMb > 2000)) {
+      newErrors.cacheMaxSizeMb = 'Cache size must be between 1 and 2,000 MB';
+    }
+
+    Object.entries(samplingErrors).forEach(([key, message]) => {
+      newErrors[`sampling.${key}`] = message!;
+    });
+
+    Object.entries(config.stepRoutes || {}).forEach(([stepId, route]) => {
+      if (route.temperature !== undefined && (route.temperature < 0 || route.temperature > 2)) {
+        newErrors[`route-${stepId}`] = 'Must be between 0 and 2';
+      }
+      Object.entries(validateSamplingParams(route.sampling || {}, adapter, config.baseUrl)).forEach(([key, message]) => {
+        newErrors[`route-${stepId}.sampling.${key}`] = message!;
+      });
+    });
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -214,13 +263,31 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
             />
           )}
 
+          <FormControl fullWidth>
+            <InputLabel>API Protocol</InputLabel>
+            <Select
+              value={config.provider || 'openai'}
+              onChange={(e) => handleChange('provider', e.target.value as ProviderId)}
+              label="API Protocol"
+            >
+              {Object.values(PROVIDER_ADAPTERS).map((providerAdapter) => (
+                <MenuItem key={providerAdapter.id} value={providerAdapter.id}>
+                  {providerAdapter.label}
+                </MenuItem>
+              ))}
+            </Select>
+            <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+              {adapter.description}
+            </Typography>
+          </FormControl>
+
           <TextField
             label="API Key"
             type="password"
             value={config.apiKey}
             onChange={(e) => handleChange('apiKey', e.target.value)}
             error={!!errors.apiKey}
-            helperText={errors.apiKey || "Your API key for the selected endpoint"}
+            helperText={errors.apiKey || (adapter.requiresApiKey ? "Your API key for the selected endpoint" : "Optional for this protocol")}
             fullWidth
           />
 
@@ -308,6 +375,82 @@ const ConfigurationDialog: React.FC<ConfigurationDialogProps> = ({
              fullWidth
            />
 
+           <TextField
+             label="Chapter Attempts"
+             type="number"
+             value={config.chapterMaxAttempts || ''}
+             onChange={(e) => handleChange('chapterMaxAttempts', e.target.value ? parseInt(e.target.value) : undefined)}
+             error={!!errors.chapterMaxAttempts}
+             helperText={errors.chapterMaxAttempts || `How many times to continue a chapter that falls short of its word target (default: ${CHAPTER_MAX_ATTEMPTS}, 1 disables continuation)`}
+             inputProps={{ min: 1, max: 10, step: 1 }}
+             fullWidth
+           />
+
+           <TextField
+             label="Automatic Retries"
+             type="number"
+             value={config.maxRetries ?? ''}
+             onChange={(e) => handleChange('maxRetries', e.target.value ? parseInt(e.target.value) : undefined)}
+             error={!!errors.maxRetries}
+             helperText={errors.maxRetries || `Retries for rate limits (429), server and network errors, with exponential backoff that honors Retry-After (default: ${DEFAULT_MAX_RETRIES}, 0 disables)`}
+             inputProps={{ min: 0, max: 10, step: 1 }}
+             fullWidth
+           />
+
+           <TextField
+             label="Context Window (tokens)"
+             type="number"
+             value={config.contextLength || ''}
+             onChange={(e) => handleChange('contextLength', e.target.value ? parseInt(e.target.value) : undefined)}
+             error={!!errors.contextLength}
+             helperText={errors.contextLength || `Older chapters are replaced by summaries in prompts that would exceed this (default for ${config.model || 'this model'}: ${getContextLength(config.model).toLocaleString()})`}
+             inputProps={{ min: 2048, step: 1024 }}
+             fullWidth
+           />
+
+           <Box sx={{ display: 'flex', gap: 2 }}>
+             <TextField
+               label="Cache Lifetime (hours)"
+               type="number"
+               value={config.cacheTtlHours ?? ''}
+               onChange={(e) => handleChange('cacheTtlHours', e.target.value ? parseFloat(e.target.value) : undefined)}
+               error={!!errors.cacheTtlHours}
+               helperText={errors.cacheTtlHours || `How long a cached response is reused (default: ${DEFAULT_CACHE_TTL_HOURS}, 0 disables reuse)`}
+               inputProps={{ min: 0, step: 1 }}
+               fullWidth
+             />
+             <TextField
+               label="Cache Size Limit (MB)"
+               type="number"
+               value={config.cacheMaxSizeMb ?? ''}
+               onChange={(e) => handleChange('cacheMaxSizeMb', e.target.value ? parseFloat(e.target.value) : undefined)}
+               error={!!errors.cacheMaxSizeMb}
+               helperText={errors.cacheMaxSizeMb || `Least recently used responses are evicted beyond this (default: ${DEFAULT_CACHE_MAX_SIZE_MB})`}
+               inputProps={{ min: 1, step: 10 }}
+               fullWidth
+             />
+           </Box>
+
+          <SamplingParamsEditor
+            sampling={config.sampling || {}}
+            adapter={adapter}
+            baseUrl={config.baseUrl}
+            errors={samplingErrors}
+            onChange={(sampling) => handleChange('sampling', sampling)}
+          />
+
+          <StepRoutesEditor
+            pipeline={resolvePipeline(config.pipeline)}
+            routes={config.stepRoutes || {}}
+            defaultModel={config.model}
+            defaultTemperature={config.temperature}
+            modelOptions={availableModels.length > 0 ? availableModels : PROVIDER_MODELS[config.baseUrl] || []}
+            adapter={adapter}
+            baseUrl={config.baseUrl}
+            errors={errors}
+            onChange={(stepRoutes) => handleChange('stepRoutes', stepRoutes)}
+          />
+
           <FormControlLabel
             control={
               <Switch
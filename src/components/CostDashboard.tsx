@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Chip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { CloudDownload as CloudDownloadIcon } from '@mui/icons-material';
+import { WorkflowStep, Chapter, ModelPricing } from '../types';
+import {
+  UsageRow,
+  summarizeProjectUsage,
+  summarizeUsageByModel,
+  totalUsage,
+  formatCost
+} from '../usageUtils';
+
+interface CostDashboardProps {
+  open: boolean;
+  steps: WorkflowStep[];
+  chapters: Chapter[];
+  pricing: Record<string, ModelPricing>;
+  canFetchPricing: boolean;
+  onClose: () => void;
+  onPricingChange: (pricing: Record<string, ModelPricing>) => void;
+  onFetchPricing: () => Promise<void>;
+}
+
+const UsageTable: React.FC<{ rows: UsageRow[]; firstColumn: string }> = ({ rows, firstColumn }) => (
+  <Table size="small">
+    <TableHead>
+      <TableRow>
+        <TableCell>{firstColumn}</TableCell>
+        <TableCell align="right">Calls</TableCell>
+        <TableCell align="right">Prompt tokens</TableCell>
+        <TableCell align="right">Completion tokens</TableCell>
+        <TableCell align="right">Cost</TableCell>
+      </TableRow>
+    </TableHead>
+    <TableBody>
+      {rows.map(row => (
+        <TableRow key={row.label}>
+          <TableCell>{row.label}</TableCell>
+          <TableCell align="right">{row.calls}</TableCell>
+          <TableCell align="right">{row.promptTokens.toLocaleString()}</TableCell>
+          <TableCell align="right">{row.completionTokens.toLocaleString()}</TableCell>
+          <TableCell align="right">
+            {formatCost(row.cost)}{row.unpricedCalls > 0 ? ' *' : ''}
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const CostDashboard: React.FC<CostDashboardProps> = ({
+  open,
+  steps,
+  chapters,
+  pricing,
+  canFetchPricing,
+  onClose,
+  onPricingChange,
+  onFetchPricing
+}) => {
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  const itemRows = useMemo(() => summarizeProjectUsage(steps, chapters, pricing), [steps, chapters, pricing]);
+  const modelRows = useMemo(() => summarizeUsageByModel(steps, chapters, pricing), [steps, chapters, pricing]);
+  const totals = totalUsage(itemRows);
+  const writtenWords = chapters.reduce((sum, chapter) => sum + (chapter.wordCount || 0), 0);
+
+  const handlePriceChange = (model: string, field: 'prompt' | 'completion', value: string) => {
+    const current = pricing[model] || { prompt: 0, completion: 0, source: 'manual' as const };
+    onPricingChange({
+      ...pricing,
+      [model]: { ...current, [field]: value === '' ? 0 : parseFloat(value) || 0, source: 'manual' }
+    });
+  };
+
+  const handleFetch = async () => {
+    setIsFetching(true);
+    setFetchError(null);
+    try {
+      await onFetchPricing();
+    } catch (error) {
+      setFetchError(error instanceof Error ? error.message : 'Failed to fetch pricing');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Usage &amp; Cost
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Token usage of every API call in this timeline, including rewrites, feedback rounds and continuations
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 3 }}>
+          <Chip color="primary" label={`Total: ${formatCost(totals.cost)}`} />
+          <Chip variant="outlined" label={`${totals.calls} calls`} />
+          <Chip variant="outlined" label={`${(totals.promptTokens + totals.completionTokens).toLocaleString()} tokens`} />
+          {writtenWords > 0 && totals.cost > 0 && (
+            <Chip variant="outlined" label={`${formatCost(totals.cost / writtenWords * 1000)} per 1,000 words written`} />
+          )}
+        </Box>
+
+        {totals.unpricedCalls > 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            * {totals.unpricedCalls} call(s) used a model without a price. Enter its price below or fetch prices from OpenRouter.
+          </Alert>
+        )}
+
+        {itemRows.length === 0 ? (
+          <Typography color="text.secondary">
+            No usage recorded yet. Usage is recorded for providers that report token counts; cached responses are free.
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="subtitle1" gutterBottom>By step and chapter</Typography>
+            <UsageTable rows={itemRows} firstColumn="Step / chapter" />
+
+            <Typography variant="subtitle1" sx={{ mt: 3 }} gutterBottom>By model</Typography>
+            <UsageTable rows={modelRows} firstColumn="Model" />
+          </>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', mt: 3, mb: 1 }}>
+          <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>Model prices (USD per million tokens)</Typography>
+          <Button
+            size="small"
+            startIcon={isFetching ? <CircularProgress size={16} /> : <CloudDownloadIcon />}
+            onClick={handleFetch}
+            disabled={!canFetchPricing || isFetching}
+          >
+            Fetch OpenRouter Prices
+          </Button>
+        </Box>
+        {fetchError && (
+          <Typography variant="body2" color="error" sx={{ mb: 1 }}>
+            {fetchError}
+          </Typography>
+        )}
+        {modelRows.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Prices can be entered once a model has been used.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Model</TableCell>
+                <TableCell>Prompt</TableCell>
+                <TableCell>Completion</TableCell>
+                <TableCell>Source</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {modelRows.map(row => (
+                <TableRow key={row.label}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={pricing[row.label]?.prompt ?? ''}
+                      onChange={(e) => handlePriceChange(row.label, 'prompt', e.target.value)}
+                      inputProps={{ min: 0, step: 0.01 }}
+                      sx={{ width: 120 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={pricing[row.label]?.completion ?? ''}
+                      onChange={(e) => handlePriceChange(row.label, 'completion', e.target.value)}
+                      inputProps={{ min: 0, step: 0.01 }}
+                      sx={{ width: 120 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {pricing[row.label] ? (
+                      <Chip size="small" label={pricing[row.label].source === 'openrouter' ? 'OpenRouter' : 'Manual'} />
+                    ) : (
+                      <Chip size="small" color="warning" label="Not set" />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CostDashboard;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Box,
+  Typography,
+  CircularProgress
+} from '@mui/material';
+import { ExportFormat, ExportOptions } from '../types';
+
+interface ExportDialogProps {
+  open: boolean;
+  defaultTitle: string;
+  onClose: () => void;
+  onExport: (format: ExportFormat, options: ExportOptions) => Promise<void> | void;
+}
+
+const FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
+  txt: 'Plain text with planning notes, feedback and chapters',
+  epub: 'EPUB 3 e-book with title page and table of contents, for e-readers',
+  docx: 'Word document in standard manuscript format, for agents and editors',
+  html: 'Single-file, print-ready HTML book with drop caps and running headers; open it and print to PDF',
+  'project-zip': 'Complete project (JSON plus Markdown files in the CLI layout) that can be imported again; API keys are never included',
+  'project-json': 'Complete project as a single JSON file that can be imported again; API keys are never included'
+};
+
+const isManuscriptFormat = (format: ExportFormat) => format === 'epub' || format === 'docx';
+const isBookFormat = (format: ExportFormat) => isManuscriptFormat(format) || format === 'html';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  defaultTitle,
+  onClose,
+  onExport
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('epub');
+  const [options, setOptions] = useState<ExportOptions>({
+    title: defaultTitle,
+    author: '',
+    language: 'en',
+    includePlanning: false,
+    manuscriptFont: 'times'
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setOptions(prev => ({ ...prev, title: defaultTitle }));
+      setError(null);
+    }
+  }, [open, defaultTitle]);
+
+  const handleChange = <K extends keyof ExportOptions>(field: K, value: ExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(format, options);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Export Story
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Download your manuscript in the format you need
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <FormControl fullWidth>
+            <InputLabel>Format</InputLabel>
+            <Select
+              value={format}
+              label="Format"
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            >
+              <MenuItem value="epub">EPUB (.epub)</MenuItem>
+              <MenuItem value="docx">Word Manuscript (.docx)</MenuItem>
+              <MenuItem value="html">Print-ready Book (.html)</MenuItem>
+              <MenuItem value="txt">Text (.txt)</MenuItem>
+              <MenuItem value="project-zip">Project Bundle (.zip)</MenuItem>
+              <MenuItem value="project-json">Project Bundle (.json)</MenuItem>
+            </Select>
+            <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+              {FORMAT_DESCRIPTIONS[format]}
+            </Typography>
+          </FormControl>
+
+          {isBookFormat(format) && (
+            <>
+              <TextField
+                label="Title"
+                value={options.title}
+                onChange={(e) => handleChange('title', e.target.value)}
+                fullWidth
+              />
+              <TextField
+                label="Author"
+                value={options.author}
+                onChange={(e) => handleChange('author', e.target.value)}
+                fullWidth
+              />
+            </>
+          )}
+
+          {isManuscriptFormat(format) && (
+            <>
+              <TextField
+                label="Language"
+                value={options.language}
+                onChange={(e) => handleChange('language', e.target.value)}
+                helperText="BCP 47 language code, e.g. en, en-GB, fr"
+                fullWidth
+              />
+              {format === 'docx' && (
+                <FormControl fullWidth>
+                  <InputLabel>Manuscript Font</InputLabel>
+                  <Select
+                    value={options.manuscriptFont || 'times'}
+                    label="Manuscript Font"
+                    onChange={(e) => handleChange('manuscriptFont', e.target.value)}
+                  >
+                    <MenuItem value="times">Times New Roman 12pt</MenuItem>
+                    <MenuItem value="courier">Courier New 12pt (monospace)</MenuItem>
+                  </Select>
+                </FormControl>
+              )}
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={options.includePlanning}
+                    onChange={(e) => handleChange('includePlanning', e.target.checked)}
+                  />
+                }
+                label="Include planning steps as an appendix"
+              />
+            </>
+          )}
+
+          {error && (
+            <Typography variant="body2" color="error">
+              {error}
+            </Typography>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleExport}
+          variant="contained"
+          disabled={isExporting || (isBookFormat(format) && !options.title.trim())}
+          startIcon={isExporting ? <CircularProgress size={16} /> : undefined}
+        >
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Box, Typography } from '@mui/material';
+import { parseManuscriptBlocks, parseInlineMarkdown, stripChapterHeading } from '../manuscriptUtils';
+
+interface ManuscriptViewProps {
+  content: string;
+  dropCap?: boolean;
+}
+
+const renderInline = (text: string) =>
+  parseInlineMarkdown(text).map((run, index) => {
+    if (run.bold && run.italic) return <strong key={index}><em>{run.text}</em></strong>;
+    if (run.bold) return <strong key={index}>{run.text}</strong>;
+    if (run.italic) return <em key={index}>{run.text}</em>;
+    return <React.Fragment key={index}>{run.text}</React.Fragment>;
+  });
+
+// Typeset reading view for chapter prose
+const ManuscriptView: React.FC<ManuscriptViewProps> = ({ content, dropCap = true }) => {
+  const blocks = useMemo(() => parseManuscriptBlocks(stripChapterHeading(content)), [content]);
+  let seenParagraph = false;
+  let afterBreak = false;
+
+  return (
+    <Box
+      sx={{
+        fontFamily: "'Iowan Old Style', 'Palatino Linotype', Palatino, Georgia, serif",
+        fontSize: '1.05rem',
+        lineHeight: 1.6,
+        textAlign: 'justify',
+        hyphens: 'auto',
+        maxWidth: '38em',
+        mx: 'auto'
+      }}
+    >
+      {blocks.map((block, index) => {
+        if (block.type === 'sceneBreak') {
+          afterBreak = true;
+          return (
+            <Typography key={index} align="center" color="text.secondary" sx={{ my: 1.5, letterSpacing: '0.5em' }}>
+              ⁂
+            </Typography>
+          );
+        }
+
+        if (block.type === 'heading') {
+          afterBreak = true;
+          return (
+            <Typography key={index} align="center" sx={{ fontFamily: 'inherit', fontStyle: 'italic', my: 1.5 }}>
+              {renderInline(block.text)}
+            </Typography>
+          );
+        }
+
+        const isFirst = !seenParagraph;
+        const noIndent = isFirst || afterBreak;
+        seenParagraph = true;
+        afterBreak = false;
+        return (
+          <Box
+            key={index}
+            component="p"
+            sx={{
+              m: 0,
+              textIndent: noIndent ? 0 : '1.5em',
+              ...(isFirst && dropCap ? {
+                '&::first-letter': {
+                  float: 'left',
+                  fontSize: '3.2em',
+                  lineHeight: 0.85,
+                  pr: '0.08em',
+                  pt: '0.06em'
+                }
+              } : {})
+            }}
+          >
+            {renderInline(block.text)}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default ManuscriptView;
@@ -0,0 +1,385 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Alert,
+  List,
+  ListItemButton,
+  ListItemText,
+  FormControlLabel,
+  Switch,
+  IconButton,
+  Tooltip,
+  Divider
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Add as AddIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  FileUpload as FileUploadIcon,
+  FileDownload as FileDownloadIcon
+} from '@mui/icons-material';
+import { WorkflowPipeline, PipelineStep } from '../types';
+import {
+  BUILT_IN_PIPELINES,
+  GENRE_PIPELINES,
+  CHAPTER_STEP_NAME,
+  isBuiltInPipeline,
+  createPipelineId,
+  validatePipeline,
+  serializePipeline,
+  parsePipeline
+} from '../pipelines';
+import { FEEDBACK_SECTION, findUnknownVariables, getTemplateVariables, stepTemplateId } from '../promptTemplates';
+import { loadCustomPipelines, saveCustomPipelines } from '../pipelineStorage';
+import { downloadBlob, toFileStem } from '../manuscriptUtils';
+
+interface PipelineEditorProps {
+  open: boolean;
+  pipeline: WorkflowPipeline;
+  canChange: boolean; // Pipelines can only be switched before the story starts
+  onClose: () => void;
+  onApply: (pipeline: WorkflowPipeline) => void;
+}
+
+const NEW_STEP: PipelineStep = {
+  name: 'New Step',
+  template: `Original Story Prompt:\n{{storyPrompt}}\n\nDescribe what this step should produce for the {{storyType}}.${FEEDBACK_SECTION}`,
+  filename: 'new_step.md',
+  chapterContext: false,
+  optional: false
+};
+
+// Choose, edit, import and export the planning steps a story runs before its chapters
+const PipelineEditor: React.FC<PipelineEditorProps> = ({
+  open,
+  pipeline,
+  canChange,
+  onClose,
+  onApply
+}) => {
+  const [draft, setDraft] = useState<WorkflowPipeline>(pipeline);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [customPipelines, setCustomPipelines] = useState<WorkflowPipeline[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(pipeline);
+      setSelectedIndex(0);
+      setCustomPipelines(loadCustomPipelines());
+      setError(null);
+    }
+  }, [open, pipeline]);
+
+  const problems = validatePipeline(draft);
+  const selectedStep = draft.steps[selectedIndex];
+  const unknownVariables = selectedStep ? findUnknownVariables(selectedStep.template, stepTemplateId(selectedIndex + 1)) : [];
+
+  const selectPipeline = (next: WorkflowPipeline) => {
+    setDraft(next);
+    setSelectedIndex(0);
+  };
+
+  // An edited built-in pipeline becomes a custom one, so the built-in stays as shipped
+  const updateDraft = (changes: Partial<WorkflowPipeline>) => {
+    setDraft(prev => ({
+      ...prev,
+      ...changes,
+      id: isBuiltInPipeline(prev.id) ? createPipelineId() : prev.id
+    }));
+  };
+
+  const updateStep = (changes: Partial<PipelineStep>) => {
+    updateDraft({
+      steps: draft.steps.map((step, index) => (index === selectedIndex ? { ...step, ...changes } : step))
+    });
+  };
+
+  const addStep = () => {
+    const steps = [...draft.steps];
+    steps.splice(selectedIndex + 1, 0, { ...NEW_STEP, filename: `step_${draft.steps.length + 1}.md` });
+    updateDraft({ steps });
+    setSelectedIndex(Math.min(selectedIndex + 1, steps.length - 1));
+  };
+
+  const removeStep = () => {
+    updateDraft({ steps: draft.steps.filter((_, index) => index !== selectedIndex) });
+    setSelectedIndex(Math.max(0, selectedIndex - 1));
+  };
+
+  const moveStep = (offset: number) => {
+    const target = selectedIndex + offset;
+    if (target < 0 || target >= draft.steps.length) return;
+    const steps = [...draft.steps];
+    [steps[selectedIndex], steps[target]] = [steps[target], steps[selectedIndex]];
+    updateDraft({ steps });
+    setSelectedIndex(target);
+  };
+
+  const persistCustomPipelines = (next: WorkflowPipeline[]) => {
+    try {
+      saveCustomPipelines(next);
+      setCustomPipelines(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save custom pipelines');
+    }
+  };
+
+  const saveAsCustom = () => {
+    const saved = isBuiltInPipeline(draft.id) ? { ...draft, id: createPipelineId() } : draft;
+    const exists = customPipelines.some(custom => custom.id === saved.id);
+    persistCustomPipelines(exists
+      ? customPipelines.map(custom => (custom.id === saved.id ? saved : custom))
+      : [...customPipelines, saved]);
+    setDraft(saved);
+  };
+
+  const exportPipeline = () => {
+    const blob = new Blob([serializePipeline(draft)], { type: 'application/json' });
+    downloadBlob(blob, `${toFileStem(draft.name)}.pipeline.json`);
+  };
+
+  const importPipeline = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      selectPipeline(parsePipeline(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read pipeline');
+    }
+  };
+
+  const renderPipelineOption = (option: WorkflowPipeline, deletable: boolean) => (
+    <Box key={option.id} sx={{ display: 'flex', alignItems: 'center' }}>
+      <ListItemButton selected={option.id === draft.id} onClick={() => selectPipeline(option)} sx={{ py: 0.5 }}>
+        <ListItemText
+          primary={option.name}
+          secondary={option.description || `${option.steps.length} steps`}
+        />
+      </ListItemButton>
+      {deletable && (
+        <IconButton size="small" onClick={() => persistCustomPipelines(customPipelines.filter(custom => custom.id !== option.id))}>
+          <DeleteIcon fontSize="small" />
+        </IconButton>
+      )}
+    </Box>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Workflow Pipeline
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          The planning steps a story runs, in order, before its chapters are written
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {!canChange && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            This story has already started, so its pipeline can't be switched. Reset the story to run a different one.
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '240px 1fr' }, gap: 2 }}>
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>Built-in</Typography>
+            <List dense disablePadding>
+              {BUILT_IN_PIPELINES.map(option => renderPipelineOption(option, false))}
+            </List>
+
+            <Typography variant="subtitle2" gutterBottom sx={{ mt: 2 }}>Genres</Typography>
+            <List dense disablePadding>
+              {GENRE_PIPELINES.map(option => renderPipelineOption(option, false))}
+            </List>
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Custom</Typography>
+            {customPipelines.length === 0 && (
+              <Typography variant="body2" color="text.secondary">No custom pipelines yet.</Typography>
+            )}
+            <List dense disablePadding>
+              {customPipelines.map(option => renderPipelineOption(option, true))}
+            </List>
+
+            <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+              <input
+                accept=".json,application/json"
+                style={{ display: 'none' }}
+                id="pipeline-file-load"
+                type="file"
+                onChange={importPipeline}
+              />
+              <label htmlFor="pipeline-file-load">
+                <Button component="span" size="small" startIcon={<FileUploadIcon />}>
+                  Import
+                </Button>
+              </label>
+              <Button size="small" startIcon={<FileDownloadIcon />} onClick={exportPipeline} disabled={problems.length > 0}>
+                Export
+              </Button>
+            </Box>
+          </Box>
+
+          <Box sx={{ minWidth: 0 }}>
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              <TextField
+                label="Name"
+                size="small"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Description"
+                size="small"
+                value={draft.description || ''}
+                onChange={(e) => updateDraft({ description: e.target.value || undefined })}
+                sx={{ flex: 2 }}
+              />
+            </Box>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '220px 1fr' }, gap: 2 }}>
+              <Box>
+                <List dense disablePadding>
+                  {draft.steps.map((step, index) => (
+                    <ListItemButton key={index} selected={index === selectedIndex} onClick={() => setSelectedIndex(index)}>
+                      <ListItemText
+                        primary={`${index + 1}. ${step.name || 'Untitled'}`}
+                        secondary={[step.optional && 'Optional', step.chapterContext && 'Chapter context'].filter(Boolean).join(' · ') || undefined}
+                      />
+                    </ListItemButton>
+                  ))}
+                  <ListItemButton disabled>
+                    <ListItemText primary={`${draft.steps.length + 1}. ${CHAPTER_STEP_NAME}`} />
+                  </ListItemButton>
+                </List>
+                <Box sx={{ display: 'flex', gap: 0.5, mt: 1 }}>
+                  <Tooltip title="Add step after the selected one">
+                    <IconButton size="small" onClick={addStep}><AddIcon fontSize="small" /></IconButton>
+                  </Tooltip>
+                  <Tooltip title="Move up">
+                    <span>
+                      <IconButton size="small" onClick={() => moveStep(-1)} disabled={selectedIndex === 0}>
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Move down">
+                    <span>
+                      <IconButton size="small" onClick={() => moveStep(1)} disabled={selectedIndex >= draft.steps.length - 1}>
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Remove step">
+                    <span>
+                      <IconButton size="small" onClick={removeStep} disabled={!selectedStep}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Box>
+              </Box>
+
+              {selectedStep ? (
+                <Box sx={{ minWidth: 0 }}>
+                  <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                    <TextField
+                      label="Step name"
+                      size="small"
+                      value={selectedStep.name}
+                      onChange={(e) => updateStep({ name: e.target.value })}
+                      sx={{ flex: 1 }}
+                    />
+                    <TextField
+                      label="Output file"
+                      size="small"
+                      value={selectedStep.filename}
+                      onChange={(e) => updateStep({ filename: e.target.value })}
+                      sx={{ flex: 1 }}
+                    />
+                  </Box>
+                  <TextField
+                    label="Prompt template"
+                    fullWidth
+                    multiline
+                    minRows={8}
+                    maxRows={16}
+                    value={selectedStep.template}
+                    onChange={(e) => updateStep({ template: e.target.value })}
+                    InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.85rem' } }}
+                    helperText={`Variables: ${getTemplateVariables(stepTemplateId(selectedIndex + 1)).map(name => `{{${name}}}`).join(' ')}`}
+                  />
+                  {unknownVariables.length > 0 && (
+                    <Alert severity="warning" sx={{ mt: 1 }}>
+                      Not available in step prompts: {unknownVariables.map(name => `{{${name}}}`).join(', ')}. They will be sent as written.
+                    </Alert>
+                  )}
+                  <Box sx={{ display: 'flex', gap: 2, mt: 1, flexWrap: 'wrap' }}>
+                    <FormControlLabel
+                      control={<Switch checked={selectedStep.chapterContext} onChange={(e) => updateStep({ chapterContext: e.target.checked })} />}
+                      label="Feeds chapter context"
+                    />
+                    <FormControlLabel
+                      control={<Switch checked={!!selectedStep.optional} onChange={(e) => updateStep({ optional: e.target.checked })} />}
+                      label="Optional"
+                    />
+                  </Box>
+                  <Typography variant="caption" color="text.secondary">
+                    Steps that feed chapter context are always kept in chapter prompts; the others are the first to be
+                    dropped when a long story outgrows the model's context window. Optional steps can be skipped.
+                  </Typography>
+                </Box>
+              ) : (
+                <Typography variant="body2" color="text.secondary">Add a step to get started.</Typography>
+              )}
+            </Box>
+
+            {problems.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                {problems.join('. ')}.
+              </Alert>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={saveAsCustom} disabled={problems.length > 0}>
+          Save as Custom
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={!canChange || problems.length > 0}
+          onClick={() => {
+            onApply(draft);
+            onClose();
+          }}
+        >
+          Use Pipeline
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PipelineEditor;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button
+} from '@mui/material';
+import {
+  FolderOpen as FolderOpenIcon,
+  ContentCopy as ContentCopyIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { ProjectSummary } from '../types';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  currentProjectId?: string | null;
+  onOpen: (projectId: string) => void;
+  onDuplicate: (projectId: string) => void;
+  onRename: (projectId: string, name: string) => void;
+  onDelete: (projectId: string) => void;
+}
+
+const describeProgress = (project: ProjectSummary): string => {
+  if (project.currentStep === 0) return 'Not started';
+  if (project.currentStep <= project.planningSteps) return `Planning step ${project.currentStep} of ${project.planningSteps}`;
+  return `${project.completedChapters}/${project.chapterCount} chapters written`;
+};
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects,
+  currentProjectId,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete
+}) => {
+  const [renameTarget, setRenameTarget] = useState<ProjectSummary | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<ProjectSummary | null>(null);
+
+  const openRenameDialog = (project: ProjectSummary) => {
+    setRenameTarget(project);
+    setRenameValue(project.name);
+  };
+
+  const handleRenameSubmit = () => {
+    if (renameTarget && renameValue.trim()) {
+      onRename(renameTarget.id, renameValue.trim());
+    }
+    setRenameTarget(null);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (deleteTarget) {
+      onDelete(deleteTarget.id);
+    }
+    setDeleteTarget(null);
+  };
+
+  if (projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Saved Projects
+      </Typography>
+      <List dense>
+        {projects.map((project) => (
+          <ListItem
+            key={project.id}
+            divider
+            secondaryAction={
+              <Box sx={{ display: 'flex', gap: 0.5 }}>
+                <Tooltip title="Open">
+                  <IconButton edge="end" onClick={() => onOpen(project.id)}>
+                    <FolderOpenIcon />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Duplicate">
+                  <IconButton edge="end" onClick={() => onDuplicate(project.id)}>
+                    <ContentCopyIcon />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Rename">
+                  <IconButton edge="end" onClick={() => openRenameDialog(project)}>
+                    <EditIcon />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <IconButton edge="end" color="error" onClick={() => setDeleteTarget(project)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            }
+          >
+            <ListItemText
+              primary={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  {project.name}
+                  <Chip
+                    label={project.storyType === 'novel' ? 'Novel' : 'Short Story'}
+                    size="small"
+                    variant="outlined"
+                  />
+                  {project.id === currentProjectId && (
+                    <Chip label="Open" size="small" color="primary" />
+                  )}
+                </Box>
+              }
+              secondary={`${describeProgress(project)} · Last saved ${new Date(project.updatedAt).toLocaleString()}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      <Dialog open={!!renameTarget} onClose={() => setRenameTarget(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Rename Project</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            label="Project Name"
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRenameSubmit();
+            }}
+            fullWidth
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenameTarget(null)}>Cancel</Button>
+          <Button onClick={handleRenameSubmit} variant="contained" disabled={!renameValue.trim()}>
+            Rename
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete Project</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            Delete "{deleteTarget?.name}"? This cannot be undone.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button onClick={handleDeleteConfirm} variant="contained" color="error">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Chip,
+  Alert,
+  List,
+  ListItemButton,
+  ListItemText,
+  FormControlLabel,
+  Switch,
+  IconButton,
+  Divider
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { PromptTemplateId, PromptTemplates, PromptTemplateSet, WorkflowPipeline } from '../types';
+import {
+  PROMPT_VARIABLE_DESCRIPTIONS,
+  PromptVariables,
+  getPromptTemplateIds,
+  getPromptTemplateLabel,
+  getTemplateVariables,
+  getDefaultTemplate,
+  getPromptTemplate,
+  fillPromptTemplate,
+  findUnknownVariables,
+  pruneDefaultTemplates
+} from '../promptTemplates';
+import { loadTemplateSets, saveTemplateSets } from '../promptTemplateStorage';
+
+interface PromptTemplateEditorProps {
+  open: boolean;
+  pipeline: WorkflowPipeline;
+  templates?: Partial<PromptTemplates>;
+  previewVariables: PromptVariables;
+  onClose: () => void;
+  onSave: (templates: Partial<PromptTemplates>) => void;
+}
+
+const SAMPLE_FEEDBACK = 'Make the antagonist more sympathetic.';
+
+const withDefaults = (pipeline: WorkflowPipeline, templates?: Partial<PromptTemplates>): PromptTemplates =>
+  getPromptTemplateIds(pipeline).reduce(
+    (all, id) => ({ ...all, [id]: getPromptTemplate(templates, id, pipeline) }),
+    {} as PromptTemplates
+  );
+
+// Edit the prompt sent for each step, with a live preview and saved template sets
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+  open,
+  pipeline,
+  templates,
+  previewVariables,
+  onClose,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<PromptTemplates>(withDefaults(pipeline, templates));
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('step1');
+  const [previewFeedback, setPreviewFeedback] = useState(false);
+  const [sets, setSets] = useState<PromptTemplateSet[]>([]);
+  const [setName, setSetName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(withDefaults(pipeline, templates));
+      setSelectedId('step1');
+      setSets(loadTemplateSets());
+      setError(null);
+    }
+  }, [open, pipeline, templates]);
+
+  const templateIds = getPromptTemplateIds(pipeline);
+  const defaultTemplate = getDefaultTemplate(selectedId, pipeline);
+  const template = draft[selectedId] ?? defaultTemplate;
+  const unknownVariables = findUnknownVariables(template, selectedId);
+
+  const preview = useMemo(() => {
+    const chapterIndex = 1;
+    const currentWords = Math.round(previewVariables.wordTarget * 0.6);
+    return fillPromptTemplate(template, {
+      ...previewVariables,
+      chapterIndex,
+      currentWords,
+      remainingWords: previewVariables.wordTarget - currentWords,
+      feedback: previewFeedback ? SAMPLE_FEEDBACK : ''
+    });
+  }, [template, previewVariables, previewFeedback]);
+
+  const updateTemplate = (value: string) => {
+    setDraft(prev => ({ ...prev, [selectedId]: value }));
+  };
+
+  // Insert a placeholder at the cursor, keeping the cursor after it
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? template.length;
+    const end = input?.selectionEnd ?? template.length;
+    updateTemplate(template.slice(0, start) + placeholder + template.slice(end));
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const persistSets = (next: PromptTemplateSet[]) => {
+    try {
+      saveTemplateSets(next);
+      setSets(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save prompt template sets');
+    }
+  };
+
+  const saveAsSet = () => {
+    const name = setName.trim();
+    if (!name) return;
+    const existing = sets.find(set => set.name === name);
+    const saved: PromptTemplateSet = {
+      id: existing?.id || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      templates: pruneDefaultTemplates(draft, pipeline),
+      updatedAt: Date.now()
+    };
+    persistSets(existing ? sets.map(set => (set.id === existing.id ? saved : set)) : [...sets, saved]);
+    setSetName('');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Prompt Templates
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Write {'{{variable}}'} to insert a value, and wrap text in {'{{#feedback}}...{{/feedback}}'} to include it only when there is feedback
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '220px 1fr' }, gap: 2 }}>
+          <Box>
+            <List dense disablePadding>
+              {templateIds.map(id => (
+                <ListItemButton key={id} selected={id === selectedId} onClick={() => setSelectedId(id)}>
+                  <ListItemText
+                    primary={getPromptTemplateLabel(id, pipeline)}
+                    secondary={draft[id] !== getDefaultTemplate(id, pipeline) ? 'Edited' : undefined}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Saved Sets</Typography>
+            {sets.length === 0 && (
+              <Typography variant="body2" color="text.secondary">No saved sets yet.</Typography>
+            )}
+            {sets.map(set => (
+              <Box key={set.id} sx={{ display: 'flex', alignItems: 'center' }}>
+                <Button size="small" sx={{ flexGrow: 1, justifyContent: 'flex-start', textTransform: 'none' }} onClick={() => setDraft(withDefaults(pipeline, set.templates))}>
+                  {set.name}
+                </Button>
+                <IconButton size="small" onClick={() => persistSets(sets.filter(other => other.id !== set.id))}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+            <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+              <TextField
+                size="small"
+                placeholder="Set name"
+                value={setName}
+                onChange={(e) => setSetName(e.target.value)}
+              />
+              <Button size="small" onClick={saveAsSet} disabled={!setName.trim()}>
+                Save
+              </Button>
+            </Box>
+          </Box>
+
+          <Box sx={{ minWidth: 0 }}>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+              {getTemplateVariables(selectedId).map(name => (
+                <Chip
+                  key={name}
+                  label={`{{${name}}}`}
+                  size="small"
+                  variant="outlined"
+                  title={PROMPT_VARIABLE_DESCRIPTIONS[name]}
+                  onClick={() => insertVariable(name)}
+                />
+              ))}
+            </Box>
+            <TextField
+              fullWidth
+              multiline
+              minRows={10}
+              maxRows={18}
+              value={template}
+              onChange={(e) => updateTemplate(e.target.value)}
+              inputRef={inputRef}
+              InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.85rem' } }}
+            />
+            {unknownVariables.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                Not available in this prompt: {unknownVariables.map(name => `{{${name}}}`).join(', ')}. They will be sent as written.
+              </Alert>
+            )}
+            {!template.trim() && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                An empty template sends an empty prompt.
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', alignItems: 'center', mt: 2 }}>
+              <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>Preview</Typography>
+              <FormControlLabel
+                control={<Switch size="small" checked={previewFeedback} onChange={(e) => setPreviewFeedback(e.target.checked)} />}
+                label="With feedback"
+              />
+              <Button
+                size="small"
+                onClick={() => updateTemplate(defaultTemplate)}
+                disabled={template === defaultTemplate}
+              >
+                Reset to Default
+              </Button>
+            </Box>
+            <Box
+              sx={{
+                maxHeight: 260,
+                overflow: 'auto',
+                whiteSpace: 'pre-wrap',
+                fontFamily: 'monospace',
+                fontSize: '0.8rem',
+                border: '1px solid',
+                borderColor: 'divider',
+                borderRadius: 1,
+                p: 1.5,
+                backgroundColor: 'action.hover'
+              }}
+            >
+              {preview}
+            </Box>
+          </Box>
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button color="warning" onClick={() => setDraft(withDefaults(pipeline))}>
+          Reset All to Defaults
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => {
+            onSave(pruneDefaultTemplates(draft, pipeline));
+            onClose();
+          }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Box, Button, Collapse, Typography } from '@mui/material';
+import { Psychology as PsychologyIcon } from '@mui/icons-material';
+
+interface ReasoningPanelProps {
+  reasoning?: string;
+  isLive?: boolean; // Reasoning is still streaming in
+}
+
+// Collapsible view of a model's reasoning trace, kept apart from the generated text
+const ReasoningPanel: React.FC<ReasoningPanelProps> = ({ reasoning, isLive = false }) => {
+  const [open, setOpen] = useState(false);
+  const text = reasoning?.trim();
+  if (!text) return null;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Button
+        size="small"
+        startIcon={<PsychologyIcon />}
+        onClick={() => setOpen(!open)}
+        color="secondary"
+      >
+        {open ? 'Hide' : 'Show'} Model thinking ({text.split(/\s+/).length.toLocaleString()} words{isLive ? ', thinking...' : ''})
+      </Button>
+      <Collapse in={open}>
+        <Box
+          sx={{
+            maxHeight: '300px',
+            overflow: 'auto',
+            borderLeft: '3px solid',
+            borderColor: 'secondary.light',
+            pl: 2,
+            py: 1,
+            mt: 1,
+            backgroundColor: 'action.hover'
+          }}
+        >
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ whiteSpace: 'pre-wrap', fontStyle: 'italic', lineHeight: 1.5 }}
+          >
+            {text}
+          </Typography>
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default ReasoningPanel;
@@ -0,0 +1,30 @@
+import React, { useState, useEffect } from 'react';
+import { Alert } from '@mui/material';
+import { RetryStatus } from '../types';
+
+interface RetryCountdownProps {
+  status: RetryStatus;
+}
+
+// Shows how long until a rate-limited or failed request is retried
+const RetryCountdown: React.FC<RetryCountdownProps> = ({ status }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [status.resumeAt]);
+
+  const secondsLeft = Math.max(0, Math.ceil((status.resumeAt - now) / 1000));
+
+  return (
+    <Alert severity="warning" sx={{ mt: 2 }}>
+      {secondsLeft > 0
+        ? `Retrying in ${secondsLeft}s (retry ${status.attempt} of ${status.maxRetries}).`
+        : `Retrying now (retry ${status.attempt} of ${status.maxRetries})...`}
+      {' '}{status.reason}
+    </Alert>
+  );
+};
+
+export default RetryCountdown;
@@ -0,0 +1,188 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip
+} from '@mui/material';
+import { Restore as RestoreIcon } from '@mui/icons-material';
+import { Revision } from '../types';
+import { diffWords } from '../revisionUtils';
+import { countWords } from '../workflowUtils';
+
+interface RevisionHistoryProps {
+  open: boolean;
+  title: string;
+  revisions: Revision[];
+  currentContent: string;
+  onClose: () => void;
+  onRestore: (revisionId: string) => void;
+}
+
+const describeRevision = (revision: Revision, index: number): string =>
+  `#${index + 1} · ${new Date(revision.createdAt).toLocaleString()}`;
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  open,
+  title,
+  revisions,
+  currentContent,
+  onClose,
+  onRestore
+}) => {
+  const [baseId, setBaseId] = useState('');
+  const [compareId, setCompareId] = useState('');
+
+  // Default to comparing the two most recent revisions
+  useEffect(() => {
+    if (!open || revisions.length === 0) return;
+    const latest = revisions[revisions.length - 1];
+    const previous = revisions[revisions.length - 2] || latest;
+    setBaseId(previous.id);
+    setCompareId(latest.id);
+  }, [open, revisions]);
+
+  const base = revisions.find(revision => revision.id === baseId);
+  const compare = revisions.find(revision => revision.id === compareId);
+
+  const segments = useMemo(() => {
+    if (!open || !base || !compare) return [];
+    return diffWords(base.content, compare.content);
+  }, [open, base, compare]);
+
+  const renderRevisionSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <FormControl size="small" sx={{ minWidth: 240 }}>
+      <InputLabel>{label}</InputLabel>
+      <Select value={value} label={label} onChange={(e) => onChange(e.target.value)}>
+        {revisions.map((revision, index) => (
+          <MenuItem key={revision.id} value={revision.id}>
+            {describeRevision(revision, index)}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        Revision History — {title}
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Compare any two revisions and restore an earlier one as the current version
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        {revisions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No revisions recorded yet.
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <List dense sx={{ width: 280, flexShrink: 0, borderRight: '1px solid', borderColor: 'divider' }}>
+              {revisions.map((revision, index) => (
+                <ListItemButton
+                  key={revision.id}
+                  selected={revision.id === compareId}
+                  onClick={() => setCompareId(revision.id)}
+                >
+                  <ListItemText
+                    primary={
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {describeRevision(revision, index)}
+                        {revision.content === currentContent && (
+                          <Chip label="Current" size="small" color="success" />
+                        )}
+                      </Box>
+                    }
+                    secondary={
+                      <>
+                        {revision.model}
+                        {revision.temperature !== undefined ? ` · temp ${revision.temperature}` : ''}
+                        {` · ${countWords(revision.content).toLocaleString()} words`}
+                        {revision.feedback && (
+                          <Typography component="span" variant="caption" sx={{ display: 'block', fontStyle: 'italic' }}>
+                            Feedback: {revision.feedback}
+                          </Typography>
+                        )}
+                      </>
+                    }
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+
+            <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+              <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+                {renderRevisionSelect('Compare from', baseId, setBaseId)}
+                {renderRevisionSelect('Compare to', compareId, setCompareId)}
+              </Box>
+              <Box
+                sx={{
+                  maxHeight: '60vh',
+                  overflow: 'auto',
+                  border: '1px solid',
+                  borderColor: 'divider',
+                  borderRadius: 1,
+                  p: 2
+                }}
+              >
+                <Typography
+                  variant="body2"
+                  component="div"
+                  sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.6 }}
+                >
+                  {segments.map((segment, index) => (
+                    <Box
+                      key={index}
+                      component="span"
+                      sx={
+                        segment.type === 'added'
+                          ? { bgcolor: 'success.light', color: 'success.contrastText' }
+                          : segment.type === 'removed'
+                            ? { bgcolor: 'error.light', color: 'error.contrastText', textDecoration: 'line-through' }
+                            : undefined
+                      }
+                    >
+                      {segment.text}
+                    </Box>
+                  ))}
+                </Typography>
+              </Box>
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          startIcon={<RestoreIcon />}
+          disabled={!compare || compare.content === currentContent}
+          onClick={() => {
+            if (compare) {
+              onRestore(compare.id);
+              onClose();
+            }
+          }}
+        >
+          Restore Selected
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RevisionHistory;
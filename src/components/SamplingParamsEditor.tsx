@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch
+} from '@mui/material';
+import { SamplingParams, SamplingParamKey, OpenRouterRouting } from '../types';
+import { ProviderAdapter } from '../providers';
+import { SAMPLING_PARAM_LABELS, isOpenRouterUrl, parseStopSequences, formatStopSequences } from '../samplingParams';
+
+interface SamplingParamsEditorProps {
+  sampling: SamplingParams;
+  adapter: ProviderAdapter;
+  baseUrl: string;
+  errors: Partial<Record<SamplingParamKey, string>>;
+  title?: string;
+  description?: string;
+  onChange: (sampling: SamplingParams) => void;
+}
+
+type NumericParam = 'maxTokens' | 'topP' | 'frequencyPenalty' | 'presencePenalty' | 'seed' | 'minP' | 'repetitionPenalty';
+
+const NUMERIC_FIELDS: Array<{ key: NumericParam; step: number; hint: string }> = [
+  { key: 'maxTokens', step: 256, hint: 'Longest response allowed; raise it for long chapters' },
+  { key: 'topP', step: 0.05, hint: 'Nucleus sampling, 0 to 1' },
+  { key: 'frequencyPenalty', step: 0.1, hint: 'Discourage repeated tokens, -2 to 2' },
+  { key: 'presencePenalty', step: 0.1, hint: 'Encourage new topics, -2 to 2' },
+  { key: 'seed', step: 1, hint: 'Fixed seed for repeatable output, where supported' },
+  { key: 'minP', step: 0.01, hint: 'Minimum token probability relative to the top token, 0 to 1' },
+  { key: 'repetitionPenalty', step: 0.05, hint: 'Multiplicative repeat penalty, 0 to 2 (1 = off)' }
+];
+
+// Optional sampling parameters; fields the selected protocol cannot carry are disabled
+const SamplingParamsEditor: React.FC<SamplingParamsEditorProps> = ({
+  sampling,
+  adapter,
+  baseUrl,
+  errors,
+  title = 'Sampling Parameters',
+  description = 'Optional. Only the parameters you set are sent, on both streaming and regular requests.',
+  onChange
+}) => {
+  const [stopText, setStopText] = useState(formatStopSequences(sampling.stop));
+  const routing = sampling.openRouter || {};
+
+  const update = <K extends SamplingParamKey>(key: K, value: SamplingParams[K]) => {
+    const next = { ...sampling, [key]: value };
+    if (value === undefined) {
+      delete next[key];
+    }
+    onChange(next);
+  };
+
+  const updateRouting = (changes: Partial<OpenRouterRouting>) => {
+    const next: OpenRouterRouting = { ...routing, ...changes };
+    const isEmpty = !next.order?.length && next.allowFallbacks === undefined && !next.sort;
+    update('openRouter', isEmpty ? undefined : next);
+  };
+
+  const helperFor = (key: SamplingParamKey, hint: string) => {
+    if (errors[key]) return errors[key];
+    return adapter.supportedParams.includes(key) ? hint : `Not supported by the ${adapter.label} protocol`;
+  };
+
+  // Leave a field editable while it holds a value, so an unsupported value can be cleared
+  const isDisabled = (key: SamplingParamKey) =>
+    !adapter.supportedParams.includes(key) && sampling[key] === undefined;
+
+  return (
+    <Box>
+      <Typography variant="subtitle1">{title}</Typography>
+      <Typography variant="caption" color="text.secondary">
+        {description}
+      </Typography>
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mt: 2 }}>
+        {NUMERIC_FIELDS.map(({ key, step, hint }) => (
+          <TextField
+            key={key}
+            label={SAMPLING_PARAM_LABELS[key]}
+            type="number"
+            size="small"
+            value={sampling[key] ?? ''}
+            onChange={(e) => update(key, e.target.value === '' ? undefined : Number(e.target.value))}
+            error={!!errors[key]}
+            helperText={helperFor(key, hint)}
+            disabled={isDisabled(key)}
+            inputProps={{ step }}
+          />
+        ))}
+        <TextField
+          label={SAMPLING_PARAM_LABELS.stop}
+          multiline
+          minRows={2}
+          size="small"
+          value={stopText}
+          onChange={(e) => {
+            setStopText(e.target.value);
+            update('stop', parseStopSequences(e.target.value));
+          }}
+          error={!!errors.stop}
+          helperText={helperFor('stop', 'One per line; write \\n for a newline')}
+          disabled={isDisabled('stop')}
+        />
+      </Box>
+
+      {(isOpenRouterUrl(baseUrl) || sampling.openRouter) && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2">OpenRouter Provider Routing</Typography>
+          {errors.openRouter && (
+            <Typography variant="caption" color="error">{errors.openRouter}</Typography>
+          )}
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '2fr 1fr' }, gap: 2, mt: 1, alignItems: 'center' }}>
+            <TextField
+              label="Preferred Providers"
+              size="small"
+              value={(routing.order || []).join(', ')}
+              onChange={(e) => {
+                const order = e.target.value.split(',').map(slug => slug.trim()).filter(Boolean);
+                updateRouting({ order: order.length > 0 ? order : undefined });
+              }}
+              helperText="Provider slugs to try first, comma separated (e.g. anthropic, together)"
+            />
+            <FormControl size="small">
+              <InputLabel>Sort By</InputLabel>
+              <Select
+                value={routing.sort || ''}
+                onChange={(e) => updateRouting({ sort: (e.target.value || undefined) as OpenRouterRouting['sort'] })}
+                label="Sort By"
+              >
+                <MenuItem value="">Default</MenuItem>
+                <MenuItem value="price">Price</MenuItem>
+                <MenuItem value="throughput">Throughput</MenuItem>
+                <MenuItem value="latency">Latency</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={routing.allowFallbacks ?? true}
+                onChange={(e) => updateRouting({ allowFallbacks: e.target.checked ? undefined : false })}
+              />
+            }
+            label="Fall back to other providers"
+          />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default SamplingParamsEditor;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Box,
   Paper,
@@ -15,16 +15,27 @@ import {
   Collapse
 } from '@mui/material';
 import {
-  Feedback as FeedbackIcon
+  Feedback as FeedbackIcon,
+  History as HistoryIcon,
+  Notes as NotesIcon
 } from '@mui/icons-material';
-import { WORKFLOW_STEPS, WorkflowStep, Chapter } from '../types';
+import { WorkflowStep, Chapter, ChapterOutline, RetryStatus, WorkflowPipeline } from '../types';
 import WorkflowStepComponent from './WorkflowStep';
+import RevisionHistory from './RevisionHistory';
+import { CHAPTER_MAX_ATTEMPTS, CHAPTER_WORD_TARGET, countWords } from '../workflowUtils';
+import { getChapterStepId, getPipelineStep } from '../pipelines';
+import ManuscriptView from './ManuscriptView';
+import RetryCountdown from './RetryCountdown';
+import ReasoningPanel from './ReasoningPanel';
+import ChapterOutlineEditor from './ChapterOutlineEditor';
 
 interface StepNavigationProps {
   currentStep: number;
+  pipeline: WorkflowPipeline;
   steps: WorkflowStep[];
   chapters: Chapter[];
   onProcessStep: (stepId: number) => void;
+  onSkipStep?: (stepId: number) => void;
   onAdvanceStep: () => void;
   onFeedback: (stepId: number, feedback: string) => void;
   onCancel?: () => void;
@@ -34,13 +45,21 @@ interface StepNavigationProps {
   showFeedback: boolean;
   onToggleFeedback: () => void;
   chapterWordTarget?: number;
+  chapterMaxAttempts?: number;
+  retryStatus?: RetryStatus;
+  onRestoreRevision?: (id: number, revisionId: string) => void;
+  onUpdateChapterSummary?: (chapterId: number, summary: string) => void;
+  onGenerateChapterSummary?: (chapterId: number) => void;
+  onUpdateChapterOutline?: (chapterId: number, outline: ChapterOutline) => void;
 }
 
 const StepNavigation: React.FC<StepNavigationProps> = ({
   currentStep,
+  pipeline,
   steps,
   chapters,
   onProcessStep,
+  onSkipStep,
   onAdvanceStep,
   onFeedback,
   onCancel,
@@ -49,10 +68,35 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
   isStreaming,
   showFeedback,
   onToggleFeedback,
-  chapterWordTarget
+  chapterWordTarget,
+  chapterMaxAttempts = CHAPTER_MAX_ATTEMPTS,
+  retryStatus,
+  onRestoreRevision,
+  onUpdateChapterSummary,
+  onGenerateChapterSummary,
+  onUpdateChapterOutline
 }) => {
   const [chapterFeedbackStates, setChapterFeedbackStates] = useState<Record<number, boolean>>({});
   const [chapterFeedbackValues, setChapterFeedbackValues] = useState<Record<number, string>>({});
+  const [historyChapterId, setHistoryChapterId] = useState<number | null>(null);
+  const [summaryChapterId, setSummaryChapterId] = useState<number | null>(null);
+  const [summaryDraft, setSummaryDraft] = useState('');
+  const openSummary = chapters.find(chapter => chapter.id === summaryChapterId)?.summary;
+
+  // Show a freshly generated summary in the open editor
+  useEffect(() => {
+    setSummaryDraft(openSummary || '');
+  }, [openSummary]);
+  const historyChapter = chapters.find(chapter => chapter.id === historyChapterId);
+
+  const toggleChapterSummary = (chapter: Chapter) => {
+    if (summaryChapterId === chapter.id) {
+      setSummaryChapterId(null);
+    } else {
+      setSummaryChapterId(chapter.id);
+      setSummaryDraft(chapter.summary || '');
+    }
+  };
 
   const toggleChapterFeedback = (chapterId: number) => {
     setChapterFeedbackStates(prev => ({
@@ -107,7 +151,7 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
     if (!step) return null;
 
     // Special handling for chapter writing step
-    if (step.id === 6) {
+    if (step.id === getChapterStepId(pipeline)) {
       return (
         <Box>
           <Typography variant="body2" paragraph>
@@ -120,6 +164,9 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
                   <Typography variant="h6" sx={{ flexGrow: 1 }}>
                     Chapter {chapter.id}
                   </Typography>
+                  {chapter.completed && chapter.model && (
+                    <Chip label={chapter.model} size="small" variant="outlined" sx={{ mr: 1 }} />
+                  )}
                   {chapter.completed && (
                     <Chip
                       label={`${chapter.wordCount.toLocaleString()} words`}
@@ -128,14 +175,25 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
                     />
                   )}
                 </Box>
+                {onUpdateChapterOutline && (
+                  <ChapterOutlineEditor
+                    outline={chapter.outline}
+                    disabled={chapter.isProcessing || isProcessing}
+                    onSave={(outline) => onUpdateChapterOutline(chapter.id, outline)}
+                  />
+                )}
                 {chapter.isProcessing && (
                   <Box sx={{ mb: 2 }}>
                     <LinearProgress />
                     <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-                      Writing chapter...
+                      {chapter.attempt && chapter.attempt > 1
+                        ? `Chapter is short of its target, continuing (attempt ${chapter.attempt} of ${chapterMaxAttempts}${isStreaming && streamingContent ? `, ${countWords(streamingContent).toLocaleString()} / ${(chapterWordTarget || CHAPTER_WORD_TARGET).toLocaleString()} words` : ''})...`
+                        : 'Writing chapter...'}
                     </Typography>
+                    {retryStatus && <RetryCountdown status={retryStatus} />}
                   </Box>
                 )}
+                <ReasoningPanel reasoning={chapter.reasoning} isLive={chapter.isProcessing} />
                 {/* Show streaming content if chapter is being processed */}
                 {chapter.isProcessing && isStreaming && streamingContent && (
                   <Box
@@ -168,7 +226,7 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
                 {chapter.content && !chapter.isProcessing && (
                   <Box
                     sx={{
-                      maxHeight: '300px',
+                      maxHeight: '400px',
                       overflow: 'auto',
                       border: '1px solid',
                       borderColor: 'divider',
@@ -178,17 +236,7 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
                       backgroundColor: 'background.paper'
                     }}
                   >
-                    <Typography
-                      variant="body2"
-                      sx={{
-                        whiteSpace: 'pre-wrap',
-                        fontFamily: 'monospace',
-                        fontSize: '0.875rem',
-                        lineHeight: 1.5
-                      }}
-                    >
-                      {chapter.content}
-                    </Typography>
+                    <ManuscriptView content={chapter.content} />
                   </Box>
                 )}
                 <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
@@ -220,8 +268,79 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
                       Feedback
                     </Button>
                   )}
+                  {onRestoreRevision && (chapter.revisions?.length || 0) > 0 && (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<HistoryIcon />}
+                      onClick={() => setHistoryChapterId(chapter.id)}
+                      disabled={chapter.isProcessing || isProcessing}
+                    >
+                      History ({chapter.revisions?.length})
+                    </Button>
+                  )}
+                  {onUpdateChapterSummary && chapter.completed && (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<NotesIcon />}
+                      onClick={() => toggleChapterSummary(chapter)}
+                    >
+                      {chapter.summary ? 'Summary' : 'No Summary'}
+                    </Button>
+                  )}
                 </Box>
 
+                {/* Chapter Summary Section */}
+                {onUpdateChapterSummary && chapter.completed && (
+                  <Collapse in={summaryChapterId === chapter.id}>
+                    <Box sx={{ mt: 2, p: 2, bgcolor: 'background.paper', borderRadius: 1 }}>
+                      <Typography variant="body2" gutterBottom>
+                        Used in place of the full chapter when later prompts would exceed the model's context window:
+                      </Typography>
+                      <TextField
+                        fullWidth
+                        multiline
+                        rows={5}
+                        placeholder="No summary yet. One is generated automatically when it is first needed."
+                        value={summaryChapterId === chapter.id ? summaryDraft : chapter.summary || ''}
+                        onChange={(e) => setSummaryDraft(e.target.value)}
+                        sx={{ mb: 1 }}
+                      />
+                      <Box sx={{ display: 'flex', gap: 1 }}>
+                        <Button
+                          size="small"
+                          variant="contained"
+                          onClick={() => {
+                            onUpdateChapterSummary(chapter.id, summaryDraft);
+                            setSummaryChapterId(null);
+                          }}
+                          disabled={summaryDraft === (chapter.summary || '')}
+                        >
+                          Save Summary
+                        </Button>
+                        {onGenerateChapterSummary && (
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            onClick={() => onGenerateChapterSummary(chapter.id)}
+                            disabled={isProcessing}
+                          >
+                            {chapter.summary ? 'Regenerate' : 'Generate'}
+                          </Button>
+                        )}
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          onClick={() => setSummaryChapterId(null)}
+                        >
+                          Cancel
+                        </Button>
+                      </Box>
+                    </Box>
+                  </Collapse>
+                )}
+
                 {/* Chapter Feedback Section */}
                 {chapter.completed && (
                   <Collapse in={chapterFeedbackStates[chapter.id] || false}>
@@ -261,6 +380,16 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
               </Paper>
             ))}
           </Box>
+          {onRestoreRevision && historyChapter && (
+            <RevisionHistory
+              open={!!historyChapter}
+              title={`Chapter ${historyChapter.id}`}
+              revisions={historyChapter.revisions || []}
+              currentContent={historyChapter.content}
+              onClose={() => setHistoryChapterId(null)}
+              onRestore={(revisionId) => onRestoreRevision(historyChapter.id, revisionId)}
+            />
+          )}
         </Box>
       );
     }
@@ -269,6 +398,7 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
       <WorkflowStepComponent
         step={step}
         onProcessStep={onProcessStep}
+        onSkipStep={getPipelineStep(pipeline, step.id)?.optional ? onSkipStep : undefined}
         onAdvanceStep={canAdvance(stepIndex) ? onAdvanceStep : undefined}
         onFeedback={onFeedback}
         onCancel={onCancel}
@@ -278,6 +408,8 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
         isStreaming={isStreaming}
         showFeedback={showFeedback}
         onToggleFeedback={onToggleFeedback}
+        onRestoreRevision={onRestoreRevision}
+        retryStatus={step.isProcessing ? retryStatus : undefined}
       />
     );
   };
@@ -304,12 +436,11 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
       </Paper>
 
       <Stepper activeStep={currentStep} orientation="vertical">
-        {WORKFLOW_STEPS.map((stepInfo, index) => {
-          const step = steps[index];
+        {steps.map((step, index) => {
           const status = getStepStatus(index);
 
           return (
-            <Step key={stepInfo.id} completed={status === 'completed'}>
+            <Step key={step.id} completed={status === 'completed'}>
               <StepLabel
                 icon={
                   status === 'completed' ? '✓' :
@@ -319,12 +450,15 @@ const StepNavigation: React.FC<StepNavigationProps> = ({
               >
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                   <Typography variant="h6">
-                    {stepInfo.name}
+                    {step.name}
                   </Typography>
-                  {step?.completed && (
+                  {getPipelineStep(pipeline, step.id)?.optional && !step.completed && (
+                    <Chip label="Optional" size="small" variant="outlined" />
+                  )}
+                  {step.completed && (
                     <Chip
-                      label="Complete"
-                      color="success"
+                      label={step.skipped ? 'Skipped' : 'Complete'}
+                      color={step.skipped ? 'default' : 'success'}
                       size="small"
                     />
                   )}
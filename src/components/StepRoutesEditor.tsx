@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Autocomplete,
+  Button,
+  Collapse
+} from '@mui/material';
+import { Tune as TuneIcon } from '@mui/icons-material';
+import { ModelRoute, SamplingParams, WorkflowPipeline } from '../types';
+import { createPipelineSteps } from '../pipelines';
+import { ProviderAdapter } from '../providers';
+import { validateSamplingParams } from '../samplingParams';
+import SamplingParamsEditor from './SamplingParamsEditor';
+
+interface StepRoutesEditorProps {
+  pipeline: WorkflowPipeline;
+  routes: Record<number, ModelRoute>;
+  defaultModel: string;
+  defaultTemperature?: number;
+  modelOptions: string[];
+  adapter: ProviderAdapter;
+  baseUrl: string;
+  errors: Record<string, string>;
+  onChange: (routes: Record<number, ModelRoute>) => void;
+}
+
+// Per-step model, temperature and sampling overrides; blank fields fall back to the defaults above
+const StepRoutesEditor: React.FC<StepRoutesEditorProps> = ({
+  pipeline,
+  routes,
+  defaultModel,
+  defaultTemperature,
+  modelOptions,
+  adapter,
+  baseUrl,
+  errors,
+  onChange
+}) => {
+  const [expandedStepId, setExpandedStepId] = useState<number | null>(null);
+
+  const updateRoute = (stepId: number, changes: Partial<ModelRoute>) => {
+    const route = { ...routes[stepId], ...changes };
+    if (route.sampling && Object.keys(route.sampling).length === 0) {
+      delete route.sampling;
+    }
+    const next = { ...routes };
+    if (!route.model && route.temperature === undefined && !route.sampling) {
+      delete next[stepId];
+    } else {
+      next[stepId] = route;
+    }
+    onChange(next);
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle1">Per-Step Models</Typography>
+      <Typography variant="caption" color="text.secondary">
+        Route individual steps to a different model, temperature or sampling, e.g. a reasoning model for the critique and a strong prose model with more max tokens for chapters. Leave blank to use the defaults.
+      </Typography>
+      <Table size="small" sx={{ mt: 1 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Step</TableCell>
+            <TableCell>Model</TableCell>
+            <TableCell sx={{ width: 140 }}>Temperature</TableCell>
+            <TableCell sx={{ width: 140 }}>Sampling</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {createPipelineSteps(pipeline).map(step => {
+            const sampling: SamplingParams = routes[step.id]?.sampling || {};
+            const overrides = Object.keys(sampling).length;
+            const samplingErrors = validateSamplingParams(sampling, adapter, baseUrl);
+            return (
+              <React.Fragment key={step.id}>
+                <TableRow>
+                  <TableCell>{step.name}</TableCell>
+                  <TableCell>
+                    <Autocomplete
+                      freeSolo
+                      size="small"
+                      options={modelOptions}
+                      value={routes[step.id]?.model || ''}
+                      onInputChange={(_event, value) => updateRoute(step.id, { model: value.trim() || undefined })}
+                      renderInput={(params) => (
+                        <TextField {...params} placeholder={`Default (${defaultModel})`} />
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={routes[step.id]?.temperature ?? ''}
+                      onChange={(e) => updateRoute(step.id, { temperature: e.target.value ? parseFloat(e.target.value) : undefined })}
+                      placeholder={defaultTemperature !== undefined ? String(defaultTemperature) : 'Default'}
+                      error={!!errors[`route-${step.id}`]}
+                      helperText={errors[`route-${step.id}`]}
+                      inputProps={{ min: 0, max: 2, step: 0.1 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="small"
+                      startIcon={<TuneIcon />}
+                      color={Object.keys(samplingErrors).length > 0 ? 'error' : 'primary'}
+                      onClick={() => setExpandedStepId(expandedStepId === step.id ? null : step.id)}
+                    >
+                      {overrides > 0 ? `${overrides} set` : 'Default'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell colSpan={4} sx={{ py: 0, borderBottom: expandedStepId === step.id ? undefined : 'none' }}>
+                    <Collapse in={expandedStepId === step.id} unmountOnExit>
+                      <Box sx={{ py: 2 }}>
+                        <SamplingParamsEditor
+                          sampling={sampling}
+                          adapter={adapter}
+                          baseUrl={baseUrl}
+                          errors={samplingErrors}
+                          title={`Sampling for ${step.name}`}
+                          description="Parameters set here replace the default of the same name for this step only."
+                          onChange={(next) => updateRoute(step.id, { sampling: next })}
+                        />
+                      </Box>
+                    </Collapse>
+                  </TableCell>
+                </TableRow>
+              </React.Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default StepRoutesEditor;
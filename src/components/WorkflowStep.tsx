@@ -18,13 +18,19 @@ import {
   CheckCircle as CheckCircleIcon,
   PlayArrow as PlayArrowIcon,
   SkipNext as SkipNextIcon,
-  Stop as StopIcon
+  Stop as StopIcon,
+  History as HistoryIcon,
+  Redo as RedoIcon
 } from '@mui/icons-material';
-import { WorkflowStep as WorkflowStepType } from '../types';
+import { WorkflowStep as WorkflowStepType, RetryStatus } from '../types';
+import RevisionHistory from './RevisionHistory';
+import RetryCountdown from './RetryCountdown';
+import ReasoningPanel from './ReasoningPanel';
 
 interface WorkflowStepProps {
   step: WorkflowStepType;
   onProcessStep?: (stepId: number) => void;
+  onSkipStep?: (stepId: number) => void;
   onAdvanceStep?: () => void;
   onFeedback?: (stepId: number, feedback: string) => void;
   onCancel?: () => void;
@@ -34,11 +40,14 @@ interface WorkflowStepProps {
   isStreaming?: boolean;
   showFeedback?: boolean;
   onToggleFeedback?: () => void;
+  onRestoreRevision?: (stepId: number, revisionId: string) => void;
+  retryStatus?: RetryStatus;
 }
 
 const WorkflowStep: React.FC<WorkflowStepProps> = ({
   step,
   onProcessStep,
+  onSkipStep,
   onAdvanceStep,
   onFeedback,
   onCancel,
@@ -47,9 +56,13 @@ const WorkflowStep: React.FC<WorkflowStepProps> = ({
   streamingContent = '',
   isStreaming = false,
   showFeedback = false,
-  onToggleFeedback
+  onToggleFeedback,
+  onRestoreRevision,
+  retryStatus
 }) => {
   const [feedback, setFeedback] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const revisions = step.revisions || [];
 
   const handleFeedbackSubmit = () => {
     if (feedback.trim() && onFeedback) {
@@ -105,17 +118,21 @@ const WorkflowStep: React.FC<WorkflowStepProps> = ({
           <Typography variant="h5" component="h5" sx={{ flexGrow: 1 }}>
             {step.name}
           </Typography>
+          {step.completed && step.model && (
+            <Chip label={step.model} size="small" variant="outlined" sx={{ mr: 1 }} />
+          )}
           {step.completed && (
             <Chip
               icon={<CheckCircleIcon />}
-              label="Completed"
-              color="success"
+              label={step.skipped ? 'Skipped' : 'Completed'}
+              color={step.skipped ? 'default' : 'success'}
               variant="outlined"
             />
           )}
         </Box>
 
         <Box sx={{ mb: 2 }}>
+          <ReasoningPanel reasoning={step.reasoning} isLive={step.isProcessing} />
           {isStreaming && (
             <Box sx={{ mb: 2, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
               <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
@@ -125,6 +142,7 @@ const WorkflowStep: React.FC<WorkflowStepProps> = ({
             </Box>
           )}
           {!isStreaming && step.content && formatContent(step.content)}
+          {retryStatus && <RetryCountdown status={retryStatus} />}
           {step.isProcessing && !isStreaming && (
             <Box sx={{ mt: 2 }}>
               <LinearProgress />
@@ -160,6 +178,28 @@ const WorkflowStep: React.FC<WorkflowStepProps> = ({
             </Button>
           )}
 
+          {onSkipStep && !step.completed && (
+            <Button
+              startIcon={<RedoIcon />}
+              onClick={() => onSkipStep(step.id)}
+              disabled={isProcessing}
+              size="small"
+            >
+              Skip Step
+            </Button>
+          )}
+
+          {onRestoreRevision && revisions.length > 0 && (
+            <Button
+              startIcon={<HistoryIcon />}
+              onClick={() => setShowHistory(true)}
+              disabled={isProcessing}
+              size="small"
+            >
+              History ({revisions.length})
+            </Button>
+          )}
+
           {isProcessing && onCancel && (
             <Button
               startIcon={<StopIcon />}
@@ -226,6 +266,17 @@ const WorkflowStep: React.FC<WorkflowStepProps> = ({
           </Box>
         </Collapse>
       )}
+
+      {onRestoreRevision && (
+        <RevisionHistory
+          open={showHistory}
+          title={step.name}
+          revisions={revisions}
+          currentContent={step.content}
+          onClose={() => setShowHistory(false)}
+          onRestore={(revisionId) => onRestoreRevision(step.id, revisionId)}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,88 @@
+import { estimateMessageTokens, fitMessagesToContext, getContextLength, getPromptBudget, DEFAULT_CONTEXT_LENGTH } from './contextUtils';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+import { Message } from './types';
+
+// Roughly 1,000 tokens each
+const text = (label: string) => `${label} `.repeat(Math.ceil(4000 / (label.length + 1)));
+
+const steps = createPipelineSteps(CLASSIC_PIPELINE).map(step => (
+  step.id < 6 ? { ...step, content: text(`Step${step.id}`), completed: true } : step
+));
+const finalPlan = steps[3];
+const chapters = createInitialChapters(3).map(chapter => ({
+  ...chapter,
+  content: text(`Chapter${chapter.id}`),
+  completed: true,
+  summary: chapter.id === 1 ? 'Mara came home.' : undefined
+}));
+
+const messages: Message[] = [
+  { role: 'system', content: 'You are a novelist.' },
+  ...steps.filter(step => step.completed).flatMap(step => [
+    { role: 'user' as const, content: `Prompt ${step.id}` },
+    { role: 'assistant' as const, content: step.content, stepId: step.id }
+  ]),
+  ...chapters.flatMap(chapter => [
+    { role: 'user' as const, content: `Write Chapter ${chapter.id}` },
+    { role: 'assistant' as const, content: chapter.content, chapterId: chapter.id }
+  ]),
+  { role: 'user', content: 'Write Chapter 4' }
+];
+const fullTokens = estimateMessageTokens(messages);
+
+test('a conversation that fits is left alone', () => {
+  const plan = fitMessagesToContext(messages, [finalPlan], chapters, fullTokens);
+  expect(plan).toEqual({ messages, summarizedChapterIds: [], droppedMessages: 0, estimatedTokens: fullTokens, fits: true });
+});
+
+test('older chapters are summarized first, oldest first, and the latest chapter is kept', () => {
+  const plan = fitMessagesToContext(messages, [finalPlan], chapters, fullTokens - 1500);
+  expect(plan.summarizedChapterIds).toEqual([1, 2]);
+  expect(plan.droppedMessages).toBe(0);
+  expect(plan.fits).toBe(true);
+
+  const contents = plan.messages.map(message => message.content);
+  expect(contents).toContain('[Summary of Chapter 1; the full text is omitted to fit the context window]\nMara came home.');
+  expect(contents).toContain('[Summary of Chapter 2; the full text is omitted to fit the context window]\n(summary pending)');
+  expect(contents).toContain(chapters[2].content);
+});
+
+test('pinned steps, the system prompt and the request survive every other cut', () => {
+  const plan = fitMessagesToContext(messages, [finalPlan], chapters, 1000);
+  expect(plan.fits).toBe(false);
+  expect(plan.summarizedChapterIds).toEqual([1, 2, 3]);
+  expect(plan.messages[0]).toEqual(messages[0]);
+  // With the planning prompts gone the pinned plan would open the conversation, which stricter APIs reject
+  expect(plan.messages[1]).toMatchObject({ role: 'user' });
+  expect(plan.messages[2]).toEqual(messages[8]);
+  expect(plan.messages[plan.messages.length - 1]).toEqual({ role: 'user', content: 'Write Chapter 4' });
+  expect(plan.messages.map(message => message.content)).toContain(finalPlan.content);
+  // The five planning prompts, the four unpinned responses and the three chapter prompts are dropped
+  expect(plan.messages.some(message => message.content === steps[0].content)).toBe(false);
+  expect(plan.droppedMessages).toBe(12);
+});
+
+test('chapters are found by the link on their message, not by their text', () => {
+  // Chapter 1 was edited after it was written, so its text no longer matches the conversation
+  const edited = chapters.map(chapter => (chapter.id === 1 ? { ...chapter, content: 'Edited by hand.' } : chapter));
+  expect(fitMessagesToContext(messages, [finalPlan], edited, fullTokens - 1500).summarizedChapterIds).toEqual([1, 2]);
+
+  // Responses that only repeat a chapter's text are not that chapter
+  const unlinked = messages.map(({ chapterId, ...message }) => message);
+  expect(fitMessagesToContext(unlinked, [finalPlan], chapters, fullTokens - 1500).summarizedChapterIds).toEqual([]);
+});
+
+test('context lengths come from the model name and prompt budgets leave room for the chapter', () => {
+  expect(getContextLength('anthropic/claude-3.5-sonnet')).toBe(200000);
+  expect(getContextLength('openai/gpt-4o-mini')).toBe(128000);
+  expect(getContextLength('openai/gpt-4')).toBe(8192);
+  expect(getContextLength('meta-llama/llama-3.3-70b-instruct')).toBe(128000);
+  expect(getContextLength('some/unknown-model')).toBe(DEFAULT_CONTEXT_LENGTH);
+  expect(getContextLength('openai/gpt-4', 32000)).toBe(32000);
+
+  expect(getPromptBudget(128000, 3000)).toBe(128000 - 4700);
+  expect(getPromptBudget(128000, 3000, 16000)).toBe(112000);
+  // Never more than half the window is held back
+  expect(getPromptBudget(8192, 10000)).toBe(4096);
+});
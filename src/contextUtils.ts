@@ -0,0 +1,149 @@
+import { Message, WorkflowStep, Chapter } from './types';
+
+// Context windows (in tokens) for common model families, matched against the model id in order
+const KNOWN_CONTEXT_LENGTHS: Array<[RegExp, number]> = [
+  [/claude/i, 200000],
+  [/gemini-(1\.5|2)/i, 1000000],
+  [/gemini/i, 32768],
+  [/gpt-4\.1/i, 1000000],
+  [/gpt-5/i, 400000],
+  [/gpt-4o|gpt-4-turbo|(^|\/)o[134](-|$)/i, 128000],
+  [/gpt-4/i, 8192],
+  [/gpt-3\.5/i, 16385],
+  [/deepseek/i, 64000],
+  [/llama-?3\.[1-3]/i, 128000],
+  [/llama-?3/i, 8192],
+  [/llama-?2/i, 4096],
+  [/qwen/i, 32768],
+  [/mistral|mixtral/i, 32000]
+];
+
+export const DEFAULT_CONTEXT_LENGTH = 32768;
+
+// Rough output allowance per word of chapter prose, plus headroom for formatting
+const TOKENS_PER_WORD = 1.4;
+const OUTPUT_HEADROOM_TOKENS = 500;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function getContextLength(model: string, override?: number): number {
+  if (override && override > 0) return override;
+  const match = KNOWN_CONTEXT_LENGTHS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_LENGTH;
+}
+
+// Roughly four characters per token for English prose
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+// Tokens available for the prompt once room is left for a chapter of the target length (or maxTokens when set)
+export function getPromptBudget(contextLength: number, wordTarget: number, maxTokens?: number): number {
+  const expected = maxTokens || Math.ceil(wordTarget * TOKENS_PER_WORD) + OUTPUT_HEADROOM_TOKENS;
+  const reserved = Math.min(expected, Math.floor(contextLength / 2));
+  return contextLength - reserved;
+}
+
+export function buildChapterSummaryPrompt(chapterId: number, content: string): string {
+  return `Summarize Chapter ${chapterId} below so it can stand in for the full text when writing later chapters.
+- Cover every plot event in order, who was involved, where it happened and how it ended.
+- Note changes to characters' situations, relationships, knowledge and emotional state, plus any open threads, promises or foreshadowing.
+- Write in the past tense in at most 250 words. Output only the summary.
+
+--- CHAPTER ${chapterId} ---
+${content}`;
+}
+
+export function formatChapterSummary(chapterId: number, summary: string): string {
+  return `[Summary of Chapter ${chapterId}; the full text is omitted to fit the context window]\n${summary}`;
+}
+
+export interface ContextPlan {
+  messages: Message[];
+  summarizedChapterIds: number[];
+  droppedMessages: number;
+  estimatedTokens: number;
+  fits: boolean;
+}
+
+type MessageKind = 'pinned' | 'chapter' | 'planning';
+
+// Stands in for the dropped opening of the conversation, since stricter APIs require it to start with a user turn
+const OMITTED_HISTORY_TURN = '[The earlier conversation is omitted to fit the context window]';
+
+/**
+ * Shrink a conversation to fit a token budget without touching the stored history.
+ * Older chapters are replaced by their summaries first, then early planning responses
+ * and feedback are dropped, and only then is the latest chapter summarized. The system
+ * prompt, the pinned planning steps (such as the final plan and character sheets) and the
+ * new request are always kept. Steps and chapters are found through the links on their messages.
+ * Chapters without a summary are reported in summarizedChapterIds so callers can generate one.
+ */
+export function fitMessagesToContext(
+  messages: Message[],
+  pinnedSteps: WorkflowStep[],
+  chapters: Chapter[],
+  budgetTokens: number
+): ContextPlan {
+  const pinnedStepIds = new Set(pinnedSteps.map(step => step.id));
+  const chapterById = new Map(chapters.map(chapter => [chapter.id, chapter] as const));
+
+  const kinds: MessageKind[] = messages.map((message, index) => {
+    if (message.role === 'system' || index === messages.length - 1) return 'pinned';
+    if (message.role !== 'assistant') return 'planning';
+    if (message.stepId !== undefined && pinnedStepIds.has(message.stepId)) return 'pinned';
+    if (message.chapterId !== undefined && chapterById.has(message.chapterId)) return 'chapter';
+    return 'planning';
+  });
+
+  const working: Array<Message | null> = [...messages];
+  const summarizedChapterIds: number[] = [];
+  let droppedMessages = 0;
+  const currentTokens = () => estimateMessageTokens(working.filter((message): message is Message => message !== null));
+
+  const summarizeAt = (index: number) => {
+    const chapter = chapterById.get(messages[index].chapterId!)!;
+    summarizedChapterIds.push(chapter.id);
+    working[index] = {
+      role: 'assistant',
+      content: formatChapterSummary(chapter.id, chapter.summary || '(summary pending)'),
+      chapterId: chapter.id
+    };
+  };
+
+  const chapterIndexes = kinds.map((kind, index) => kind === 'chapter' ? index : -1).filter(index => index !== -1);
+  const latestChapterIndex = chapterIndexes[chapterIndexes.length - 1];
+
+  for (const index of chapterIndexes) {
+    if (currentTokens() <= budgetTokens) break;
+    if (index !== latestChapterIndex) summarizeAt(index);
+  }
+
+  for (let index = 0; index < messages.length && currentTokens() > budgetTokens; index++) {
+    if (kinds[index] === 'planning') {
+      working[index] = null;
+      droppedMessages++;
+    }
+  }
+
+  if (currentTokens() > budgetTokens && latestChapterIndex !== undefined) {
+    summarizeAt(latestChapterIndex);
+  }
+
+  const fitted = working.filter((message): message is Message => message !== null);
+  const firstTurn = fitted.findIndex(message => message.role !== 'system');
+  if (firstTurn !== -1 && fitted[firstTurn].role === 'assistant') {
+    fitted.splice(firstTurn, 0, { role: 'user', content: OMITTED_HISTORY_TURN });
+  }
+  const estimatedTokens = estimateMessageTokens(fitted);
+  return {
+    messages: fitted,
+    summarizedChapterIds,
+    droppedMessages,
+    estimatedTokens,
+    fits: estimatedTokens <= budgetTokens
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * IndexedDB Utility
+ * Opens the shared application database and wraps IDB requests in promises
+ */
+
+const DB_NAME = 'ai_story_author';
+const DB_VERSION = 3;
+
+// Object store names
+export const PROJECT_STORE = 'projects';
+export const SESSION_STORE = 'session';
+export const CACHE_STORE = 'responseCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Check if IndexedDB is available in this environment
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// Open (and upgrade if needed) the application database
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          const store = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          const store = db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+          store.createIndex('lastAccessedAt', 'lastAccessedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+// Convert an IDBRequest into a promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run a callback against a single object store inside a transaction
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  // Wait for the transaction to commit before resolving
+  const [result] = await Promise.all([
+    requestToPromise(callback(transaction.objectStore(storeName))),
+    completed
+  ]);
+  return result;
+}
@@ -0,0 +1,52 @@
+import JSZip from 'jszip';
+import { buildDocx, roundManuscriptWordCount } from './docxExport';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+import { ExportOptions } from './types';
+
+const steps = createPipelineSteps(CLASSIC_PIPELINE).map(step => (
+  step.id === 5 ? { ...step, content: 'Keep the storm for the end.', completed: true } : step
+));
+const chapters = createInitialChapters(3).map(chapter => (
+  chapter.id === 3
+    ? chapter
+    : { ...chapter, content: `Chapter ${chapter.id}\n\nShe **ran**.\n\n* * *\n\nThen she stopped.`, completed: true, wordCount: 3700 }
+));
+const options: ExportOptions = { title: 'The Salt Road', author: 'Ada M. Lovelace', language: 'en', includePlanning: false };
+
+const readDocx = async (overrides: Partial<ExportOptions> = {}) => {
+  const zip = await JSZip.loadAsync(await buildDocx({ steps, chapters }, { ...options, ...overrides }));
+  const read = (path: string) => zip.file(path)!.async('string');
+  return { document: await read('word/document.xml'), header: await read('word/header1.xml'), styles: await read('word/styles.xml') };
+};
+
+test('manuscript word counts are rounded the way title pages expect', () => {
+  expect(roundManuscriptWordCount(30)).toBe(100);
+  expect(roundManuscriptWordCount(740)).toBe(700);
+  expect(roundManuscriptWordCount(7349)).toBe(7300);
+  expect(roundManuscriptWordCount(84600)).toBe(85000);
+});
+
+test('the manuscript has a title page, a running header and one page-broken section per chapter', async () => {
+  const { document, header, styles } = await readDocx();
+
+  expect(document).toContain('Ada M. Lovelace</w:t></w:r><w:r><w:tab/></w:r>');
+  expect(document).toContain('about 7,400 words');
+  expect(document).toContain('by Ada M. Lovelace');
+  expect(header).toContain('Lovelace / SALT ROAD / ');
+  expect(header).toContain(' PAGE ');
+  expect(styles).toContain('w:ascii="Times New Roman"');
+
+  expect(document.match(/<w:pageBreakBefore\/>/g)).toHaveLength(2);
+  expect(document).toContain('<w:rPr><w:b/></w:rPr><w:t xml:space="preserve">ran</w:t>');
+  expect(document).toContain('<w:t xml:space="preserve">#</w:t>');
+  expect(document).toContain('<w:t xml:space="preserve">END</w:t>');
+  expect(document).not.toContain('Appendix');
+});
+
+test('planning notes follow the manuscript only when asked for, in the chosen font', async () => {
+  const { document, styles } = await readDocx({ includePlanning: true, manuscriptFont: 'courier' });
+  expect(document.indexOf('Appendix: Planning Notes')).toBeGreaterThan(document.indexOf('>END<'));
+  expect(document).toContain('Keep the storm for the end.');
+  expect(styles).toContain('w:ascii="Courier New"');
+});
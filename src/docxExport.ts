@@ -0,0 +1,256 @@
+/**
+ * DOCX Export
+ * Builds a Word document in standard (Shunn) manuscript format entirely in the browser
+ */
+
+import JSZip from 'jszip';
+import { Chapter, WorkflowStep, ExportOptions } from './types';
+import {
+  escapeXml,
+  stripChapterHeading,
+  parseManuscriptBlocks,
+  parseInlineMarkdown,
+  getChapterTitle,
+  getWrittenChapters,
+  getPlanningSteps
+} from './manuscriptUtils';
+
+export interface DocxContent {
+  steps: WorkflowStep[];
+  chapters: Chapter[];
+}
+
+const FONTS = {
+  times: 'Times New Roman',
+  courier: 'Courier New'
+} as const;
+
+// Word measures in twentieths of a point (twips); 1 inch = 1440
+const INCH = 1440;
+const DOUBLE_SPACING = 480;
+const FIRST_LINE_INDENT = INCH / 2;
+
+const WORD_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// Round the word count the way manuscript title pages expect ("about 7,300 words")
+export function roundManuscriptWordCount(wordCount: number): number {
+  if (wordCount < 1000) return Math.max(100, Math.round(wordCount / 100) * 100);
+  if (wordCount < 10000) return Math.round(wordCount / 100) * 100;
+  return Math.round(wordCount / 1000) * 1000;
+}
+
+function getSurname(author: string): string {
+  const parts = author.trim().split(/\s+/);
+  return parts[parts.length - 1] || 'Author';
+}
+
+// Short title keyword for the running header
+function getTitleKeyword(title: string): string {
+  const words = title.trim().split(/\s+/).filter(word => !/^(the|a|an)$/i.test(word));
+  return (words.slice(0, 3).join(' ') || title).toUpperCase();
+}
+
+function run(text: string, props: { bold?: boolean; italic?: boolean } = {}): string {
+  const runProps = `${props.bold ? '<w:b/>' : ''}${props.italic ? '<w:i/>' : ''}`;
+  return `<w:r>${runProps ? `<w:rPr>${runProps}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+interface ParagraphOptions {
+  align?: 'left' | 'center' | 'right';
+  indent?: boolean;
+  pageBreakBefore?: boolean;
+  spacingBefore?: number;
+  singleSpaced?: boolean;
+}
+
+function paragraph(runs: string, options: ParagraphOptions = {}): string {
+  const props = [
+    options.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+    `<w:spacing w:before="${options.spacingBefore || 0}" w:after="0" w:line="${options.singleSpaced ? 240 : DOUBLE_SPACING}" w:lineRule="auto"/>`,
+    options.indent ? `<w:ind w:firstLine="${FIRST_LINE_INDENT}"/>` : '',
+    options.align && options.align !== 'left' ? `<w:jc w:val="${options.align}"/>` : ''
+  ].join('');
+  return `<w:p><w:pPr>${props}</w:pPr>${runs}</w:p>`;
+}
+
+function inlineRuns(text: string): string {
+  return parseInlineMarkdown(text).map(inline => run(inline.text, inline)).join('');
+}
+
+// Convert manuscript text into body paragraphs
+function textToParagraphs(text: string): string[] {
+  return parseManuscriptBlocks(text).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return paragraph(inlineRuns(block.text), { align: 'center' });
+      case 'sceneBreak':
+        return paragraph(run('#'), { align: 'center' });
+      default:
+        return paragraph(inlineRuns(block.text), { indent: true });
+    }
+  });
+}
+
+function buildTitlePage(options: ExportOptions, wordCount: number): string[] {
+  const author = options.author.trim() || 'Anonymous';
+  return [
+    // Contact block at top left with the word count on the right
+    `<w:p><w:pPr><w:tabs><w:tab w:val="right" w:pos="${INCH * 6.5}"/></w:tabs><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>${run(author)}<w:r><w:tab/></w:r>${run(`about ${roundManuscriptWordCount(wordCount).toLocaleString()} words`)}</w:p>`,
+    // Title and byline roughly halfway down the page
+    paragraph(run(options.title), { align: 'center', spacingBefore: INCH * 3 }),
+    paragraph(run(`by ${author}`), { align: 'center' })
+  ];
+}
+
+function buildDocumentXml(content: DocxContent, options: ExportOptions): string {
+  const chapters = getWrittenChapters(content.chapters);
+  const wordCount = chapters.reduce((total, chapter) => total + chapter.wordCount, 0);
+  const body: string[] = buildTitlePage(options, wordCount);
+
+  chapters.forEach(chapter => {
+    // Each chapter starts on a new page, with its heading a third of the way down
+    body.push(paragraph(run(getChapterTitle(chapter)), { align: 'center', pageBreakBefore: true, spacingBefore: INCH * 2 }));
+    body.push(paragraph(''));
+    body.push(...textToParagraphs(stripChapterHeading(chapter.content)));
+  });
+
+  body.push(paragraph(run('END'), { align: 'center' }));
+
+  if (options.includePlanning) {
+    const steps = getPlanningSteps(content.steps);
+    if (steps.length > 0) {
+      body.push(paragraph(run('Appendix: Planning Notes'), { align: 'center', pageBreakBefore: true, spacingBefore: INCH * 2 }));
+      steps.forEach(step => {
+        body.push(paragraph(run(step.name, { bold: true }), { spacingBefore: 240 }));
+        body.push(...textToParagraphs(step.content));
+      });
+    }
+  }
+
+  const sectionProps = `<w:sectPr>
+      <w:headerReference w:type="default" r:id="rIdHeader"/>
+      <w:headerReference w:type="first" r:id="rIdHeaderFirst"/>
+      <w:pgSz w:w="${INCH * 8.5}" w:h="${INCH * 11}"/>
+      <w:pgMar w:top="${INCH}" w:right="${INCH}" w:bottom="${INCH}" w:left="${INCH}" w:header="${INCH / 2}" w:footer="${INCH / 2}" w:gutter="0"/>
+      <w:titlePg/>
+    </w:sectPr>`;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${WORD_NS}>
+  <w:body>
+    ${body.join('\n    ')}
+    ${sectionProps}
+  </w:body>
+</w:document>
+`;
+}
+
+// Running header: Surname / TITLE / page number, right aligned
+function buildHeaderXml(options: ExportOptions): string {
+  const label = `${getSurname(options.author)} / ${getTitleKeyword(options.title)} / `;
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr ${WORD_NS}>
+  <w:p>
+    <w:pPr><w:jc w:val="right"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>
+    ${run(label)}
+    <w:r><w:fldChar w:fldCharType="begin"/></w:r>
+    <w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>
+    <w:r><w:fldChar w:fldCharType="separate"/></w:r>
+    <w:r><w:t>1</w:t></w:r>
+    <w:r><w:fldChar w:fldCharType="end"/></w:r>
+  </w:p>
+</w:hdr>
+`;
+}
+
+// The title page carries no running header
+const EMPTY_HEADER_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr ${WORD_NS}><w:p/></w:hdr>
+`;
+
+function buildStylesXml(font: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault>
+      <w:rPr>
+        <w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>
+        <w:sz w:val="24"/>
+        <w:szCs w:val="24"/>
+      </w:rPr>
+    </w:rPrDefault>
+    <w:pPrDefault>
+      <w:pPr>
+        <w:spacing w:after="0" w:line="${DOUBLE_SPACING}" w:lineRule="auto"/>
+      </w:pPr>
+    </w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/>
+    <w:qFormat/>
+  </w:style>
+</w:styles>
+`;
+}
+
+function buildCorePropsXml(options: ExportOptions): string {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(options.title)}</dc:title>
+  <dc:creator>${escapeXml(options.author)}</dc:creator>
+  <dc:language>${escapeXml(options.language)}</dc:language>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>
+`;
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+  <Override PartName="/word/header2.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rIdHeader" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+  <Relationship Id="rIdHeaderFirst" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header2.xml"/>
+</Relationships>
+`;
+
+// Build a .docx file in standard manuscript format
+export async function buildDocx(content: DocxContent, options: ExportOptions): Promise<Blob> {
+  const font = FONTS[options.manuscriptFont || 'times'];
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+  zip.file('_rels/.rels', ROOT_RELS_XML);
+  zip.file('docProps/core.xml', buildCorePropsXml(options));
+  zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS_XML);
+  zip.file('word/document.xml', buildDocumentXml(content, options));
+  zip.file('word/styles.xml', buildStylesXml(font));
+  zip.file('word/header1.xml', buildHeaderXml(options));
+  zip.file('word/header2.xml', EMPTY_HEADER_XML);
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    compression: 'DEFLATE'
+  });
+}
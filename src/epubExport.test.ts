@@ -0,0 +1,47 @@
+import JSZip from 'jszip';
+import { buildEpub } from './epubExport';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+import { ExportOptions } from './types';
+
+const steps = createPipelineSteps(CLASSIC_PIPELINE).map(step => (
+  step.id === 5 ? { ...step, content: '# Final Plan\nEverything & more.', completed: true } : step
+));
+const chapters = createInitialChapters(3).map(chapter => (
+  chapter.id === 3
+    ? chapter
+    : { ...chapter, content: `# Chapter ${chapter.id}\n\nFirst *scene* <here>.\n\n***\n\nSecond scene.`, completed: true, wordCount: 6 }
+));
+const options: ExportOptions = { title: 'Salt & Iron', author: 'A. Writer', language: 'en', includePlanning: false };
+
+const openEpub = async (includePlanning: boolean) => JSZip.loadAsync(await buildEpub({ steps, chapters }, { ...options, includePlanning }));
+
+test('the EPUB holds a title page and one document per written chapter', async () => {
+  const zip = await openEpub(false);
+  expect(Object.keys(zip.files)[0]).toBe('mimetype');
+  expect(await zip.file('mimetype')!.async('string')).toBe('application/epub+zip');
+
+  const opf = await zip.file('OEBPS/content.opf')!.async('string');
+  expect(opf).toContain('<dc:title>Salt &amp; Iron</dc:title>');
+  expect(opf).toContain('<dc:creator>A. Writer</dc:creator>');
+  expect(opf.match(/<itemref idref="([^"]+)"/g)).toEqual([
+    '<itemref idref="title"', '<itemref idref="chapter-1"', '<itemref idref="chapter-2"'
+  ]);
+
+  const chapter = await zip.file('OEBPS/chapter-1.xhtml')!.async('string');
+  expect(chapter).toContain('<h2>Chapter 1</h2>');
+  expect(chapter).not.toContain('# Chapter 1');
+  expect(chapter).toContain('<p>First <em>scene</em> &lt;here&gt;.</p>');
+  expect(chapter).toContain('<hr class="scene-break" />');
+  expect(zip.file('OEBPS/chapter-3.xhtml')).toBeNull();
+});
+
+test('the planning appendix is only included when asked for', async () => {
+  expect(Object.keys((await openEpub(false)).files)).not.toContain('OEBPS/planning-5.xhtml');
+
+  const withPlanning = await openEpub(true);
+  const appendix = await withPlanning.file('OEBPS/planning-5.xhtml')!.async('string');
+  expect(appendix).toContain('epub:type="appendix"');
+  expect(appendix).toContain('Everything &amp; more.');
+  expect(await withPlanning.file('OEBPS/nav.xhtml')!.async('string')).toContain('Planning: ');
+});
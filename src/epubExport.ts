@@ -0,0 +1,208 @@
+/**
+ * EPUB Export
+ * Builds an EPUB 3 package of the manuscript entirely in the browser
+ */
+
+import JSZip from 'jszip';
+import { Chapter, WorkflowStep, ExportOptions } from './types';
+import {
+  escapeXml,
+  stripChapterHeading,
+  parseManuscriptBlocks,
+  inlineMarkdownToXhtml,
+  getChapterTitle,
+  getWrittenChapters,
+  getPlanningSteps
+} from './manuscriptUtils';
+import { createProjectId } from './projectStorage';
+
+export type EpubOptions = ExportOptions;
+
+export interface EpubContent {
+  steps: WorkflowStep[];
+  chapters: Chapter[];
+}
+
+interface EpubDocument {
+  id: string;
+  href: string;
+  title: string;
+  body: string;
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3 { text-align: center; font-weight: normal; }
+h1.title { margin-top: 30%; font-size: 2em; }
+p.author { text-align: center; font-style: italic; }
+p.generated { text-align: center; font-size: 0.8em; margin-top: 3em; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h2 + p, hr + p, p.first { text-indent: 0; }
+hr.scene-break { border: none; margin: 1.5em 0; text-align: center; }
+hr.scene-break::after { content: "* * *"; }
+`;
+
+function xhtmlDocument(title: string, language: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// Convert manuscript text into XHTML body markup
+function textToXhtml(text: string): string {
+  return parseManuscriptBlocks(text).map(block => {
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(6, (block.level || 1) + 2);
+        return `<h${level}>${inlineMarkdownToXhtml(block.text)}</h${level}>`;
+      }
+      case 'sceneBreak':
+        return '<hr class="scene-break" />';
+      default:
+        return `<p>${inlineMarkdownToXhtml(block.text)}</p>`;
+    }
+  }).join('\n');
+}
+
+function buildDocuments(content: EpubContent, options: EpubOptions, generatedAt: Date): EpubDocument[] {
+  const documents: EpubDocument[] = [{
+    id: 'title',
+    href: 'title.xhtml',
+    title: 'Title Page',
+    body: `<section epub:type="titlepage">
+<h1 class="title">${escapeXml(options.title)}</h1>
+${options.author.trim() ? `<p class="author">${escapeXml(options.author)}</p>` : ''}
+<p class="generated">Generated ${escapeXml(generatedAt.toLocaleDateString())}</p>
+</section>`
+  }];
+
+  getWrittenChapters(content.chapters).forEach(chapter => {
+    const title = getChapterTitle(chapter);
+    documents.push({
+      id: `chapter-${chapter.id}`,
+      href: `chapter-${chapter.id}.xhtml`,
+      title,
+      body: `<section epub:type="chapter">
+<h2>${escapeXml(title)}</h2>
+${textToXhtml(stripChapterHeading(chapter.content))}
+</section>`
+    });
+  });
+
+  if (options.includePlanning) {
+    getPlanningSteps(content.steps).forEach(step => {
+      documents.push({
+        id: `planning-${step.id}`,
+        href: `planning-${step.id}.xhtml`,
+        title: `Planning: ${step.name}`,
+        body: `<section epub:type="appendix">
+<h2>${escapeXml(step.name)}</h2>
+${textToXhtml(step.content)}
+</section>`
+      });
+    });
+  }
+
+  return documents;
+}
+
+function buildNav(documents: EpubDocument[], options: EpubOptions): string {
+  const items = documents
+    .map(doc => `      <li><a href="${doc.href}">${escapeXml(doc.title)}</a></li>`)
+    .join('\n');
+  return xhtmlDocument('Contents', options.language, `<nav epub:type="toc" id="toc">
+  <h2>Contents</h2>
+  <ol>
+${items}
+  </ol>
+</nav>`);
+}
+
+function buildNcx(documents: EpubDocument[], options: EpubOptions, identifier: string): string {
+  const navPoints = documents.map((doc, index) => `    <navPoint id="nav-${doc.id}" playOrder="${index + 1}">
+      <navLabel><text>${escapeXml(doc.title)}</text></navLabel>
+      <content src="${doc.href}" />
+    </navPoint>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${identifier}" />
+  </head>
+  <docTitle><text>${escapeXml(options.title)}</text></docTitle>
+  <navMap>
+${navPoints}
+  </navMap>
+</ncx>
+`;
+}
+
+function buildPackage(documents: EpubDocument[], options: EpubOptions, identifier: string, generatedAt: Date): string {
+  const modified = generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const manifest = documents
+    .map(doc => `    <item id="${doc.id}" href="${doc.href}" media-type="application/xhtml+xml" />`)
+    .join('\n');
+  const spine = documents.map(doc => `    <itemref idref="${doc.id}" />`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(options.language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(options.title)}</dc:title>
+    ${options.author.trim() ? `<dc:creator>${escapeXml(options.author)}</dc:creator>` : ''}
+    <dc:language>${escapeXml(options.language)}</dc:language>
+    <dc:date>${generatedAt.toISOString().slice(0, 10)}</dc:date>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />
+    <item id="styles" href="styles.css" media-type="text/css" />
+${manifest}
+  </manifest>
+  <spine toc="ncx">
+${spine}
+  </spine>
+</package>
+`;
+}
+
+// Build an EPUB 3 file from the story
+export async function buildEpub(content: EpubContent, options: EpubOptions): Promise<Blob> {
+  const generatedAt = new Date();
+  const identifier = `urn:uuid:${createProjectId()}`;
+  const documents = buildDocuments(content, options, generatedAt);
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`);
+  zip.file('OEBPS/content.opf', buildPackage(documents, options, identifier, generatedAt));
+  zip.file('OEBPS/nav.xhtml', buildNav(documents, options));
+  zip.file('OEBPS/toc.ncx', buildNcx(documents, options, identifier));
+  zip.file('OEBPS/styles.css', STYLESHEET);
+  documents.forEach(doc => {
+    zip.file(`OEBPS/${doc.href}`, xhtmlDocument(doc.title, options.language, doc.body));
+  });
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/epub+zip',
+    compression: 'DEFLATE'
+  });
+}
@@ -0,0 +1,36 @@
+import { GENRE_PRESETS, findGenrePreset } from './genrePresets';
+import { CLASSIC_PIPELINE, GENRE_PIPELINES, parsePipeline, serializePipeline, validatePipeline } from './pipelines';
+import { buildPrompt } from './promptTemplates';
+
+const variables = { storyPrompt: 'A body in the greenhouse.', storyType: 'novel', chapterCount: 24, wordTarget: 3000, chapterIndex: 2 };
+
+test('every genre pipeline is valid and survives export', () => {
+  GENRE_PIPELINES.forEach(pipeline => {
+    expect(validatePipeline(pipeline)).toEqual([]);
+    expect(parsePipeline(serializePipeline(pipeline)).chapterTemplate).toBe(pipeline.chapterTemplate);
+  });
+});
+
+test('genre guidance goes before the feedback section', () => {
+  const mystery = findGenrePreset(GENRE_PIPELINES[0])!.pipeline;
+  expect(mystery.steps.map(step => step.name)).toContain('Clue & Red-Herring Ledger');
+
+  const critique = buildPrompt(undefined, 'step4', { ...variables, feedback: 'More suspects.' }, mystery);
+  expect(critique).toMatch(/Mystery checks: [\s\S]*--- FEEDBACK TO APPLY ---\nMore suspects\./);
+
+  const chapter = buildPrompt(undefined, 'chapter', variables, mystery);
+  expect(chapter).toContain('Write Chapter 2 of the novel');
+  expect(chapter).toContain('exactly as the ledger schedules for this chapter');
+  expect(buildPrompt({ chapter: 'Write it.' }, 'chapter', variables, mystery)).toBe('Write it.');
+});
+
+test('the general preset runs the classic pipeline without changing chapter sizes', () => {
+  expect(findGenrePreset(CLASSIC_PIPELINE)?.id).toBe('general');
+  expect(findGenrePreset(CLASSIC_PIPELINE)?.sizing).toBeUndefined();
+  GENRE_PRESETS.filter(preset => preset.sizing).forEach(preset => {
+    Object.values(preset.sizing!).forEach(sizing => {
+      expect(sizing.chapterWordTarget).toBeGreaterThanOrEqual(500);
+      expect(sizing.chapterWordTarget).toBeLessThanOrEqual(10000);
+    });
+  });
+});
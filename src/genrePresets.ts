@@ -0,0 +1,92 @@
+/**
+ * Genre Presets
+ * Starting points for a new story: a genre pipeline with chapter counts and lengths to match
+ */
+
+import { WorkflowPipeline, StoryConfig } from './types';
+import { CLASSIC_PIPELINE, GENRE_PIPELINES } from './pipelines';
+
+export type StoryType = NonNullable<StoryConfig['storyType']>;
+
+export interface GenreSizing {
+  chapterCount: number;
+  chapterWordTarget: number;
+}
+
+export interface GenrePreset {
+  id: string;
+  name: string;
+  description: string;
+  pipeline: WorkflowPipeline;
+  sizing?: Record<StoryType, GenreSizing>; // Chapter count and length are left alone when missing
+}
+
+const genrePipeline = (id: string): WorkflowPipeline => {
+  const pipeline = GENRE_PIPELINES.find(candidate => candidate.id === id);
+  if (!pipeline) throw new Error(`Failed to find the ${id} pipeline`);
+  return pipeline;
+};
+
+export const GENRE_PRESETS: GenrePreset[] = [
+  {
+    id: 'general',
+    name: 'General',
+    description: 'The classic planning steps, with no genre guidance',
+    pipeline: CLASSIC_PIPELINE
+  },
+  {
+    id: 'mystery',
+    name: 'Mystery',
+    description: 'Tracks every clue and red herring so the reveal plays fair',
+    pipeline: genrePipeline('mystery'),
+    sizing: {
+      'short-story': { chapterCount: 5, chapterWordTarget: 2500 },
+      novel: { chapterCount: 24, chapterWordTarget: 3000 }
+    }
+  },
+  {
+    id: 'romance',
+    name: 'Romance',
+    description: 'Plans the relationship arc beat by beat, from the meeting to the ending',
+    pipeline: genrePipeline('romance'),
+    sizing: {
+      'short-story': { chapterCount: 4, chapterWordTarget: 2500 },
+      novel: { chapterCount: 24, chapterWordTarget: 3000 }
+    }
+  },
+  {
+    id: 'thriller',
+    name: 'Thriller',
+    description: 'Runs against a ticking clock with rising stakes and a hook at the end of each chapter',
+    pipeline: genrePipeline('thriller'),
+    sizing: {
+      'short-story': { chapterCount: 6, chapterWordTarget: 2000 },
+      novel: { chapterCount: 40, chapterWordTarget: 2000 }
+    }
+  },
+  {
+    id: 'literary',
+    name: 'Literary',
+    description: 'Studies theme, motif and interiority, with fewer and longer chapters',
+    pipeline: genrePipeline('literary'),
+    sizing: {
+      'short-story': { chapterCount: 3, chapterWordTarget: 4000 },
+      novel: { chapterCount: 16, chapterWordTarget: 5000 }
+    }
+  },
+  {
+    id: 'childrens',
+    name: 'Children\'s',
+    description: 'Sets reading-level constraints that every chapter follows',
+    pipeline: genrePipeline('childrens'),
+    sizing: {
+      'short-story': { chapterCount: 3, chapterWordTarget: 500 },
+      novel: { chapterCount: 10, chapterWordTarget: 1200 }
+    }
+  }
+];
+
+// The preset whose pipeline the story runs, if it runs one of them unchanged
+export function findGenrePreset(pipeline: WorkflowPipeline): GenrePreset | undefined {
+  return GENRE_PRESETS.find(preset => preset.pipeline.id === pipeline.id);
+}
@@ -0,0 +1,65 @@
+import {
+  escapeXml,
+  getChapterTitle,
+  getPlanningSteps,
+  getWrittenChapters,
+  inlineMarkdownToXhtml,
+  parseInlineMarkdown,
+  parseManuscriptBlocks,
+  stripChapterHeading,
+  toFileStem
+} from './manuscriptUtils';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+
+test('manuscript text splits into headings, paragraphs and scene breaks', () => {
+  const text = '## The Road\r\nShe walked\n   on and on.\n\n* * *\n\n---\nDawn came.\n~~~';
+  expect(parseManuscriptBlocks(text)).toEqual([
+    { type: 'heading', text: 'The Road', level: 2 },
+    { type: 'paragraph', text: 'She walked on and on.' },
+    { type: 'sceneBreak', text: '' },
+    { type: 'sceneBreak', text: '' },
+    { type: 'paragraph', text: 'Dawn came.' },
+    { type: 'sceneBreak', text: '' }
+  ]);
+});
+
+test('a leading chapter heading is stripped, other first lines are kept', () => {
+  expect(stripChapterHeading('# Chapter 3: The Well\n\nWater at last.')).toBe('Water at last.');
+  expect(stripChapterHeading('**Chapter Seven**\nNight.')).toBe('Night.');
+  expect(stripChapterHeading('Chapter IV\nMorning.')).toBe('Morning.');
+  expect(stripChapterHeading('Chapters of her life were short.\nMore.')).toBe('Chapters of her life were short.\nMore.');
+  expect(stripChapterHeading(`Chapter 1 ${'was long '.repeat(10)}\nMore.`)).toContain('was long');
+});
+
+test('inline emphasis becomes runs and escaped XHTML', () => {
+  expect(parseInlineMarkdown('A **bold** and *quiet* _step_.')).toEqual([
+    { text: 'A ' },
+    { text: 'bold', bold: true },
+    { text: ' and ' },
+    { text: 'quiet', italic: true },
+    { text: ' ' },
+    { text: 'step', italic: true },
+    { text: '.' }
+  ]);
+  expect(inlineMarkdownToXhtml('Tom & "Jerry" *<run>*')).toBe('Tom &amp; &quot;Jerry&quot; <em>&lt;run&gt;</em>');
+  expect(escapeXml(`it's`)).toBe('it&apos;s');
+});
+
+test('only written chapters and filled planning steps are exported', () => {
+  const chapters = createInitialChapters(3).map(chapter => (
+    chapter.id === 2 ? { ...chapter, content: 'Text.', outline: { title: ' The Well ', summary: '', beats: [] } } : chapter
+  ));
+  expect(getWrittenChapters(chapters).map(chapter => chapter.id)).toEqual([2]);
+  expect(getChapterTitle(chapters[1])).toBe('The Well');
+  expect(getChapterTitle(chapters[0])).toBe('Chapter 1');
+
+  const steps = createPipelineSteps(CLASSIC_PIPELINE).map(step => ({ ...step, content: step.id === 3 ? '  ' : `Step ${step.id}` }));
+  expect(getPlanningSteps(steps).map(step => step.id)).toEqual([1, 2, 4, 5]);
+});
+
+test('titles become safe file names', () => {
+  expect(toFileStem('  The Salt Road: Part II! ')).toBe('the-salt-road-part-ii');
+  expect(toFileStem('???')).toBe('story');
+  expect(toFileStem('x'.repeat(80))).toHaveLength(60);
+});
@@ -0,0 +1,150 @@
+import { Chapter, WorkflowStep } from './types';
+
+// Block-level structure of generated manuscript text
+export interface ManuscriptBlock {
+  type: 'heading' | 'paragraph' | 'sceneBreak';
+  text: string;
+  level?: number;
+}
+
+// A run of inline text with emphasis applied
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+const SCENE_BREAK_PATTERN = /^\s*(\*\s*\*\s*\*|-{3,}|#\s*#\s*#|~{3,})\s*$/;
+const CHAPTER_HEADING_PATTERN = /^#{0,6}\s*\**\s*chapter\s+(\d+|[ivxlc]+|[a-z-]+)\b.*$/i;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Remove a leading "Chapter N" heading the model may have written, since exporters add their own
+export function stripChapterHeading(text: string): string {
+  const lines = text.trim().split('\n');
+  const firstLine = lines[0]?.trim() || '';
+  if (firstLine.length <= 80 && CHAPTER_HEADING_PATTERN.test(firstLine)) {
+    return lines.slice(1).join('\n').trim();
+  }
+  return text.trim();
+}
+
+// Split manuscript text into headings, paragraphs and scene breaks
+export function parseManuscriptBlocks(text: string): ManuscriptBlock[] {
+  const blocks: ManuscriptBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const joined = paragraph.join(' ').replace(/\s+/g, ' ').trim();
+    if (joined) {
+      blocks.push({ type: 'paragraph', text: joined });
+    }
+    paragraph = [];
+  };
+
+  for (const rawLine of text.replace(/\r\n/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flushParagraph();
+      continue;
+    }
+
+    if (SCENE_BREAK_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'sceneBreak', text: '' });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: heading[2].trim(), level: heading[1].length });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// Parse **bold** and *italic* / _italic_ emphasis into inline runs
+export function parseInlineMarkdown(text: string): InlineRun[] {
+  const runs: InlineRun[] = [];
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*|_(.+?)_/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      runs.push({ text: text.slice(lastIndex, match.index) });
+    }
+    if (match[1] !== undefined) {
+      runs.push({ text: match[1], bold: true });
+    } else {
+      runs.push({ text: match[2] ?? match[3], italic: true });
+    }
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    runs.push({ text: text.slice(lastIndex) });
+  }
+  return runs;
+}
+
+// Render inline markdown as escaped XHTML
+export function inlineMarkdownToXhtml(text: string): string {
+  return parseInlineMarkdown(text).map(run => {
+    let html = escapeXml(run.text);
+    if (run.italic) html = `<em>${html}</em>`;
+    if (run.bold) html = `<strong>${html}</strong>`;
+    return html;
+  }).join('');
+}
+
+// The chapter's outline title, or its number when it has none
+export function getChapterTitle(chapter: Chapter): string {
+  return chapter.outline?.title.trim() || `Chapter ${chapter.id}`;
+}
+
+// Chapters that have content, in order
+export function getWrittenChapters(chapters: Chapter[]): Chapter[] {
+  return chapters.filter(chapter => chapter.content.trim().length > 0);
+}
+
+// Planning steps (all but the final chapter-writing step) that have content
+export function getPlanningSteps(steps: WorkflowStep[]): WorkflowStep[] {
+  return steps.filter(step => step.id < steps.length && step.content.trim().length > 0);
+}
+
+// Trigger a browser download for a blob
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Turn a title into a safe file name stem
+export function toFileStem(title: string): string {
+  const stem = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return stem || 'story';
+}
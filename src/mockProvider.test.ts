@@ -0,0 +1,87 @@
+import { apiService } from './apiService';
+import {
+  MOCK_BASE_URL,
+  MOCK_MODEL,
+  configureMockProvider,
+  resetMockProvider,
+  getMockRequestCount,
+  generateMockResponse
+} from './mockProvider';
+import { Message } from './types';
+
+const brainstormPrompt: Message[] = [
+  { role: 'system', content: 'You are a novelist.' },
+  { role: 'user', content: 'Plan the story.\nCHAPTER_COUNT: <integer>' }
+];
+
+const collectStream = async (messages: Message[]) => {
+  let content = '';
+  const stream = apiService.chatCompletionStream(messages, MOCK_MODEL, undefined, '', MOCK_BASE_URL, undefined, 'mock');
+  for await (const chunk of stream) {
+    content += chunk;
+  }
+  return content;
+};
+
+beforeEach(() => {
+  resetMockProvider();
+  configureMockProvider({ chunkDelayMs: 0 });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('responses are deterministic and end the brainstorm with a CHAPTER_COUNT line', async () => {
+  configureMockProvider({ chapterCount: 4 });
+  const content = await apiService.chatCompletion(brainstormPrompt, MOCK_MODEL, undefined, '', MOCK_BASE_URL, 'mock');
+
+  expect(content).toMatch(/CHAPTER_COUNT: 4$/);
+  expect(content).toBe(generateMockResponse(brainstormPrompt));
+});
+
+test('streamed chapters arrive in chunks and match the regular response', async () => {
+  const messages: Message[] = [{ role: 'user', content: 'Write Chapter 2 of the short story.' }];
+  const chunks: string[] = [];
+  const stream = apiService.chatCompletionStream(messages, MOCK_MODEL, undefined, '', MOCK_BASE_URL, chunk => chunks.push(chunk), 'mock');
+  let streamed = '';
+  for await (const chunk of stream) {
+    streamed += chunk;
+  }
+
+  expect(chunks.length).toBeGreaterThan(1);
+  expect(streamed).toBe(generateMockResponse(messages));
+  expect(streamed.startsWith('Chapter 2')).toBe(true);
+});
+
+test('a scripted rate limit is retried', async () => {
+  configureMockProvider({ failures: [{ request: 1, kind: 'rate-limit' }] });
+  const content = await collectStream(brainstormPrompt);
+
+  expect(content).toMatch(/CHAPTER_COUNT: 3$/);
+  expect(getMockRequestCount()).toBe(2);
+});
+
+test('a mid-stream disconnect fails the stream', async () => {
+  configureMockProvider({ failures: [{ request: 1, kind: 'disconnect' }] });
+
+  await expect(collectStream(brainstormPrompt)).rejects.toThrow();
+  expect(getMockRequestCount()).toBe(1);
+});
+
+test('canned responses can be overridden', async () => {
+  configureMockProvider({ responses: { chapter: 'Chapter {chapter}\n\nThe end.' } });
+  const content = await apiService.chatCompletion(
+    [{ role: 'user', content: 'Write Chapter 5 of the novel.' }],
+    MOCK_MODEL,
+    undefined,
+    '',
+    MOCK_BASE_URL,
+    'mock'
+  );
+
+  expect(content).toBe('Chapter 5\n\nThe end.');
+});
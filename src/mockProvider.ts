@@ -0,0 +1,203 @@
+/**
+ * Mock LLM Provider
+ * An offline, deterministic OpenAI-compatible server for demos and automated tests
+ */
+
+import { Message, TimedChunk } from './types';
+import { createSyntheticResponse, createChunkReader, sleep } from './syntheticResponse';
+
+export const MOCK_BASE_URL = 'mock://story-author';
+export const MOCK_MODEL = 'mock-storyteller';
+
+export type MockResponseKind =
+  | 'brainstorm'
+  | 'plan'
+  | 'critique'
+  | 'characters'
+  | 'chapter'
+  | 'continuation'
+  | 'summary'
+  | 'other';
+
+// A scripted failure for the Nth completion request (1-based, retries included)
+export interface MockFailure {
+  request: number;
+  kind: 'rate-limit' | 'server-error' | 'disconnect';
+  retryAfterSeconds?: number; // Sent as Retry-After with a rate limit (default: 0)
+}
+
+export interface MockScenario {
+  chapterCount: number; // Suggested in the brainstorm's CHAPTER_COUNT line
+  chapterWords: number; // Words in each chapter response; continuations add half as many
+  chunkWords: number; // Words per streamed chunk
+  chunkDelayMs: number; // Delay before each streamed chunk
+  responses: Partial<Record<MockResponseKind, string>>; // Replace canned text; {chapter} is filled in
+  failures: MockFailure[];
+}
+
+export const DEFAULT_MOCK_SCENARIO: MockScenario = {
+  chapterCount: 3,
+  chapterWords: 600,
+  chunkWords: 8,
+  chunkDelayMs: 30,
+  responses: {},
+  failures: []
+};
+
+let scenario: MockScenario = DEFAULT_MOCK_SCENARIO;
+let requestCount = 0;
+
+// Change the scenario and restart the request count that failures are scripted against
+export function configureMockProvider(changes: Partial<MockScenario>): void {
+  scenario = { ...scenario, ...changes };
+  requestCount = 0;
+}
+
+export function resetMockProvider(): void {
+  scenario = DEFAULT_MOCK_SCENARIO;
+  requestCount = 0;
+}
+
+export function getMockRequestCount(): number {
+  return requestCount;
+}
+
+export const isMockUrl = (url: string) => url.startsWith('mock://');
+
+const CHARACTERS = ['Mara', 'Theo', 'Iris', 'Jonah'];
+const PLACES = ['the harbour', 'the lighthouse', 'the orchard', 'the station', 'the old mill'];
+const ACTIONS = ['waited', 'listened', 'hesitated', 'turned back', 'laughed quietly', 'kept walking'];
+const DETAILS = [
+  'while the rain worked at the windows',
+  'as the last ferry sounded its horn',
+  'with the letter still folded in a coat pocket',
+  'though nobody had asked the question aloud',
+  'under a sky the colour of pewter'
+];
+
+// Small seeded PRNG so the same request always produces the same text
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const buildProse = (seed: number, wordTarget: number): string => {
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const paragraphs: string[] = [];
+  let words = 0;
+
+  while (words < wordTarget) {
+    const sentences: string[] = [];
+    for (let i = 0; i < 4 && words < wordTarget; i++) {
+      const sentence = `${pick(CHARACTERS)} ${pick(ACTIONS)} at ${pick(PLACES)} ${pick(DETAILS)}.`;
+      sentences.push(sentence);
+      words += sentence.split(/\s+/).length;
+    }
+    paragraphs.push(sentences.join(' '));
+  }
+  return paragraphs.join('\n\n');
+};
+
+const classifyPrompt = (prompt: string): { kind: MockResponseKind; chapter: number } => {
+  const chapterOf = (pattern: RegExp) => parseInt(prompt.match(pattern)?.[1] || '1', 10);
+  if (/Summarize Chapter (\d+)/.test(prompt)) return { kind: 'summary', chapter: chapterOf(/Summarize Chapter (\d+)/) };
+  if (/Continue Chapter (\d+)/.test(prompt)) return { kind: 'continuation', chapter: chapterOf(/Continue Chapter (\d+)/) };
+  if (/Write Chapter (\d+)/.test(prompt)) return { kind: 'chapter', chapter: chapterOf(/Write Chapter (\d+)/) };
+  if (/CHAPTER_COUNT/.test(prompt)) return { kind: 'brainstorm', chapter: 0 };
+  if (/flesh out our characters/i.test(prompt)) return { kind: 'characters', chapter: 0 };
+  if (/# Chapter Planning/.test(prompt)) return { kind: 'plan', chapter: 0 };
+  if (/critiqu/i.test(prompt)) return { kind: 'critique', chapter: 0 };
+  return { kind: 'other', chapter: 0 };
+};
+
+// Canned response for the last user message
+export function generateMockResponse(messages: Message[]): string {
+  const prompt = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+  const { kind, chapter } = classifyPrompt(prompt);
+  const override = scenario.responses[kind];
+  if (override !== undefined) {
+    return override.replace(/\{chapter\}/g, String(chapter));
+  }
+
+  const plannedChapters = parseInt(prompt.match(/\bin (\d+) chapters/)?.[1] || '', 10) || scenario.chapterCount;
+  switch (kind) {
+    case 'brainstorm':
+      return `# Brainstorming\nA lighthouse keeper's daughter, a returning brother and a town that has stopped asking questions.\n\n# Reflection\nThe quieter ideas work best; the story should stay close to one family.\n\nCHAPTER_COUNT: ${scenario.chapterCount}`;
+    case 'plan':
+      return `# Intention\nA restrained, close third-person story about what a family leaves unsaid.\n\n# Chapter Planning\n${Array.from({ length: plannedChapters }, (_, i) => `Chapter ${i + 1}: ${CHARACTERS[i % CHARACTERS.length]} faces ${PLACES[i % PLACES.length]}.`).join('\n')}`;
+    case 'critique':
+      return '# Critique\nThe plan resolves too neatly. Leave the final conversation unfinished and let the weather carry more of the mood.';
+    case 'characters':
+      return CHARACTERS.map(name => `# ${name}\n${name} is careful, funny when cornered and slow to forgive.\n"I said I'd come back. I didn't say when."`).join('\n\n');
+    case 'chapter':
+      return `Chapter ${chapter}\n\n${buildProse(chapter, scenario.chapterWords)}`;
+    case 'continuation': {
+      const currentWords = parseInt(prompt.match(/currently has (\d+) words/)?.[1] || '0', 10);
+      return buildProse(chapter * 1000 + currentWords, Math.ceil(scenario.chapterWords / 2));
+    }
+    case 'summary':
+      return `In Chapter ${chapter}, ${CHARACTERS[chapter % CHARACTERS.length]} returned to ${PLACES[chapter % PLACES.length]} and left something important unsaid.`;
+    default:
+      return 'Understood.';
+  }
+}
+
+// Serve a request sent to a mock:// URL as an OpenAI-compatible server would
+export async function mockFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  await sleep(0, init.signal);
+
+  if (url.endsWith('/models')) {
+    return createSyntheticResponse(200, JSON.stringify({ data: [{ id: MOCK_MODEL }] }));
+  }
+
+  requestCount++;
+  const failure = scenario.failures.find(f => f.request === requestCount);
+  if (failure?.kind === 'rate-limit') {
+    return createSyntheticResponse(429, JSON.stringify({ error: { message: 'Rate limit exceeded (mock)' } }), {
+      'Retry-After': String(failure.retryAfterSeconds ?? 0)
+    });
+  }
+  if (failure?.kind === 'server-error') {
+    return createSyntheticResponse(503, JSON.stringify({ error: { message: 'Service unavailable (mock)' } }));
+  }
+
+  const request = JSON.parse(String(init.body || '{}'));
+  const messages: Message[] = request.messages || [];
+  const content = generateMockResponse(messages);
+  const usage = {
+    prompt_tokens: Math.ceil(messages.reduce((sum, message) => sum + message.content.length, 0) / 4),
+    completion_tokens: Math.ceil(content.length / 4)
+  };
+
+  if (!request.stream) {
+    return createSyntheticResponse(200, JSON.stringify({
+      model: request.model,
+      choices: [{ message: { role: 'assistant', content } }],
+      usage
+    }));
+  }
+
+  const pieces = content.match(/\S+\s*/g) || [];
+  const chunks: TimedChunk[] = [];
+  for (let i = 0; i < pieces.length; i += scenario.chunkWords) {
+    const delta = pieces.slice(i, i + scenario.chunkWords).join('');
+    chunks.push({ delayMs: scenario.chunkDelayMs, data: `data: ${JSON.stringify({ choices: [{ delta: { content: delta } }] })}\n\n` });
+  }
+  chunks.push(
+    { delayMs: scenario.chunkDelayMs, data: `data: ${JSON.stringify({ choices: [], usage })}\n\n` },
+    { delayMs: scenario.chunkDelayMs, data: 'data: [DONE]\n\n' }
+  );
+
+  // A disconnect drops the connection halfway through the content
+  const disconnect = failure?.kind === 'disconnect'
+    ? { afterChunk: Math.floor(chunks.length / 2), error: new TypeError('Network connection lost (mock disconnect)') }
+    : undefined;
+  return createSyntheticResponse(200, '', { 'Content-Type': 'text/event-stream' }, createChunkReader(chunks, init.signal, disconnect));
+}
@@ -0,0 +1,27 @@
+/**
+ * Pipeline Storage
+ * Custom workflow pipelines kept in local storage
+ */
+
+import { WorkflowPipeline } from './types';
+
+const PIPELINES_KEY = 'ai_story_author_pipelines';
+
+export function loadCustomPipelines(): WorkflowPipeline[] {
+  try {
+    const stored = localStorage.getItem(PIPELINES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load custom pipelines:', error);
+    return [];
+  }
+}
+
+export function saveCustomPipelines(pipelines: WorkflowPipeline[]): void {
+  try {
+    localStorage.setItem(PIPELINES_KEY, JSON.stringify(pipelines));
+  } catch (error) {
+    console.error('Failed to save custom pipelines:', error);
+    throw new Error('Failed to save custom pipelines');
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  BUILT_IN_PIPELINES,
+  CLASSIC_PIPELINE,
+  CHAPTER_STEP_NAME,
+  createPipelineSteps,
+  parsePipeline,
+  serializePipeline,
+  switchPipeline
+} from './pipelines';
+import { buildPrompt } from './promptTemplates';
+import { StoryConfig, WorkflowPipeline } from './types';
+
+const screenplay: WorkflowPipeline = {
+  id: 'screenplay',
+  name: 'Screenplay',
+  steps: [
+    { name: 'Logline', template: 'Write a logline for {{storyPrompt}}.', filename: 'logline.md', chapterContext: false },
+    { name: 'Beat Sheet', template: 'Break the {{storyType}} into beats.', filename: 'beats.md', chapterContext: true, optional: true }
+  ]
+};
+
+const config: StoryConfig = {
+  model: 'default-model',
+  apiKey: '',
+  baseUrl: 'https://openrouter.ai/api/v1',
+  stream: true,
+  stepRoutes: { 3: { model: 'critic' }, 6: { model: 'prose' } },
+  promptTemplates: { step3: 'Critique gently.', chapter: 'Write Chapter {{chapterIndex}}.' }
+};
+
+test('the classic pipeline keeps the original five steps, then chapter writing', () => {
+  expect(createPipelineSteps(CLASSIC_PIPELINE).map(step => [step.id, step.name])).toEqual([
+    [1, 'Brainstorm & Reflection'],
+    [2, 'Intention & Chapter Planning'],
+    [3, 'Human vs LLM Critique'],
+    [4, 'Final Plan'],
+    [5, 'Characters'],
+    [6, CHAPTER_STEP_NAME]
+  ]);
+});
+
+test('pipeline files round-trip', () => {
+  expect(parsePipeline(serializePipeline(screenplay))).toEqual({
+    ...screenplay,
+    description: undefined,
+    steps: screenplay.steps.map(step => ({ optional: false, ...step }))
+  });
+  BUILT_IN_PIPELINES.forEach(pipeline => expect(parsePipeline(serializePipeline(pipeline)).steps).toEqual(
+    pipeline.steps.map(step => ({ optional: false, ...step }))
+  ));
+});
+
+test('rejects files that are not usable pipelines', () => {
+  expect(() => parsePipeline('not json')).toThrow('not valid JSON');
+  expect(() => parsePipeline('{"format": "ai-author-project", "pipeline": {}}')).toThrow('not a pipeline file');
+  const duplicate = { ...screenplay, steps: [screenplay.steps[0], { ...screenplay.steps[1], filename: 'LOGLINE.md' }] };
+  expect(() => parsePipeline(serializePipeline(duplicate))).toThrow('Step 2 uses the same output file name');
+  expect(() => parsePipeline(serializePipeline({ ...screenplay, steps: [] }))).toThrow('at least one step');
+});
+
+test('switching pipelines moves the chapter route and keeps only chapter templates', () => {
+  expect(switchPipeline(config, screenplay)).toEqual({
+    pipeline: screenplay,
+    stepRoutes: { 3: { model: 'prose' } },
+    promptTemplates: { chapter: 'Write Chapter {{chapterIndex}}.' }
+  });
+});
+
+test('step prompts come from the pipeline unless the story overrides them', () => {
+  const variables = { storyPrompt: 'a heist', storyType: 'novel', chapterCount: 3, wordTarget: 2000 };
+  expect(buildPrompt(undefined, 'step1', variables, screenplay)).toBe('Write a logline for a heist.');
+  expect(buildPrompt({ step2: 'Beats for {{storyPrompt}}.' }, 'step2', variables, screenplay)).toBe('Beats for a heist.');
+});
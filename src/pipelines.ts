@@ -0,0 +1,359 @@
+/**
+ * Workflow Pipelines
+ * The planning steps a story runs through before its chapters are written, shareable as JSON files
+ */
+
+import { WorkflowPipeline, PipelineStep, WorkflowStep, ProjectConfig } from './types';
+import { DEFAULT_PROMPT_TEMPLATES, FEEDBACK_SECTION, keepChapterTemplates } from './promptTemplates';
+
+export const PIPELINE_FORMAT = 'ai-author-pipeline';
+export const PIPELINE_VERSION = 1;
+export const CHAPTER_STEP_NAME = 'Write Chapters';
+
+export interface PipelineFile {
+  format: typeof PIPELINE_FORMAT;
+  version: number;
+  pipeline: WorkflowPipeline;
+}
+
+const BRAINSTORM_STEP: PipelineStep = {
+  name: 'Brainstorm & Reflection',
+  template: DEFAULT_PROMPT_TEMPLATES.step1,
+  filename: '01_brainstorm_and_reflection.md',
+  chapterContext: false
+};
+
+const PLANNING_STEP: PipelineStep = {
+  name: 'Intention & Chapter Planning',
+  template: DEFAULT_PROMPT_TEMPLATES.step2,
+  filename: '02_intention_and_chapter_planning.md',
+  chapterContext: false
+};
+
+const CRITIQUE_STEP: PipelineStep = {
+  name: 'Human vs LLM Critique',
+  template: DEFAULT_PROMPT_TEMPLATES.step3,
+  filename: '03_human_vs_llm_critique.md',
+  chapterContext: false
+};
+
+const FINAL_PLAN_STEP: PipelineStep = {
+  name: 'Final Plan',
+  template: DEFAULT_PROMPT_TEMPLATES.step4,
+  filename: '04_final_plan.md',
+  chapterContext: true
+};
+
+const CHARACTERS_STEP: PipelineStep = {
+  name: 'Characters',
+  template: DEFAULT_PROMPT_TEMPLATES.step5,
+  filename: '05_characters.md',
+  chapterContext: true
+};
+
+const WORLD_BUILDING_STEP: PipelineStep = {
+  name: 'World-Building',
+  template: `Original Story Prompt:
+{{storyPrompt}}
+
+Before the plan is finalised, build the world this {{storyType}} takes place in. Cover:
+- Setting: the places, era and climate, and how they shape daily life.
+- Rules: social structures, technology or magic, and what each costs the people who live with it.
+- History and tensions that press on the plot.
+- Sensory details and vocabulary that should recur in the prose.
+Keep everything in service of the plan; leave out anything the chapters will never touch. Output like this:
+# Setting
+# Rules
+# History & Tensions
+# Texture${FEEDBACK_SECTION}`,
+  filename: 'world_building.md',
+  chapterContext: true,
+  optional: true
+};
+
+// The five-step workflow of the original CLI
+export const CLASSIC_PIPELINE: WorkflowPipeline = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Brainstorm, plan, critique, final plan and characters',
+  steps: [BRAINSTORM_STEP, PLANNING_STEP, CRITIQUE_STEP, FINAL_PLAN_STEP, CHARACTERS_STEP]
+};
+
+export const BUILT_IN_PIPELINES: WorkflowPipeline[] = [
+  CLASSIC_PIPELINE,
+  {
+    id: 'world-building',
+    name: 'Classic with World-Building',
+    description: 'Adds an optional world-building step before the critique',
+    steps: [BRAINSTORM_STEP, PLANNING_STEP, WORLD_BUILDING_STEP, CRITIQUE_STEP, FINAL_PLAN_STEP, CHARACTERS_STEP]
+  },
+  {
+    id: 'lean',
+    name: 'Lean',
+    description: 'Skips the critique for quicker drafts',
+    steps: [BRAINSTORM_STEP, PLANNING_STEP, FINAL_PLAN_STEP, CHARACTERS_STEP]
+  }
+];
+
+// Genre guidance goes after a template's instructions and before its feedback section
+const withGuidance = (template: string, guidance: string) =>
+  template.endsWith(FEEDBACK_SECTION)
+    ? `${template.slice(0, -FEEDBACK_SECTION.length)}\n\n${guidance}${FEEDBACK_SECTION}`
+    : `${template}\n\n${guidance}`;
+
+const withStepGuidance = (step: PipelineStep, guidance: string): PipelineStep => ({
+  ...step,
+  template: withGuidance(step.template, guidance)
+});
+
+// A classic pipeline tuned for a genre: a genre planning step after the chapter plan, and genre checks in the critique
+function createGenrePipeline(options: {
+  id: string;
+  name: string;
+  description: string;
+  brainstorm: string;
+  genreStep: PipelineStep;
+  critique: string;
+  chapter: string;
+}): WorkflowPipeline {
+  return {
+    id: options.id,
+    name: options.name,
+    description: options.description,
+    steps: [
+      withStepGuidance(BRAINSTORM_STEP, options.brainstorm),
+      PLANNING_STEP,
+      options.genreStep,
+      withStepGuidance(CRITIQUE_STEP, options.critique),
+      FINAL_PLAN_STEP,
+      CHARACTERS_STEP
+    ],
+    chapterTemplate: withGuidance(DEFAULT_PROMPT_TEMPLATES.chapter, options.chapter)
+  };
+}
+
+const genreStep = (name: string, filename: string, instructions: string): PipelineStep => ({
+  name,
+  template: `Original Story Prompt:
+{{storyPrompt}}
+
+${instructions}${FEEDBACK_SECTION}`,
+  filename,
+  chapterContext: true
+});
+
+export const GENRE_PIPELINES: WorkflowPipeline[] = [
+  createGenrePipeline({
+    id: 'mystery',
+    name: 'Mystery',
+    description: 'Adds a clue and red-herring ledger and a fair-play check',
+    brainstorm: 'This is a mystery. Brainstorm the crime, the culprit and their motive, how the detective could plausibly uncover the truth, and which misleading trails a reader would find convincing.',
+    genreStep: genreStep('Clue & Red-Herring Ledger', 'clue_ledger.md', `Using the chapter plan, build the ledger that keeps this {{storyType}} a fair-play mystery across its {{chapterCount}} chapters. Output like this:
+# Solution
+<Who did it, how and why, in a few sentences.>
+# Clues
+<One line per clue: the clue | the chapter it is planted in | what it seems to mean | what it really means | the chapter it pays off in.>
+# Red Herrings
+<One line per red herring: the false trail | who or what it points at | why a reader believes it | the chapter it is debunked in.>
+# Reveal
+<The chapter of the reveal and the chain of clues the detective uses to reach it.>`),
+    critique: 'Mystery checks: could an attentive reader solve the case from the clues on the page before the reveal? Is every clue planted before it is needed, is any clue hidden from the reader, and is each red herring explained once it is debunked?',
+    chapter: 'Plant, reinforce or pay off clues and red herrings exactly as the ledger schedules for this chapter, and never reveal the solution earlier than planned.'
+  }),
+  createGenrePipeline({
+    id: 'romance',
+    name: 'Romance',
+    description: 'Adds a romance beat sheet and checks the relationship arc',
+    brainstorm: 'This is a romance. Brainstorm the two leads, what draws them together, the internal wound that keeps each of them from committing and the external obstacle that keeps them apart.',
+    genreStep: genreStep('Romance Beat Sheet', 'romance_beats.md', `Using the chapter plan, lay out the romance arc of this {{storyType}} as a beat sheet across its {{chapterCount}} chapters, giving the chapter each beat lands in. Output like this:
+# Setup
+<Each lead's life, wound and want before they meet.>
+# Meet
+<The first meeting and the spark or friction it creates.>
+# Falling
+<The beats where they are thrown together and start to fall for each other.>
+# Midpoint
+<The moment of intimacy or commitment that raises the stakes.>
+# Retreat
+<How the wounds and obstacles drive them apart, ending in the dark moment.>
+# Grand Gesture
+<What each lead changes or risks to win the other back.>
+# Resolution
+<The happily ever after or happy for now, and the final image.>`),
+    critique: 'Romance checks: is the relationship the spine of the plot rather than a subplot? Does each beat have an emotional cause, is the breakup driven by the characters\' wounds rather than a misunderstanding a single conversation would fix, and is the ending emotionally earned?',
+    chapter: 'Land the romance beats the beat sheet gives this chapter, and keep the tension between the leads alive on the page through their dialogue, body language and what they leave unsaid.'
+  }),
+  createGenrePipeline({
+    id: 'thriller',
+    name: 'Thriller',
+    description: 'Adds a ticking-clock tension plan and checks the pacing',
+    brainstorm: 'This is a thriller. Brainstorm the threat, who or what is behind it, what the protagonist stands to lose and the deadline that forces them to act now.',
+    genreStep: genreStep('Ticking Clock & Tension Plan', 'tension_plan.md', `Using the chapter plan, build the tension plan for this {{storyType}} across its {{chapterCount}} chapters. Output like this:
+# Ticking Clock
+<The deadline, what happens if it passes and how the reader is reminded of it.>
+# Escalation
+<One line per chapter: the time left | what the protagonist tries | what goes wrong | how the stakes rise.>
+# Reversals
+<The twists that turn the plot, and the chapter each one lands in.>
+# Hooks
+<The question or danger each chapter ends on.>`),
+    critique: 'Thriller checks: is the clock ever allowed to stop? Does every chapter raise the stakes or close a door, are the villain\'s moves smart enough to threaten the protagonist, and does each twist follow from what came before?',
+    chapter: 'Keep the clock and the stakes visible, favor short scenes and tight paragraphs when the action peaks, and end on the hook the tension plan gives this chapter.'
+  }),
+  createGenrePipeline({
+    id: 'literary',
+    name: 'Literary',
+    description: 'Adds a theme and motif study and checks for tidy resolutions',
+    brainstorm: 'This is literary fiction. Brainstorm the question at the heart of the piece, the inner lives of the characters and the images and forms that could carry its meaning.',
+    genreStep: genreStep('Theme & Motif Study', 'theme_and_motifs.md', `Using the chapter plan, study what this {{storyType}} is about beneath its plot. Output like this:
+# Central Question
+<The question the piece explores without answering outright.>
+# Motifs & Images
+<Recurring images, objects and settings, what they carry and the chapters they return in.>
+# Interiority
+<What each main character wants, hides and misunderstands about themselves.>
+# Voice & Form
+<The narrative voice, tense and structure, and why they suit this piece.>`),
+    critique: 'Literary checks: does the plan trust the reader with ambiguity, or does it explain its themes or close on a neat epiphany? Are the motifs earned by the story rather than decorating it?',
+    chapter: 'Let meaning live in subtext, image and gesture rather than stated themes, return to the motifs where the study places them, and do not resolve what the piece leaves open.'
+  }),
+  createGenrePipeline({
+    id: 'childrens',
+    name: 'Children\'s',
+    description: 'Adds reading-level constraints and an age-appropriateness check',
+    brainstorm: 'This is a children\'s book. Brainstorm a young hero the reader can identify with, a problem they solve through their own actions and the wonder, humour and warmth the story can offer.',
+    genreStep: genreStep('Reading Level & Audience', 'reading_level.md', `Set the reading-level constraints every chapter of this {{storyType}} must follow, given the prompt and the chapter plan. Output like this:
+# Audience
+<The age band, and what readers of that age enjoy and understand.>
+# Vocabulary
+<The level of vocabulary, words to avoid and how new words are introduced.>
+# Sentences
+<Typical and maximum sentence length, paragraph length and how much dialogue to use.>
+# Content
+<Themes that need gentle handling, what is off limits and how conflict and danger stay age-appropriate.>`),
+    critique: 'Children\'s book checks: does the plan keep to the reading level and content limits? Does the young hero solve the problem themselves rather than an adult solving it for them, and does the story respect its readers without lecturing them?',
+    chapter: 'Follow the reading-level constraints exactly: the vocabulary, sentence length and content limits they set for the audience.'
+  })
+];
+
+export const isBuiltInPipeline = (id: string) =>
+  [...BUILT_IN_PIPELINES, ...GENRE_PIPELINES].some(pipeline => pipeline.id === id);
+
+// The story's pipeline, or the classic one for stories saved before pipelines existed
+export function resolvePipeline(pipeline?: WorkflowPipeline): WorkflowPipeline {
+  return pipeline || CLASSIC_PIPELINE;
+}
+
+// The workflow step that writes the chapters comes straight after the planning steps
+export function getChapterStepId(pipeline: WorkflowPipeline): number {
+  return pipeline.steps.length + 1;
+}
+
+// Workflow steps for a new story: the pipeline's planning steps, then chapter writing
+export function createPipelineSteps(pipeline: WorkflowPipeline): WorkflowStep[] {
+  return [...pipeline.steps.map(step => step.name), CHAPTER_STEP_NAME].map((name, index) => ({
+    id: index + 1,
+    name,
+    content: '',
+    completed: false,
+    feedback: '',
+    isProcessing: false
+  }));
+}
+
+export function getPipelineStep(pipeline: WorkflowPipeline, stepId: number): PipelineStep | undefined {
+  return pipeline.steps[stepId - 1];
+}
+
+// Planning steps whose output is always kept in chapter prompts
+export function getChapterContextSteps(pipeline: WorkflowPipeline, steps: WorkflowStep[]): WorkflowStep[] {
+  return steps.filter(step => getPipelineStep(pipeline, step.id)?.chapterContext);
+}
+
+/**
+ * Settings for a story switching to another pipeline. Step ids are positions in the pipeline,
+ * so per-step routes, step templates and autopilot step checkpoints no longer line up and are
+ * dropped; the chapter route and chapter templates carry over.
+ */
+export function switchPipeline(config: ProjectConfig, pipeline: WorkflowPipeline): Partial<ProjectConfig> {
+  const chapterRoute = config.stepRoutes?.[getChapterStepId(resolvePipeline(config.pipeline))];
+  return {
+    pipeline,
+    stepRoutes: chapterRoute ? { [getChapterStepId(pipeline)]: chapterRoute } : {},
+    promptTemplates: keepChapterTemplates(config.promptTemplates),
+    ...(config.autopilot ? { autopilot: { ...config.autopilot, pauseAfterSteps: [] } } : {})
+  };
+}
+
+export function createPipelineId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Problems that would stop a pipeline from running or exporting cleanly
+export function validatePipeline(pipeline: WorkflowPipeline): string[] {
+  const problems: string[] = [];
+  if (!pipeline.name?.trim()) problems.push('The pipeline needs a name');
+  if (!Array.isArray(pipeline.steps) || pipeline.steps.length === 0) {
+    problems.push('The pipeline needs at least one step');
+    return problems;
+  }
+
+  const filenames = new Set<string>();
+  pipeline.steps.forEach((step, index) => {
+    const label = `Step ${index + 1}`;
+    if (!step.name?.trim()) problems.push(`${label} needs a name`);
+    if (!step.template?.trim()) problems.push(`${label} needs a prompt template`);
+    const filename = step.filename?.trim().toLowerCase();
+    if (!filename || /[/\\]/.test(filename)) {
+      problems.push(`${label} needs an output file name without folders`);
+    } else if (filenames.has(filename)) {
+      problems.push(`${label} uses the same output file name as an earlier step`);
+    }
+    if (filename) filenames.add(filename);
+  });
+  return problems;
+}
+
+export function serializePipeline(pipeline: WorkflowPipeline): string {
+  const file: PipelineFile = { format: PIPELINE_FORMAT, version: PIPELINE_VERSION, pipeline };
+  return JSON.stringify(file, null, 2);
+}
+
+// Read a pipeline definition file
+export function parsePipeline(text: string): WorkflowPipeline {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Failed to read pipeline: the file is not valid JSON');
+  }
+  if (!data || data.format !== PIPELINE_FORMAT || !data.pipeline) {
+    throw new Error('Failed to read pipeline: this is not a pipeline file');
+  }
+  if (typeof data.version !== 'number' || data.version > PIPELINE_VERSION) {
+    throw new Error(`Failed to read pipeline: unsupported version ${data.version}`);
+  }
+
+  const source = data.pipeline;
+  const pipeline: WorkflowPipeline = {
+    id: typeof source.id === 'string' && source.id ? source.id : createPipelineId(),
+    name: String(source.name || ''),
+    description: source.description ? String(source.description) : undefined,
+    steps: Array.isArray(source.steps)
+      ? source.steps.map((step: any): PipelineStep => ({
+          name: String(step?.name || ''),
+          template: String(step?.template || ''),
+          filename: String(step?.filename || ''),
+          chapterContext: !!step?.chapterContext,
+          optional: !!step?.optional
+        }))
+      : [],
+    chapterTemplate: source.chapterTemplate ? String(source.chapterTemplate) : undefined
+  };
+
+  const problems = validatePipeline(pipeline);
+  if (problems.length > 0) {
+    throw new Error(`Failed to read pipeline: ${problems[0]}`);
+  }
+  return pipeline;
+}
@@ -0,0 +1,41 @@
+/**
+ * Model Pricing Storage
+ * Per-model token prices (USD per million tokens) kept in local storage
+ */
+
+import { ModelPricing } from './types';
+
+const PRICING_KEY = 'ai_story_author_pricing';
+
+export function loadModelPricing(): Record<string, ModelPricing> {
+  try {
+    const stored = localStorage.getItem(PRICING_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to load model pricing:', error);
+    return {};
+  }
+}
+
+export function saveModelPricing(pricing: Record<string, ModelPricing>): void {
+  try {
+    localStorage.setItem(PRICING_KEY, JSON.stringify(pricing));
+  } catch (error) {
+    console.error('Failed to save model pricing:', error);
+    throw new Error('Failed to save model pricing');
+  }
+}
+
+// Merge freshly fetched prices without overwriting prices the user entered by hand
+export function mergeFetchedPricing(
+  existing: Record<string, ModelPricing>,
+  fetched: Record<string, ModelPricing>
+): Record<string, ModelPricing> {
+  const merged = { ...existing };
+  for (const [model, pricing] of Object.entries(fetched)) {
+    if (merged[model]?.source !== 'manual') {
+      merged[model] = pricing;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,52 @@
+import JSZip from 'jszip';
+import { exportProjectJson, exportProjectZip, importProjectBundle } from './projectBundle';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+import { StoryProject } from './types';
+
+const project: StoryProject = {
+  id: 'story',
+  name: 'The Salt Road',
+  createdAt: 1,
+  updatedAt: 2,
+  storyPrompt: 'A caravan crosses the salt flats.',
+  storyType: 'novel',
+  chapterCount: 2,
+  currentStep: 6,
+  steps: createPipelineSteps(CLASSIC_PIPELINE).map(step => (
+    step.id < 6 ? { ...step, content: `Step ${step.id} output`, completed: true, feedback: step.id === 2 ? 'More sand.' : '' } : step
+  )),
+  chapters: createInitialChapters(2).map(chapter => (
+    chapter.id === 1 ? { ...chapter, content: 'The caravan set out.', wordCount: 4, completed: true } : chapter
+  )),
+  messages: [{ role: 'user', content: 'Brainstorm' }, { role: 'assistant', content: 'Step 1 output' }],
+  config: { model: 'model', baseUrl: 'https://api.example.com/v1', stream: true, temperature: 0.8 }
+};
+const withKey = { ...project, config: { ...project.config, apiKey: 'sk-secret' } } as StoryProject;
+
+test('a JSON export imports back as the same project, without the API key', async () => {
+  const blob = exportProjectJson(withKey);
+  expect(await blob.text()).not.toContain('sk-secret');
+  expect(await importProjectBundle(blob)).toEqual(project);
+});
+
+test('a zip export imports back and carries the CLI-style Markdown layout', async () => {
+  const blob = await exportProjectZip(withKey);
+  expect(await importProjectBundle(blob)).toEqual(project);
+
+  const zip = await JSZip.loadAsync(blob);
+  expect(await zip.file('prompt.md')!.async('string')).toBe(project.storyPrompt);
+  expect(await zip.file('02_intention_and_chapter_planning.md')!.async('string')).toContain('## Feedback\n\nMore sand.');
+  expect(await zip.file('chapters/chapter_01.md')!.async('string')).toBe('The caravan set out.');
+  expect(zip.file('chapters/chapter_02.md')).toBeNull();
+  expect(await zip.file('transcript.md')!.async('string')).toContain('## assistant\n\nStep 1 output');
+});
+
+test('files that are not project bundles are rejected', async () => {
+  await expect(importProjectBundle(new Blob(['not json']))).rejects.toThrow('Project file is not valid JSON');
+  await expect(importProjectBundle(new Blob(['{"format":"other"}']))).rejects.toThrow('Not a valid AI Author project file');
+  await expect(importProjectBundle(new Blob([JSON.stringify({ format: 'ai-author-project', version: 99, project })])))
+    .rejects.toThrow('Unsupported project file version: 99');
+  await expect(importProjectBundle(await new JSZip().file('notes.md', 'Hi').generateAsync({ type: 'blob' })))
+    .rejects.toThrow('Zip does not contain project.json');
+});
@@ -0,0 +1,122 @@
+/**
+ * Project Bundle Export/Import
+ * Lossless round-trip format for handing a project to a teammate, as a zip or single JSON file
+ */
+
+import JSZip from 'jszip';
+import { StoryProject, Message } from './types';
+import { resolvePipeline, getPipelineStep } from './pipelines';
+
+export const BUNDLE_FORMAT = 'ai-author-project';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_JSON_FILENAME = 'project.json';
+
+export interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: StoryProject;
+}
+
+// Chapter file names inside the bundle's chapters/ folder
+export function chapterFilename(chapterId: number): string {
+  return `chapter_${String(chapterId).padStart(2, '0')}.md`;
+}
+
+// Remove anything secret before a project leaves the browser
+function sanitizeProject(project: StoryProject): StoryProject {
+  const { apiKey, ...config } = project.config as StoryProject['config'] & { apiKey?: string };
+  return { ...project, config };
+}
+
+export function createBundle(project: StoryProject): ProjectBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: sanitizeProject(project)
+  };
+}
+
+function formatTranscript(messages: Message[]): string {
+  return messages
+    .map(message => `## ${message.role}\n\n${message.content}`)
+    .join('\n\n---\n\n');
+}
+
+// Export the project as a single JSON file
+export function exportProjectJson(project: StoryProject): Blob {
+  return new Blob([JSON.stringify(createBundle(project), null, 2)], { type: 'application/json' });
+}
+
+// Export the project as a zip with project.json plus a Markdown layout matching the CLI output
+export async function exportProjectZip(project: StoryProject): Promise<Blob> {
+  const bundle = createBundle(project);
+  const zip = new JSZip();
+
+  zip.file(BUNDLE_JSON_FILENAME, JSON.stringify(bundle, null, 2));
+  zip.file('prompt.md', project.storyPrompt);
+
+  const pipeline = resolvePipeline(project.config.pipeline);
+  project.steps.forEach(step => {
+    const filename = getPipelineStep(pipeline, step.id)?.filename;
+    if (filename && step.content) {
+      const feedback = step.feedback ? `\n\n---\n\n## Feedback\n\n${step.feedback}\n` : '';
+      zip.file(filename, `${step.content}${feedback}`);
+    }
+  });
+
+  project.chapters.forEach(chapter => {
+    if (chapter.content) {
+      zip.file(`chapters/${chapterFilename(chapter.id)}`, chapter.content);
+    }
+  });
+
+  zip.file('transcript.md', formatTranscript(project.messages));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+function parseBundle(json: string): StoryProject {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error('Project file is not valid JSON');
+  }
+
+  if (!data || data.format !== BUNDLE_FORMAT || !data.project) {
+    throw new Error('Not a valid AI Author project file');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported project file version: ${data.version}`);
+  }
+
+  const project = data.project as StoryProject;
+  if (!Array.isArray(project.steps) || !Array.isArray(project.chapters) || !Array.isArray(project.messages)) {
+    throw new Error('Project file is missing steps, chapters or messages');
+  }
+
+  return sanitizeProject(project);
+}
+
+// Check whether a file starts with the zip magic number
+async function isZipFile(file: Blob): Promise<boolean> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+}
+
+// Import a project from a bundle zip or JSON file
+export async function importProjectBundle(file: Blob): Promise<StoryProject> {
+  if (await isZipFile(file)) {
+    const zip = await JSZip.loadAsync(file);
+    const entry = zip.file(BUNDLE_JSON_FILENAME)
+      || zip.file(new RegExp(`(^|/)${BUNDLE_JSON_FILENAME.replace('.', '\\.')}$`))[0];
+    if (!entry) {
+      throw new Error(`Zip does not contain ${BUNDLE_JSON_FILENAME}`);
+    }
+    return parseBundle(await entry.async('string'));
+  }
+
+  return parseBundle(await file.text());
+}
@@ -0,0 +1,68 @@
+import {
+  deleteProject,
+  deriveProjectName,
+  duplicateProject,
+  listProjects,
+  loadProject,
+  renameProject,
+  saveProject,
+  toProjectConfig
+} from './projectStorage';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+import { StoryProject } from './types';
+
+jest.mock('./database');
+
+const project = (id: string, name: string): StoryProject => ({
+  id,
+  name,
+  createdAt: 1,
+  updatedAt: 1,
+  storyPrompt: `# ${name}\nA story.`,
+  storyType: 'novel',
+  chapterCount: 2,
+  currentStep: 2,
+  steps: createPipelineSteps(CLASSIC_PIPELINE).map(step => (
+    step.id === 1 ? { ...step, content: 'Brainstorm', completed: true } : { ...step, isProcessing: step.id === 2 }
+  )),
+  chapters: createInitialChapters(2),
+  messages: [{ role: 'user', content: 'Prompt 1' }, { role: 'assistant', content: 'Brainstorm' }],
+  config: toProjectConfig({ model: 'model', apiKey: 'secret', baseUrl: 'https://api.example.com/v1', stream: true })
+});
+
+test('project names come from the first line of the prompt', () => {
+  expect(deriveProjectName('\n## The Glass Orchard\nA story.')).toBe('The Glass Orchard');
+  expect(deriveProjectName('   ')).toBe('Untitled Story');
+  expect(deriveProjectName('x'.repeat(80))).toBe(`${'x'.repeat(57)}...`);
+});
+
+test('a saved project loads back without its API key or processing flags', async () => {
+  const saved = await saveProject(project('a', 'First'));
+  expect(saved.updatedAt).toBeGreaterThan(1);
+
+  const loaded = await loadProject('a');
+  expect(loaded).toEqual(saved);
+  expect(loaded?.config).not.toHaveProperty('apiKey');
+  expect(loaded?.steps.some(step => step.isProcessing)).toBe(false);
+  expect(loaded?.steps[0].content).toBe('Brainstorm');
+  expect(await loadProject('missing')).toBeNull();
+});
+
+test('the library lists, renames, duplicates and deletes projects', async () => {
+  await saveProject(project('b', 'Second'));
+  await renameProject('b', '  Second, renamed ');
+  const copy = await duplicateProject('b');
+  expect(copy.id).not.toBe('b');
+  expect(copy.name).toBe('Second, renamed (copy)');
+  expect(copy.steps).toEqual((await loadProject('b'))?.steps);
+
+  const summaries = await listProjects();
+  expect(summaries.map(summary => summary.name)).toEqual(expect.arrayContaining(['Second, renamed', 'Second, renamed (copy)']));
+  expect(summaries.find(summary => summary.id === 'b')).toMatchObject({ currentStep: 2, planningSteps: 5, chapterCount: 2, completedChapters: 0 });
+  summaries.slice(1).forEach((summary, index) => expect(summary.updatedAt).toBeLessThanOrEqual(summaries[index].updatedAt));
+
+  await deleteProject('b');
+  expect(await loadProject('b')).toBeNull();
+  await expect(renameProject('b', 'Gone')).rejects.toThrow('Project not found');
+});
@@ -0,0 +1,125 @@
+/**
+ * Project Library Storage
+ * Persists story projects (steps, chapters, conversation and config) to IndexedDB
+ */
+
+import { StoryProject, ProjectSummary, StoryConfig, ProjectConfig } from './types';
+import { PROJECT_STORE, withStore } from './database';
+
+// Generate a unique project id
+export function createProjectId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Derive a project name from the first line of the story prompt
+export function deriveProjectName(storyPrompt: string): string {
+  const firstLine = storyPrompt
+    .split('\n')
+    .map(line => line.replace(/^#+\s*/, '').trim())
+    .find(Boolean);
+
+  if (!firstLine) return 'Untitled Story';
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+// Strip the API key from a config before it is persisted with a project
+export function toProjectConfig(config: StoryConfig): ProjectConfig {
+  const { apiKey, ...projectConfig } = config;
+  return projectConfig;
+}
+
+function toSummary(project: StoryProject): ProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    storyType: project.storyType,
+    currentStep: project.currentStep,
+    planningSteps: project.steps.length - 1, // The last step writes the chapters
+    chapterCount: project.chapterCount,
+    completedChapters: project.chapters.filter(chapter => chapter.completed).length
+  };
+}
+
+// List all saved projects, most recently updated first
+export async function listProjects(): Promise<ProjectSummary[]> {
+  try {
+    const projects = await withStore<StoryProject[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+    return projects
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Failed to list projects:', error);
+    throw new Error('Failed to list projects');
+  }
+}
+
+// Load a single project by id
+export async function loadProject(id: string): Promise<StoryProject | null> {
+  try {
+    const project = await withStore<StoryProject | undefined>(PROJECT_STORE, 'readonly', store => store.get(id));
+    return project || null;
+  } catch (error) {
+    console.error('Failed to load project:', error);
+    throw new Error('Failed to load project');
+  }
+}
+
+// Save (insert or replace) a project
+export async function saveProject(project: StoryProject): Promise<StoryProject> {
+  const projectToStore: StoryProject = {
+    ...project,
+    updatedAt: Date.now(),
+    // Never persist transient processing flags
+    steps: project.steps.map(step => ({ ...step, isProcessing: false })),
+    chapters: project.chapters.map(chapter => ({ ...chapter, isProcessing: false }))
+  };
+
+  try {
+    await withStore(PROJECT_STORE, 'readwrite', store => store.put(projectToStore));
+    return projectToStore;
+  } catch (error) {
+    console.error('Failed to save project:', error);
+    throw new Error('Failed to save project');
+  }
+}
+
+// Delete a project by id
+export async function deleteProject(id: string): Promise<void> {
+  try {
+    await withStore(PROJECT_STORE, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error('Failed to delete project:', error);
+    throw new Error('Failed to delete project');
+  }
+}
+
+// Rename a project
+export async function renameProject(id: string, name: string): Promise<StoryProject> {
+  const project = await loadProject(id);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  return saveProject({ ...project, name: name.trim() || project.name });
+}
+
+// Duplicate a project under a new id
+export async function duplicateProject(id: string): Promise<StoryProject> {
+  const project = await loadProject(id);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  const now = Date.now();
+  return saveProject({
+    ...project,
+    id: createProjectId(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  });
+}
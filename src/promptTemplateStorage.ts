@@ -0,0 +1,27 @@
+/**
+ * Prompt Template Storage
+ * Named prompt template sets kept in local storage
+ */
+
+import { PromptTemplateSet } from './types';
+
+const TEMPLATE_SETS_KEY = 'ai_story_author_prompt_templates';
+
+export function loadTemplateSets(): PromptTemplateSet[] {
+  try {
+    const stored = localStorage.getItem(TEMPLATE_SETS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load prompt template sets:', error);
+    return [];
+  }
+}
+
+export function saveTemplateSets(sets: PromptTemplateSet[]): void {
+  try {
+    localStorage.setItem(TEMPLATE_SETS_KEY, JSON.stringify(sets));
+  } catch (error) {
+    console.error('Failed to save prompt template sets:', error);
+    throw new Error('Failed to save prompt template sets');
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  buildPrompt,
+  fillPromptTemplate,
+  findUnknownVariables,
+  pruneDefaultTemplates
+} from './promptTemplates';
+
+const variables = {
+  storyPrompt: 'A lighthouse keeper waits for her brother.',
+  storyType: 'novel',
+  chapterCount: 12,
+  wordTarget: 4000
+};
+
+test('the default chapter template renders the prompt the workflow has always sent', () => {
+  expect(buildPrompt(undefined, 'chapter', { ...variables, chapterIndex: 3 })).toBe(
+    `Original Story Prompt:\n${variables.storyPrompt}\n\nWrite Chapter 3 of the novel, following the approved plan and prior chapters.\n- Produce at least 4000 words of narrative prose.\n- Count only the words in your final story text; do not include planning notes or analysis.\n- Output only the polished chapter text (you may open with a 'Chapter 3' heading if that matches the style), and do not mention the word count or include any commentary.`
+  );
+});
+
+test('feedback sections appear only when there is feedback', () => {
+  const withoutFeedback = buildPrompt(undefined, 'step4', { ...variables, feedback: '  ' });
+  const withFeedback = buildPrompt(undefined, 'step4', { ...variables, feedback: 'Fewer subplots.' });
+
+  expect(withoutFeedback).not.toContain('FEEDBACK TO APPLY');
+  expect(withFeedback).toBe(
+    `${withoutFeedback}\n\n--- FEEDBACK TO APPLY ---\nFewer subplots.\n\nPlease incorporate this feedback into your response above.`
+  );
+  expect(withoutFeedback).toContain('compelling novel in 12 chapters');
+  expect(withoutFeedback).toContain('approximately 4000 words');
+});
+
+test('edited templates replace the defaults', () => {
+  const prompt = buildPrompt({ step3: 'Critique the {{storyType}} plan harshly.' }, 'step3', variables);
+  expect(prompt).toBe('Critique the novel plan harshly.');
+  expect(buildPrompt({ step3: 'x' }, 'step2', variables)).toContain('Great now let\'s continue with planning the novel.');
+});
+
+test('values are inserted literally and unknown placeholders are left as written', () => {
+  const prompt = fillPromptTemplate('{{storyPrompt}} / {{chapterIndex}} / {{mood}}', {
+    ...variables,
+    storyPrompt: 'Braces {{storyType}} stay as typed'
+  });
+  expect(prompt).toBe('Braces {{storyType}} stay as typed / {{chapterIndex}} / {{mood}}');
+});
+
+test('placeholders the prompt does not provide are reported', () => {
+  expect(findUnknownVariables('{{chapterIndex}} {{storyPrompt}} {{#feedback}}x{{/feedback}}', 'step2')).toEqual(['chapterIndex']);
+  expect(findUnknownVariables(DEFAULT_PROMPT_TEMPLATES.continuation, 'continuation')).toEqual([]);
+});
+
+test('only templates that differ from the defaults are kept', () => {
+  expect(pruneDefaultTemplates({ ...DEFAULT_PROMPT_TEMPLATES, step3: 'Custom' })).toEqual({ step3: 'Custom' });
+});
@@ -0,0 +1,205 @@
+import { PromptTemplateId, PromptTemplates, WorkflowPipeline } from './types';
+
+// Values available to templates as {{name}}
+export interface PromptVariables {
+  storyPrompt: string;
+  storyType: string; // "short story" or "novel"
+  chapterCount: number;
+  wordTarget: number;
+  chapterIndex?: number;
+  chapterOutline?: string; // Chapters only
+  feedback?: string;
+  currentWords?: number; // Continuations only
+  remainingWords?: number; // Continuations only
+}
+
+export type PromptVariableName = keyof PromptVariables;
+
+const CHAPTER_TEMPLATE_LABELS = {
+  chapter: 'Chapter',
+  continuation: 'Chapter Continuation'
+};
+
+export const PROMPT_VARIABLE_DESCRIPTIONS: Record<PromptVariableName, string> = {
+  storyPrompt: 'The story prompt entered on the start screen',
+  storyType: '"short story" or "novel"',
+  chapterCount: 'Number of chapters',
+  wordTarget: 'Target words per chapter',
+  chapterIndex: 'Number of the chapter being written',
+  chapterOutline: 'The chapter\'s outline: title, POV, summary and key beats (empty when there is none)',
+  feedback: 'Feedback entered for this step or chapter (empty when there is none)',
+  currentWords: 'Words the chapter has so far',
+  remainingWords: 'Words still needed to reach the target'
+};
+
+const STORY_VARIABLES: PromptVariableName[] = ['storyPrompt', 'storyType', 'chapterCount', 'wordTarget'];
+
+export const FEEDBACK_SECTION = `{{#feedback}}
+
+--- FEEDBACK TO APPLY ---
+{{feedback}}
+
+Please incorporate this feedback into your response above.{{/feedback}}`;
+
+const PLAN_FORMAT = `# Intention
+<State your formulated intentions for the piece, synthesised from the parts of the brainstorming session that worked, and avoiding the parts that didn't. Be explicit about the choices you have made about plot, voice, stylistic choices, things you intend to aim for & avoid.>
+# Chapter Planning
+<Write a brief chapter plan for all {{chapterCount}} chapters.>`;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  step1: `Initial Writing Prompt:
+{{storyPrompt}}
+--
+Your task is to create a writing plan for this prompt. The scope will be a {{storyType}}; do not assume a fixed number of chapters yet. Your plan should be comprehensive and in this format:
+# Brainstorming
+<Brainstorm ideas for characters, plot, tone, story beats, and possible pacing. The purpose of brainstorming is to cast a wide net of ideas, not to settle on any specific direction. Think about various ways you could take the prompt.>
+# Reflection
+<Reflect out loud on what works and doesn't work in these ideas. The purpose of this reflection is to narrow in on what you think will work best to make a piece that is a. compelling, and b. fits the prompt requirements. You are not making any decisions just yet, just reflecting.>
+Finally, propose the ideal number of chapters for this {{storyType}} based on the prompt and your analysis.
+Output a single line at the end in this exact format so it can be parsed reliably:
+CHAPTER_COUNT: <integer>${FEEDBACK_SECTION}`,
+
+  step2: `Original Story Prompt:
+{{storyPrompt}}
+
+Great now let's continue with planning the {{storyType}}. Output in this format:
+${PLAN_FORMAT}${FEEDBACK_SECTION}`,
+
+  step3: `Original Story Prompt:
+{{storyPrompt}}
+
+With a view to making the writing more human, discuss how a human might approach this particular piece (given the original prompt). Discuss telltale LLM approaches to writing (generally) and ways they might not serve this particular piece. For example, common LLM failings are to write safely, or to always wrap things up with a bow, or trying to write impressively at the expense of readability. Then do a deep dive on the intention & plan, critiquing ways it might be falling into typical LLM tropes & pitfalls. Brainstorm ideas to make it more human. Be comprehensive. We aren't doing any rewriting of the plan yet, just critique & brainstorming.${FEEDBACK_SECTION}`,
+
+  step4: `Original Story Prompt:
+{{storyPrompt}}
+
+Ok now with these considerations in mind, formulate the final plan for a human like, compelling {{storyType}} in {{chapterCount}} chapters. Bear in mind the constraints of the piece (each chapter is approximately {{wordTarget}} words). Above all things, the plan must serve the original prompt. We will use the same format as before:
+${PLAN_FORMAT}${FEEDBACK_SECTION}`,
+
+  step5: `Original Story Prompt:
+{{storyPrompt}}
+
+Perfect. Now with the outline more crystallised, and bearing in mind the discussion on human writing vs LLM pitfalls, we will flesh out our characters. Lets go through each of our main characters:
+- Write about their background, personality, idiosyncrasies, flaws. Be specific and come up with examples to anchor & ground the character's profile (both core and trivial)
+- Briefly describe their physicality: appearance, how they carry themselves, express, interact with the world.
+- Concisely detail their motives, allegiances and existing relationships. Think from the perspective of the character as a real breathing thinking feeling individual in this world.
+- Write a couple quotes of flavour dialogue / internal monologue from the character to experiment with their voice.
+Output like this:
+# Character 1 name
+<character exploration>
+# Character 2 name
+<character exploration>
+ etc${FEEDBACK_SECTION}`,
+
+  chapter: `Original Story Prompt:
+{{storyPrompt}}
+
+Write Chapter {{chapterIndex}} of the {{storyType}}, following the approved plan and prior chapters.{{#chapterOutline}}
+
+Outline for this chapter:
+{{chapterOutline}}
+{{/chapterOutline}}
+- Produce at least {{wordTarget}} words of narrative prose.
+- Count only the words in your final story text; do not include planning notes or analysis.
+- Output only the polished chapter text (you may open with a 'Chapter {{chapterIndex}}' heading if that matches the style), and do not mention the word count or include any commentary.${FEEDBACK_SECTION}`,
+
+  continuation: `Chapter {{chapterIndex}} currently has {{currentWords}} words, short of the {{wordTarget}}-word target.
+Continue Chapter {{chapterIndex}} seamlessly from exactly where the text above stops. Do not restart the chapter, repeat earlier passages, add a heading or summarise what has happened.
+- Write roughly {{remainingWords}} more words of narrative prose in the same voice, tense and point of view.
+- Output only the continuation text, with no commentary.`
+};
+
+export const stepTemplateId = (stepId: number) => `step${stepId}` as PromptTemplateId;
+
+// Pipeline step number of a step template, or null for the chapter templates
+const stepNumber = (id: PromptTemplateId): number | null =>
+  id.startsWith('step') ? parseInt(id.slice(4), 10) : null;
+
+// A template for each step of the pipeline, then the chapter templates
+export function getPromptTemplateIds(pipeline: WorkflowPipeline): PromptTemplateId[] {
+  return [...pipeline.steps.map((_, index) => stepTemplateId(index + 1)), 'chapter', 'continuation'];
+}
+
+export function getPromptTemplateLabel(id: PromptTemplateId, pipeline: WorkflowPipeline): string {
+  const step = stepNumber(id);
+  if (step === null) return CHAPTER_TEMPLATE_LABELS[id as keyof typeof CHAPTER_TEMPLATE_LABELS];
+  return `${step}. ${pipeline.steps[step - 1]?.name || 'Step'}`;
+}
+
+export function getTemplateVariables(id: PromptTemplateId): PromptVariableName[] {
+  if (id === 'chapter') return [...STORY_VARIABLES, 'chapterIndex', 'chapterOutline', 'feedback'];
+  if (id === 'continuation') return [...STORY_VARIABLES, 'chapterIndex', 'currentWords', 'remainingWords'];
+  return [...STORY_VARIABLES, 'feedback'];
+}
+
+// The pipeline's template for a step or its chapters, otherwise the built-in default
+export function getDefaultTemplate(id: PromptTemplateId, pipeline?: WorkflowPipeline): string {
+  const step = stepNumber(id);
+  const pipelineTemplate = step !== null
+    ? pipeline?.steps[step - 1]?.template
+    : id === 'chapter' ? pipeline?.chapterTemplate : undefined;
+  return pipelineTemplate ?? DEFAULT_PROMPT_TEMPLATES[id] ?? '';
+}
+
+// The user's template where one is set, otherwise the default
+export function getPromptTemplate(
+  overrides: Partial<PromptTemplates> | undefined,
+  id: PromptTemplateId,
+  pipeline?: WorkflowPipeline
+): string {
+  return overrides?.[id] ?? getDefaultTemplate(id, pipeline);
+}
+
+/**
+ * Fill in {{name}} placeholders. {{#name}}...{{/name}} sections are kept only when the variable
+ * is set and not blank. Unknown placeholders are left as written so mistakes show in the preview.
+ */
+export function fillPromptTemplate(template: string, variables: PromptVariables): string {
+  const valueOf = (name: string) => {
+    const value = variables[name as PromptVariableName];
+    return value === undefined ? '' : String(value);
+  };
+
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, body: string) => (valueOf(name).trim() ? body : ''))
+    .replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => (name in variables ? valueOf(name) : placeholder));
+}
+
+export function buildPrompt(
+  overrides: Partial<PromptTemplates> | undefined,
+  id: PromptTemplateId,
+  variables: PromptVariables,
+  pipeline?: WorkflowPipeline
+): string {
+  return fillPromptTemplate(getPromptTemplate(overrides, id, pipeline), variables);
+}
+
+// Placeholders in a template that the template's prompt does not provide
+export function findUnknownVariables(template: string, id: PromptTemplateId): string[] {
+  const known = getTemplateVariables(id) as string[];
+  const used = Array.from(template.matchAll(/\{\{[#/]?(\w+)\}\}/g), match => match[1]);
+  return Array.from(new Set(used.filter(name => !known.includes(name))));
+}
+
+// Keep only templates that differ from the defaults, so improved defaults still reach everyone else
+export function pruneDefaultTemplates(
+  templates: Partial<PromptTemplates>,
+  pipeline?: WorkflowPipeline
+): Partial<PromptTemplates> {
+  const pruned: Partial<PromptTemplates> = {};
+  (Object.keys(templates) as PromptTemplateId[]).forEach(id => {
+    const template = templates[id];
+    if (template !== undefined && template !== getDefaultTemplate(id, pipeline)) {
+      pruned[id] = template;
+    }
+  });
+  return pruned;
+}
+
+// Step templates no longer line up with their steps once the pipeline changes, so only the chapter ones carry over
+export function keepChapterTemplates(templates: Partial<PromptTemplates> | undefined): Partial<PromptTemplates> {
+  const kept: Partial<PromptTemplates> = {};
+  if (templates?.chapter !== undefined) kept.chapter = templates.chapter;
+  if (templates?.continuation !== undefined) kept.continuation = templates.continuation;
+  return kept;
+}
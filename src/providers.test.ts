@@ -0,0 +1,140 @@
+import { getProviderAdapter, readStreamEvents, ProviderRequest } from './providers';
+import { createChunkReader } from './syntheticResponse';
+import { Message, ProviderId, SamplingParams } from './types';
+
+const messages: Message[] = [
+  { role: 'system', content: 'You are a novelist.' },
+  { role: 'user', content: 'Plan the story.' },
+  { role: 'user', content: 'Keep it short.' },
+  { role: 'assistant', content: 'A plan.' },
+  { role: 'user', content: 'Write Chapter 1.' }
+];
+
+const buildRequest = (provider: ProviderId, changes: Partial<ProviderRequest> = {}) => {
+  const { url, init } = getProviderAdapter(provider).buildRequest({
+    messages,
+    model: 'model',
+    apiKey: 'key',
+    baseUrl: 'https://api.example.com/v1/',
+    stream: false,
+    ...changes
+  });
+  return { url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) };
+};
+
+const requestBody = (sampling?: SamplingParams) => buildRequest('openai', { baseUrl: 'https://openrouter.ai/api/v1/', sampling }).body;
+
+const collectEvents = async (chunks: string[], format: 'sse' | 'ndjson') => {
+  const payloads: string[] = [];
+  for await (const payload of readStreamEvents(createChunkReader(chunks.map(data => ({ data, delayMs: 0 }))), format)) {
+    payloads.push(payload);
+  }
+  return payloads;
+};
+
+test('OpenAI-compatible requests send sampling under their snake_case names', () => {
+  const { url, headers, body } = buildRequest('openai', {
+    temperature: 0.7,
+    stream: true,
+    sampling: { maxTokens: 4096, topP: 0.9, stop: [], repetitionPenalty: 1.1 }
+  });
+  expect(url).toBe('https://api.example.com/v1/chat/completions');
+  expect(headers.Authorization).toBe('Bearer key');
+  expect(body).toEqual({
+    model: 'model',
+    messages,
+    stream: true,
+    temperature: 0.7,
+    max_tokens: 4096,
+    top_p: 0.9,
+    repetition_penalty: 1.1
+  });
+  expect(buildRequest('openai').body).not.toHaveProperty('temperature');
+});
+
+test('streamed usage is only asked for from servers known to accept stream_options', () => {
+  expect(buildRequest('openai', { stream: true, baseUrl: 'https://openrouter.ai/api/v1' }).body.stream_options)
+    .toEqual({ include_usage: true });
+  expect(buildRequest('openai', { stream: true, baseUrl: 'https://api.openai.com/v1' }).body).toHaveProperty('stream_options');
+  expect(buildRequest('openai', { stream: true, baseUrl: 'http://localhost:1234/v1' }).body).not.toHaveProperty('stream_options');
+  expect(buildRequest('openai', { baseUrl: 'https://api.openai.com/v1' }).body).not.toHaveProperty('stream_options');
+});
+
+test('OpenRouter routing is only sent when a routing field is set', () => {
+  expect(requestBody()).not.toHaveProperty('provider');
+  expect(requestBody({ openRouter: {} })).not.toHaveProperty('provider');
+  expect(requestBody({ openRouter: { order: [] } })).not.toHaveProperty('provider');
+  expect(requestBody({ openRouter: { order: ['anthropic'], allowFallbacks: false } }).provider)
+    .toEqual({ order: ['anthropic'], allow_fallbacks: false });
+  expect(requestBody({ openRouter: { sort: 'price' } }).provider).toEqual({ sort: 'price' });
+});
+
+test('Anthropic requests split out the system prompt, merge turns and cap the temperature', () => {
+  const { url, headers, body } = buildRequest('anthropic', { temperature: 1.4, sampling: { stop: ['THE END'], seed: 3 } });
+  expect(url).toBe('https://api.example.com/v1/messages');
+  expect(headers['x-api-key']).toBe('key');
+  expect(headers).not.toHaveProperty('Authorization');
+  expect(body).toEqual({
+    model: 'model',
+    max_tokens: 8192,
+    system: 'You are a novelist.',
+    messages: [
+      { role: 'user', content: 'Plan the story.\n\nKeep it short.' },
+      { role: 'assistant', content: 'A plan.' },
+      { role: 'user', content: 'Write Chapter 1.' }
+    ],
+    stream: false,
+    temperature: 1,
+    stop_sequences: ['THE END']
+  });
+});
+
+test('Gemini and Ollama requests use their own shapes', () => {
+  const gemini = buildRequest('gemini', { model: 'models/gemini-pro', stream: true, temperature: 0.5, sampling: { maxTokens: 100 } });
+  expect(gemini.url).toBe('https://api.example.com/v1/models/gemini-pro:streamGenerateContent?alt=sse');
+  expect(gemini.headers['x-goog-api-key']).toBe('key');
+  expect(gemini.body.systemInstruction).toEqual({ parts: [{ text: 'You are a novelist.' }] });
+  expect(gemini.body.contents.map((content: { role: string }) => content.role)).toEqual(['user', 'model', 'user']);
+  expect(gemini.body.generationConfig).toEqual({ temperature: 0.5, maxOutputTokens: 100 });
+
+  const ollama = buildRequest('ollama', { apiKey: '', sampling: { maxTokens: 100, repetitionPenalty: 1.2 } });
+  expect(ollama.url).toBe('https://api.example.com/v1/api/chat');
+  expect(ollama.headers).not.toHaveProperty('Authorization');
+  expect(ollama.body).toEqual({ model: 'model', messages, stream: false, options: { num_predict: 100, repeat_penalty: 1.2 } });
+});
+
+test('links from messages to steps and chapters are never sent', () => {
+  const linked: Message[] = [{ role: 'user', content: 'Plan.' }, { role: 'assistant', content: 'A plan.', stepId: 1 }, { role: 'user', content: 'Write.' }];
+  (['openai', 'ollama', 'anthropic'] as ProviderId[]).forEach(provider => {
+    expect(JSON.stringify(buildRequest(provider, { messages: linked }).body)).not.toContain('stepId');
+  });
+});
+
+test('SSE streams yield each data payload, even when lines are split across chunks', async () => {
+  const payloads = await collectEvents([
+    ': keep-alive\nevent: content_block_delta\r\ndata: {"a":',
+    '1}\n\ndata:{"b":2}\n',
+    'data: [DONE]'
+  ], 'sse');
+  expect(payloads).toEqual(['{"a":1}', '{"b":2}', '[DONE]']);
+
+  const anthropic = getProviderAdapter('anthropic');
+  expect(anthropic.parseStreamEvent('{"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}')).toEqual({ content: 'Hi', reasoning: undefined });
+  expect(anthropic.parseStreamEvent('{"type":"message_start","message":{"usage":{"input_tokens":12}}}')).toEqual({ usage: { promptTokens: 12 } });
+  expect(getProviderAdapter('openai').parseStreamEvent('[DONE]')).toEqual({ done: true });
+});
+
+test('NDJSON streams yield one payload per line', async () => {
+  const payloads = await collectEvents([
+    '{"message":{"content":"Once"},"done":false}\n{"message":',
+    '{"content":" upon"},"done":false}\n\n{"done":true,"prompt_eval_count":5,"eval_count":2}'
+  ], 'ndjson');
+  expect(payloads).toHaveLength(3);
+
+  const ollama = getProviderAdapter('ollama');
+  expect(payloads.map(payload => ollama.parseStreamEvent(payload))).toEqual([
+    { content: 'Once', reasoning: undefined, done: false, usage: undefined },
+    { content: ' upon', reasoning: undefined, done: false, usage: undefined },
+    { content: undefined, reasoning: undefined, done: true, usage: { promptTokens: 5, completionTokens: 2 } }
+  ]);
+});
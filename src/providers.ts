@@ -0,0 +1,512 @@
+/**
+ * Provider Adapters
+ * One adapter per wire protocol: auth, request shape, streaming format and model listing
+ */
+
+import { Message, ProviderId, TokenCounts, SamplingParams, SamplingParamKey } from './types';
+
+export interface ProviderRequest {
+  messages: Message[];
+  model: string;
+  temperature?: number;
+  sampling?: SamplingParams;
+  apiKey: string;
+  baseUrl: string;
+  stream: boolean;
+}
+
+export interface HttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+// What a single streamed event contributes to the response
+export interface StreamDelta {
+  content?: string;
+  reasoning?: string; // Reasoning ("thinking") text, kept apart from the content
+  done?: boolean;
+  error?: string;
+  usage?: Partial<TokenCounts>; // Later events override earlier counts
+}
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  supportedParams: SamplingParamKey[]; // Sampling parameters the protocol can carry
+  // 'sse' streams are "data: ..." lines; 'ndjson' streams are one JSON object per line
+  streamFormat: 'sse' | 'ndjson';
+  buildRequest(request: ProviderRequest): HttpRequest;
+  parseResponse(data: any): string;
+  parseReasoning(data: any): string | undefined;
+  parseUsage(data: any): TokenCounts | undefined;
+  // Receives the JSON payload of one stream event (the text after "data:" for SSE)
+  parseStreamEvent(payload: string): StreamDelta;
+  buildModelsRequest(apiKey: string, baseUrl: string): HttpRequest;
+  parseModels(data: any): string[];
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Copy the sampling parameters that are set onto a request body under the protocol's field names
+const applySampling = (
+  target: Record<string, any>,
+  sampling: SamplingParams = {},
+  fieldNames: Partial<Record<SamplingParamKey, string>>
+) => {
+  (Object.keys(fieldNames) as SamplingParamKey[]).forEach(key => {
+    const value = sampling[key];
+    if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+      target[fieldNames[key]!] = value;
+    }
+  });
+  return target;
+};
+
+// Only the role and content go over the wire; links to steps and chapters stay local
+const toWireMessages = (messages: Message[]): Message[] => messages.map(({ role, content }) => ({ role, content }));
+
+const splitSystemPrompt = (messages: Message[]) => ({
+  system: messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n'),
+  conversation: toWireMessages(messages.filter(message => message.role !== 'system'))
+});
+
+// Merge consecutive turns from the same role, which stricter APIs reject
+const mergeConsecutiveTurns = (messages: Message[]): Message[] =>
+  messages.reduce<Message[]>((merged, message) => {
+    const last = merged[merged.length - 1];
+    if (last && last.role === message.role) {
+      merged[merged.length - 1] = { ...last, content: `${last.content}\n\n${message.content}` };
+    } else {
+      merged.push(message);
+    }
+    return merged;
+  }, []);
+
+// Servers known to accept stream_options; others may reject it like any unknown field
+const STREAM_USAGE_HOSTS = ['api.openai.com', 'openrouter.ai', 'api.deepseek.com'];
+const acceptsStreamOptions = (baseUrl: string) => STREAM_USAGE_HOSTS.some(host => baseUrl.includes(host));
+
+// OpenAI, OpenRouter, DeepSeek, LM Studio and other /chat/completions servers
+const openAIAdapter: ProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  description: 'POST /chat/completions with a Bearer token (OpenAI, OpenRouter, DeepSeek, LM Studio, vLLM)',
+  requiresApiKey: true,
+  supportedParams: ['maxTokens', 'topP', 'frequencyPenalty', 'presencePenalty', 'stop', 'seed', 'minP', 'repetitionPenalty', 'openRouter'],
+  streamFormat: 'sse',
+
+  buildRequest({ messages, model, temperature, sampling, apiKey, baseUrl, stream }) {
+    // Build request body - only include temperature if it's defined
+    const body: any = { model, messages: toWireMessages(messages), stream };
+    if (temperature !== undefined) {
+      body.temperature = temperature;
+    }
+    applySampling(body, sampling, {
+      maxTokens: 'max_tokens',
+      topP: 'top_p',
+      frequencyPenalty: 'frequency_penalty',
+      presencePenalty: 'presence_penalty',
+      stop: 'stop',
+      seed: 'seed',
+      minP: 'min_p',
+      repetitionPenalty: 'repetition_penalty'
+    });
+    // OpenRouter provider routing, sent only when a routing field is set: some other
+    // servers reject request fields they don't know
+    const { order, allowFallbacks, sort } = sampling?.openRouter || {};
+    const routing: Record<string, any> = {};
+    if (order?.length) routing.order = order;
+    if (allowFallbacks !== undefined) routing.allow_fallbacks = allowFallbacks;
+    if (sort) routing.sort = sort;
+    if (Object.keys(routing).length > 0) {
+      body.provider = routing;
+    }
+    if (stream && acceptsStreamOptions(baseUrl)) {
+      // Ask for a final chunk carrying token usage
+      body.stream_options = { include_usage: true };
+    }
+    return {
+      url: `${trimSlash(baseUrl)}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      }
+    };
+  },
+
+  parseResponse(data) {
+    return data.choices?.[0]?.message?.content || '';
+  },
+
+  // DeepSeek sends reasoning_content, OpenRouter sends reasoning
+  parseReasoning(data) {
+    const message = data.choices?.[0]?.message;
+    return message?.reasoning_content || message?.reasoning || undefined;
+  },
+
+  parseUsage(data) {
+    if (!data.usage) return undefined;
+    return {
+      promptTokens: data.usage.prompt_tokens || 0,
+      completionTokens: data.usage.completion_tokens || 0,
+      // OpenRouter reports the charged amount directly
+      cost: typeof data.usage.cost === 'number' ? data.usage.cost : undefined
+    };
+  },
+
+  parseStreamEvent(payload) {
+    if (payload === '[DONE]') return { done: true };
+    const parsed = JSON.parse(payload);
+    if (parsed.error) return { error: parsed.error.message || JSON.stringify(parsed.error) };
+    const delta = parsed.choices?.[0]?.delta;
+    return {
+      content: delta?.content,
+      reasoning: delta?.reasoning_content || delta?.reasoning,
+      usage: openAIAdapter.parseUsage(parsed)
+    };
+  },
+
+  buildModelsRequest(apiKey, baseUrl) {
+    return {
+      url: `${trimSlash(baseUrl)}/models`,
+      init: {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        }
+      }
+    };
+  },
+
+  parseModels(data) {
+    return data.data?.map((model: any) => model.id) || [];
+  }
+};
+
+// Ollama's native API: /api/chat with newline-delimited JSON streaming
+const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  label: 'Ollama (native)',
+  description: 'POST /api/chat with NDJSON streaming; no API key needed for a local server',
+  requiresApiKey: false,
+  supportedParams: ['maxTokens', 'topP', 'frequencyPenalty', 'presencePenalty', 'stop', 'seed', 'minP', 'repetitionPenalty'],
+  streamFormat: 'ndjson',
+
+  buildRequest({ messages, model, temperature, sampling, apiKey, baseUrl, stream }) {
+    const body: any = { model, messages: toWireMessages(messages), stream };
+    // Ollama takes every sampling parameter inside "options"
+    const options = applySampling(temperature !== undefined ? { temperature } : {}, sampling, {
+      maxTokens: 'num_predict',
+      topP: 'top_p',
+      frequencyPenalty: 'frequency_penalty',
+      presencePenalty: 'presence_penalty',
+      stop: 'stop',
+      seed: 'seed',
+      minP: 'min_p',
+      repetitionPenalty: 'repeat_penalty'
+    });
+    if (Object.keys(options).length > 0) {
+      body.options = options;
+    }
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return {
+      url: `${trimSlash(baseUrl)}/api/chat`,
+      init: { method: 'POST', headers, body: JSON.stringify(body) }
+    };
+  },
+
+  parseResponse(data) {
+    return data.message?.content || '';
+  },
+
+  parseReasoning(data) {
+    return data.message?.thinking || undefined;
+  },
+
+  parseUsage(data) {
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) return undefined;
+    return { promptTokens: data.prompt_eval_count || 0, completionTokens: data.eval_count || 0 };
+  },
+
+  parseStreamEvent(payload) {
+    const parsed = JSON.parse(payload);
+    if (parsed.error) return { error: parsed.error };
+    return {
+      content: parsed.message?.content,
+      reasoning: parsed.message?.thinking,
+      done: parsed.done === true,
+      usage: ollamaAdapter.parseUsage(parsed)
+    };
+  },
+
+  buildModelsRequest(apiKey, baseUrl) {
+    return {
+      url: `${trimSlash(baseUrl)}/api/tags`,
+      init: {
+        method: 'GET',
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : undefined
+      }
+    };
+  },
+
+  parseModels(data) {
+    return data.models?.map((model: any) => model.name || model.model) || [];
+  }
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192;
+
+const anthropicHeaders = (apiKey: string): Record<string, string> => ({
+  'x-api-key': apiKey,
+  'anthropic-version': ANTHROPIC_VERSION,
+  // Required for calls made directly from a browser
+  'anthropic-dangerous-direct-browser-access': 'true',
+  'Content-Type': 'application/json',
+});
+
+// Anthropic Messages API: separate system prompt, x-api-key auth, event-typed SSE
+const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic Messages',
+  description: 'POST /messages with x-api-key, a separate system prompt and event-typed SSE',
+  requiresApiKey: true,
+  supportedParams: ['maxTokens', 'topP', 'stop'],
+  streamFormat: 'sse',
+
+  buildRequest({ messages, model, temperature, sampling, apiKey, baseUrl, stream }) {
+    const { system, conversation } = splitSystemPrompt(messages);
+    const body: any = {
+      model,
+      // max_tokens is required by this API
+      max_tokens: sampling?.maxTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+      messages: mergeConsecutiveTurns(conversation),
+      stream
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (temperature !== undefined) {
+      // Anthropic accepts 0-1 rather than OpenAI's 0-2
+      body.temperature = Math.min(temperature, 1);
+    }
+    applySampling(body, sampling, { topP: 'top_p', stop: 'stop_sequences' });
+    return {
+      url: `${trimSlash(baseUrl)}/messages`,
+      init: { method: 'POST', headers: anthropicHeaders(apiKey), body: JSON.stringify(body) }
+    };
+  },
+
+  parseResponse(data) {
+    return (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  },
+
+  parseReasoning(data) {
+    return (data.content || [])
+      .filter((block: any) => block.type === 'thinking')
+      .map((block: any) => block.thinking)
+      .join('') || undefined;
+  },
+
+  parseUsage(data) {
+    if (!data.usage) return undefined;
+    return { promptTokens: data.usage.input_tokens || 0, completionTokens: data.usage.output_tokens || 0 };
+  },
+
+  parseStreamEvent(payload) {
+    const parsed = JSON.parse(payload);
+    switch (parsed.type) {
+      // Input tokens arrive with message_start, the final output count with message_delta
+      case 'message_start':
+        return { usage: { promptTokens: parsed.message?.usage?.input_tokens } };
+      case 'message_delta':
+        return { usage: { completionTokens: parsed.usage?.output_tokens } };
+      case 'content_block_delta':
+        return {
+          content: parsed.delta?.type === 'text_delta' ? parsed.delta.text : undefined,
+          reasoning: parsed.delta?.type === 'thinking_delta' ? parsed.delta.thinking : undefined
+        };
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        return { error: parsed.error?.message || 'Anthropic stream error' };
+      default:
+        return {};
+    }
+  },
+
+  buildModelsRequest(apiKey, baseUrl) {
+    return {
+      url: `${trimSlash(baseUrl)}/models?limit=1000`,
+      init: { method: 'GET', headers: anthropicHeaders(apiKey) }
+    };
+  },
+
+  parseModels(data) {
+    return data.data?.map((model: any) => model.id) || [];
+  }
+};
+
+const toGeminiModel = (model: string) => model.replace(/^models\//, '');
+
+// Google Gemini API: generateContent / streamGenerateContent with "model" turns
+const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'generateContent / streamGenerateContent with an x-goog-api-key header',
+  requiresApiKey: true,
+  supportedParams: ['maxTokens', 'topP', 'frequencyPenalty', 'presencePenalty', 'stop', 'seed'],
+  streamFormat: 'sse',
+
+  buildRequest({ messages, model, temperature, sampling, apiKey, baseUrl, stream }) {
+    const { system, conversation } = splitSystemPrompt(messages);
+    const body: any = {
+      contents: mergeConsecutiveTurns(conversation).map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      }))
+    };
+    if (system) {
+      body.systemInstruction = { parts: [{ text: system }] };
+    }
+    const generationConfig = applySampling(temperature !== undefined ? { temperature } : {}, sampling, {
+      maxTokens: 'maxOutputTokens',
+      topP: 'topP',
+      frequencyPenalty: 'frequencyPenalty',
+      presencePenalty: 'presencePenalty',
+      stop: 'stopSequences',
+      seed: 'seed'
+    });
+    if (Object.keys(generationConfig).length > 0) {
+      body.generationConfig = generationConfig;
+    }
+    const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    return {
+      url: `${trimSlash(baseUrl)}/models/${toGeminiModel(model)}:${method}`,
+      init: {
+        method: 'POST',
+        headers: {
+          'x-goog-api-key': apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      }
+    };
+  },
+
+  parseResponse(data) {
+    return (data.candidates?.[0]?.content?.parts || [])
+      .filter((part: any) => !part.thought)
+      .map((part: any) => part.text || '')
+      .join('');
+  },
+
+  // Thought summaries arrive as parts flagged with thought: true
+  parseReasoning(data) {
+    return (data.candidates?.[0]?.content?.parts || [])
+      .filter((part: any) => part.thought)
+      .map((part: any) => part.text || '')
+      .join('') || undefined;
+  },
+
+  parseUsage(data) {
+    if (!data.usageMetadata) return undefined;
+    return {
+      promptTokens: data.usageMetadata.promptTokenCount || 0,
+      completionTokens: data.usageMetadata.candidatesTokenCount || 0
+    };
+  },
+
+  parseStreamEvent(payload) {
+    const parsed = JSON.parse(payload);
+    if (parsed.error) return { error: parsed.error.message || JSON.stringify(parsed.error) };
+    // Each chunk carries the running totals so far
+    return {
+      content: geminiAdapter.parseResponse(parsed) || undefined,
+      reasoning: geminiAdapter.parseReasoning(parsed),
+      usage: geminiAdapter.parseUsage(parsed)
+    };
+  },
+
+  buildModelsRequest(apiKey, baseUrl) {
+    return {
+      url: `${trimSlash(baseUrl)}/models?pageSize=1000`,
+      init: { method: 'GET', headers: { 'x-goog-api-key': apiKey } }
+    };
+  },
+
+  parseModels(data) {
+    return (data.models || [])
+      .filter((model: any) => !model.supportedGenerationMethods || model.supportedGenerationMethods.includes('generateContent'))
+      .map((model: any) => toGeminiModel(model.name));
+  }
+};
+
+// Built-in offline server (mockProvider.ts) speaking the OpenAI protocol, for demos and tests
+const mockAdapter: ProviderAdapter = {
+  ...openAIAdapter,
+  id: 'mock',
+  label: 'Mock (offline)',
+  description: 'Deterministic canned responses served in the browser; no network or API key',
+  requiresApiKey: false
+};
+
+export const PROVIDER_ADAPTERS: Record<ProviderId, ProviderAdapter> = {
+  openai: openAIAdapter,
+  ollama: ollamaAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+  mock: mockAdapter
+};
+
+export function getProviderAdapter(provider: ProviderId = 'openai'): ProviderAdapter {
+  return PROVIDER_ADAPTERS[provider] || openAIAdapter;
+}
+
+// Read a streaming response body and yield each event payload in the adapter's format
+export async function* readStreamEvents(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  format: ProviderAdapter['streamFormat']
+): AsyncGenerator<string, void, unknown> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const toPayload = (rawLine: string): string | null => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim()) return null;
+    if (format === 'ndjson') return line;
+    // SSE: ignore "event:", "id:" and ":" comment lines, the event type is repeated in the data
+    if (!line.startsWith('data:')) return null;
+    return line.slice(5).trimStart();
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const payload = toPayload(line);
+      if (payload !== null) yield payload;
+    }
+  }
+
+  const last = toPayload(buffer + decoder.decode());
+  if (last !== null) yield last;
+}
@@ -0,0 +1,53 @@
+import { createThinkTagFilter, splitThinkTags, ReasoningSplit } from './reasoningUtils';
+
+// Stream the chunks through a filter and join what it lets through
+const filterChunks = (chunks: string[]): ReasoningSplit => {
+  const filter = createThinkTagFilter();
+  const parts = [...chunks.map(chunk => filter.push(chunk)), filter.flush()];
+  return {
+    content: parts.map(part => part.content).join(''),
+    reasoning: parts.map(part => part.reasoning).join('')
+  };
+};
+
+const RESPONSE = '\n<think>The hero should doubt. </think>\n\nChapter 1\n\nThe rain fell.';
+const EXPECTED = { content: 'Chapter 1\n\nThe rain fell.', reasoning: 'The hero should doubt. ' };
+
+test('a think block before the content is split out as reasoning', () => {
+  expect(splitThinkTags(RESPONSE)).toEqual(EXPECTED);
+  expect(splitThinkTags('No reasoning here.')).toEqual({ content: 'No reasoning here.', reasoning: '' });
+});
+
+test('tags split across chunks at any point are still recognised', () => {
+  for (let first = 1; first < RESPONSE.length; first++) {
+    for (let second = first + 1; second < RESPONSE.length; second += 3) {
+      const chunks = [RESPONSE.slice(0, first), RESPONSE.slice(first, second), RESPONSE.slice(second)];
+      expect(filterChunks(chunks)).toEqual(EXPECTED);
+    }
+  }
+  expect(filterChunks(RESPONSE.split(''))).toEqual(EXPECTED);
+});
+
+test('a possible partial tag is held back only until the next chunk shows what it is', () => {
+  const filter = createThinkTagFilter();
+  expect(filter.push('<thi')).toEqual({ content: '', reasoning: '' });
+  expect(filter.push('nk>Plan</th')).toEqual({ content: '', reasoning: 'Plan' });
+  expect(filter.push('ought')).toEqual({ content: '', reasoning: '</thought' });
+  expect(filter.push('</think>Text')).toEqual({ content: 'Text', reasoning: '' });
+
+  const notATag = createThinkTagFilter();
+  expect(notATag.push('<th')).toEqual({ content: '', reasoning: '' });
+  expect(notATag.push('e end>')).toEqual({ content: '<the end>', reasoning: '' });
+});
+
+test('only blocks before the content count as reasoning', () => {
+  expect(splitThinkTags('<think>a</think><think>b</think>Story <think>kept</think>')).toEqual({
+    content: 'Story <think>kept</think>',
+    reasoning: 'ab'
+  });
+});
+
+test('an unclosed block or a cut-off tag is released when the stream ends', () => {
+  expect(filterChunks(['<think>Still thinking</thi'])).toEqual({ content: '', reasoning: 'Still thinking</thi' });
+  expect(filterChunks(['<thi'])).toEqual({ content: '<thi', reasoning: '' });
+});
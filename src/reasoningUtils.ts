@@ -0,0 +1,88 @@
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export interface ReasoningSplit {
+  content: string;
+  reasoning: string;
+}
+
+export interface ThinkTagFilter {
+  push(chunk: string): ReasoningSplit;
+  flush(): ReasoningSplit;
+}
+
+// Length of the longest suffix of text that is the start of tag, i.e. a tag cut off mid-chunk
+const partialTagLength = (text: string, tag: string): number => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) return length;
+  }
+  return 0;
+};
+
+/**
+ * Separate inline <think>...</think> blocks from streamed text. Tags may be split across chunks,
+ * so a possible partial tag is held back until the next chunk. Only blocks before the first
+ * real content count as reasoning; leading whitespace left behind by a block is dropped.
+ */
+export function createThinkTagFilter(): ThinkTagFilter {
+  let buffer = '';
+  let inThink = false;
+  let contentStarted = false;
+
+  const take = (final: boolean): ReasoningSplit => {
+    let content = '';
+    let reasoning = '';
+
+    while (buffer) {
+      if (inThink) {
+        const end = buffer.indexOf(CLOSE_TAG);
+        if (end !== -1) {
+          reasoning += buffer.slice(0, end);
+          buffer = buffer.slice(end + CLOSE_TAG.length);
+          inThink = false;
+          continue;
+        }
+        const held = final ? 0 : partialTagLength(buffer, CLOSE_TAG);
+        reasoning += buffer.slice(0, buffer.length - held);
+        buffer = buffer.slice(buffer.length - held);
+        break;
+      }
+
+      if (contentStarted) {
+        content += buffer;
+        buffer = '';
+        break;
+      }
+
+      // Before any content: skip whitespace and look for an opening tag
+      buffer = buffer.replace(/^\s+/, '');
+      if (buffer.startsWith(OPEN_TAG)) {
+        buffer = buffer.slice(OPEN_TAG.length);
+        inThink = true;
+        continue;
+      }
+      if (!buffer || (!final && OPEN_TAG.startsWith(buffer))) break;
+      contentStarted = true;
+    }
+
+    return { content, reasoning };
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      return take(false);
+    },
+    flush() {
+      return take(true);
+    }
+  };
+}
+
+// Split inline think blocks out of a complete response
+export function splitThinkTags(text: string): ReasoningSplit {
+  const filter = createThinkTagFilter();
+  const first = filter.push(text);
+  const rest = filter.flush();
+  return { content: first.content + rest.content, reasoning: first.reasoning + rest.reasoning };
+}
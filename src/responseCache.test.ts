@@ -0,0 +1,116 @@
+import {
+  CacheKeyInput,
+  computeCacheKey,
+  createCacheEntry,
+  getCachedResponse,
+  listCacheEntries,
+  putCachedResponse
+} from './responseCache';
+
+// An in-memory object store in place of IndexedDB, which jsdom lacks; records are copied in and out as IndexedDB does
+jest.mock('./database', () => {
+  const stores = new Map<string, Map<string, unknown>>();
+  const copy = (value: unknown) => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+  return {
+    ...jest.requireActual('./database'),
+    isIndexedDBAvailable: () => true,
+    withStore: async (storeName: string, _mode: string, callback: (store: any) => { result: unknown }) => {
+      if (!stores.has(storeName)) stores.set(storeName, new Map());
+      const records = stores.get(storeName)!;
+      return callback({
+        get: (key: string) => ({ result: copy(records.get(key)) }),
+        getAll: () => ({ result: Array.from(records.values()).map(copy) }),
+        put: (value: { key: string }) => {
+          records.set(value.key, copy(value));
+          return { result: value.key };
+        },
+        delete: (key: string) => {
+          records.delete(key);
+          return { result: undefined };
+        },
+        clear: () => {
+          records.clear();
+          return { result: undefined };
+        }
+      }).result;
+    }
+  };
+});
+
+const HOUR = 60 * 60 * 1000;
+
+const input: CacheKeyInput = {
+  provider: 'openai',
+  baseUrl: 'https://openrouter.ai/api/v1',
+  model: 'story-model',
+  messages: [
+    { role: 'system', content: 'You are a novelist.' },
+    { role: 'user', content: 'Write Chapter 1.' }
+  ],
+  temperature: 0.7,
+  sampling: { topP: 0.9, stop: ['THE END'] }
+};
+
+const setNow = (now: number) => jest.spyOn(Date, 'now').mockReturnValue(now);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('the cache key changes with everything that can change the response', async () => {
+  const key = await computeCacheKey(input);
+  expect(key).toMatch(/^[0-9a-f]{64}$/);
+  expect(await computeCacheKey({ ...input, baseUrl: 'https://openrouter.ai/api/v1/' })).toBe(key);
+
+  const variations: CacheKeyInput[] = [
+    { ...input, provider: 'anthropic' },
+    { ...input, baseUrl: 'http://localhost:1234/v1' },
+    { ...input, model: 'other-model' },
+    { ...input, messages: [...input.messages, { role: 'user', content: 'Make it longer.' }] },
+    { ...input, temperature: 0.8 },
+    { ...input, temperature: undefined },
+    { ...input, sampling: undefined },
+    { ...input, sampling: { ...input.sampling, topP: 0.95 } },
+    { ...input, sampling: { ...input.sampling, maxTokens: 4000 } },
+    { ...input, sampling: { ...input.sampling, frequencyPenalty: 0.5 } },
+    { ...input, sampling: { ...input.sampling, presencePenalty: 0.5 } },
+    { ...input, sampling: { ...input.sampling, stop: ['FIN'] } },
+    { ...input, sampling: { ...input.sampling, seed: 7 } },
+    { ...input, sampling: { ...input.sampling, minP: 0.05 } },
+    { ...input, sampling: { ...input.sampling, repetitionPenalty: 1.1 } },
+    { ...input, sampling: { ...input.sampling, openRouter: { sort: 'price' } } }
+  ];
+  const keys = await Promise.all(variations.map(computeCacheKey));
+  expect(new Set([key, ...keys]).size).toBe(variations.length + 1);
+});
+
+test('a cached response is returned until it expires, then removed', async () => {
+  setNow(1000000);
+  const key = await computeCacheKey({ ...input, model: 'ttl-model' });
+  await putCachedResponse(createCacheEntry(key, input, 'Chapter one.'), Infinity);
+
+  setNow(1000000 + HOUR);
+  expect(await getCachedResponse(key, 2 * HOUR)).toBe('Chapter one.');
+  expect((await listCacheEntries()).find(entry => entry.key === key)).toMatchObject({ hits: 1, lastAccessedAt: 1000000 + HOUR });
+
+  setNow(1000000 + 3 * HOUR);
+  expect(await getCachedResponse(key, 2 * HOUR)).toBeNull();
+  expect((await listCacheEntries()).some(entry => entry.key === key)).toBe(false);
+});
+
+test('the least recently used entries are evicted when the cache outgrows its size', async () => {
+  setNow(2000000);
+  const size = createCacheEntry('first', input, 'x').size;
+  const maxBytes = 2.5 * size;
+
+  await putCachedResponse(createCacheEntry('first', input, 'x'), maxBytes);
+  setNow(2000001);
+  await putCachedResponse(createCacheEntry('second', input, 'y'), maxBytes);
+  setNow(2000002);
+  expect(await getCachedResponse('first', HOUR)).toBe('x');
+
+  // Reading "first" left "second" as the least recently used, so it makes room for "third"
+  setNow(2000003);
+  await putCachedResponse(createCacheEntry('third', input, 'z'), maxBytes);
+  expect((await listCacheEntries()).map(entry => entry.key)).toEqual(['third', 'first']);
+});
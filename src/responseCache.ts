@@ -0,0 +1,139 @@
+/**
+ * Response Cache Storage
+ * Content-addressed API responses in IndexedDB with a TTL and size-based eviction
+ */
+
+import { CacheEntry, Message, ProviderId, SamplingParams } from './types';
+import { CACHE_STORE, withStore, isIndexedDBAvailable } from './database';
+
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+export const DEFAULT_CACHE_MAX_SIZE_MB = 50;
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+// Everything that can change the response to a request (API keys are deliberately left out)
+export interface CacheKeyInput {
+  provider: ProviderId;
+  baseUrl: string;
+  model: string;
+  messages: Message[];
+  temperature?: number;
+  sampling?: SamplingParams;
+}
+
+// SHA-256 needs a secure context; without it responses are simply not cached
+export function isCacheAvailable(): boolean {
+  return isIndexedDBAvailable() && typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+export async function computeCacheKey(input: CacheKeyInput): Promise<string> {
+  const canonical = JSON.stringify({
+    provider: input.provider,
+    baseUrl: input.baseUrl.replace(/\/+$/, ''),
+    model: input.model,
+    messages: input.messages.map(({ role, content }) => ({ role, content })),
+    temperature: input.temperature ?? null,
+    sampling: input.sampling || null
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function createCacheEntry(key: string, input: CacheKeyInput, content: string): CacheEntry {
+  const lastUserMessage = [...input.messages].reverse().find(message => message.role === 'user');
+  const now = Date.now();
+  return {
+    key,
+    content,
+    model: input.model,
+    baseUrl: input.baseUrl,
+    provider: input.provider,
+    promptPreview: (lastUserMessage?.content || '').slice(0, PROMPT_PREVIEW_LENGTH),
+    // UTF-16 in memory; close enough to what IndexedDB stores for the messages and response
+    size: (content.length + JSON.stringify(input.messages).length) * 2,
+    createdAt: now,
+    lastAccessedAt: now,
+    hits: 0
+  };
+}
+
+export const isExpired = (entry: CacheEntry, ttlMs: number) => Date.now() - entry.createdAt > ttlMs;
+
+// Look up a response; expired entries are removed and count as misses
+export async function getCachedResponse(key: string, ttlMs: number): Promise<string | null> {
+  try {
+    const entry = await withStore<CacheEntry | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    if (!entry) return null;
+
+    if (isExpired(entry, ttlMs)) {
+      await withStore(CACHE_STORE, 'readwrite', store => store.delete(key));
+      return null;
+    }
+
+    const touched: CacheEntry = { ...entry, lastAccessedAt: Date.now(), hits: entry.hits + 1 };
+    await withStore(CACHE_STORE, 'readwrite', store => store.put(touched));
+    return entry.content;
+  } catch (error) {
+    console.warn('Failed to read response cache:', error);
+    return null;
+  }
+}
+
+// Store a response, then evict least recently used entries until the cache fits maxBytes
+export async function putCachedResponse(entry: CacheEntry, maxBytes: number): Promise<void> {
+  try {
+    await withStore(CACHE_STORE, 'readwrite', store => store.put(entry));
+    await evictToSize(maxBytes);
+  } catch (error) {
+    console.warn('Failed to write response cache:', error);
+  }
+}
+
+async function evictToSize(maxBytes: number): Promise<void> {
+  const entries = await listCacheEntries();
+  let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (totalSize <= maxBytes) return;
+
+  const evicted: string[] = [];
+  for (const entry of [...entries].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+    if (totalSize <= maxBytes) break;
+    evicted.push(entry.key);
+    totalSize -= entry.size;
+  }
+  await deleteCacheEntries(evicted);
+}
+
+// All entries, most recently used first
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  try {
+    const entries = await withStore<CacheEntry[]>(CACHE_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+  } catch (error) {
+    console.error('Failed to list cache entries:', error);
+    throw new Error('Failed to list cache entries');
+  }
+}
+
+export async function deleteCacheEntries(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+
+  try {
+    await Promise.all(keys.map(key => withStore(CACHE_STORE, 'readwrite', store => store.delete(key))));
+  } catch (error) {
+    console.error('Failed to delete cache entries:', error);
+    throw new Error('Failed to delete cache entries');
+  }
+}
+
+export async function clearResponseCache(): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await withStore(CACHE_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Failed to clear response cache:', error);
+    throw new Error('Failed to clear response cache');
+  }
+}
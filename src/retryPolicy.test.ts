@@ -0,0 +1,61 @@
+import { ApiError, computeBackoffDelay, createHttpError, createNetworkError, parseRetryAfter, waitForRetry } from './retryPolicy';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('auth failures and context overflows are fatal; rate limits and server errors are retried', () => {
+  const classify = (status: number, body = '{}') => {
+    const error = createHttpError(status, body);
+    return [error.kind, error.retryable];
+  };
+
+  expect(classify(401)).toEqual(['auth', false]);
+  expect(classify(403)).toEqual(['auth', false]);
+  expect(classify(400, '{"error":{"message":"This model\'s maximum context length is 8192 tokens"}}')).toEqual(['context-length', false]);
+  expect(classify(400, '{"error":{"message":"Unknown field: foo"}}')).toEqual(['request', false]);
+  expect(classify(429)).toEqual(['rate-limit', true]);
+  expect(classify(500)).toEqual(['server', true]);
+  expect(classify(503)).toEqual(['server', true]);
+  expect(classify(408)).toEqual(['server', true]);
+  expect([createNetworkError(new TypeError('Failed to fetch')).kind, createNetworkError('offline').retryable]).toEqual(['network', true]);
+});
+
+test('error messages carry the provider detail and stay ApiErrors', () => {
+  const error = createHttpError(429, '{"error":{"message":"Slow down"}}', '7');
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error.message).toBe('Rate limited by the provider (429). Slow down');
+  expect(error.retryAfterMs).toBe(7000);
+  expect(createHttpError(502, 'x'.repeat(400)).message).toHaveLength('Provider error (502). '.length + 301);
+});
+
+test('Retry-After is read as seconds or as an HTTP date', () => {
+  jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'));
+  expect(parseRetryAfter('120')).toBe(120000);
+  expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT')).toBe(30000);
+  expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT')).toBe(0);
+  expect(parseRetryAfter('soon')).toBeUndefined();
+  expect(parseRetryAfter(null)).toBeUndefined();
+});
+
+test('backoff doubles each attempt with jitter in the upper half, capped at 30 seconds', () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  expect([0, 1, 2, 3].map(attempt => computeBackoffDelay(attempt))).toEqual([500, 1000, 2000, 4000]);
+  expect(computeBackoffDelay(10)).toBe(15000);
+
+  jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+  expect([0, 1, 2, 3].map(attempt => computeBackoffDelay(attempt))).toEqual([1000, 2000, 4000, 8000]);
+  expect(computeBackoffDelay(10)).toBe(30000);
+
+  // The server's Retry-After wins, up to five minutes
+  expect(computeBackoffDelay(0, 45000)).toBe(45000);
+  expect(computeBackoffDelay(0, 60 * 60 * 1000)).toBe(5 * 60 * 1000);
+});
+
+test('waiting for a retry can be cancelled', async () => {
+  const controller = new AbortController();
+  const waiting = waitForRetry(60000, controller.signal);
+  controller.abort();
+  await expect(waiting).rejects.toMatchObject({ name: 'AbortError', message: 'Request was cancelled' });
+  await expect(waitForRetry(0, new AbortController().signal)).resolves.toBeUndefined();
+});
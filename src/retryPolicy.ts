@@ -0,0 +1,115 @@
+/**
+ * Retry Policy
+ * Classifies API failures and computes jittered exponential backoff, honoring Retry-After
+ */
+
+import { RetryStatus } from './types';
+
+export const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// Never wait longer than this, even if the server asks us to
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+export type ApiErrorKind = 'rate-limit' | 'server' | 'network' | 'auth' | 'context-length' | 'request';
+
+// An HTTP or network failure, tagged with whether trying again could help
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, kind: ApiErrorKind, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.retryable = kind === 'rate-limit' || kind === 'server' || kind === 'network';
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+export type RetryListener = (status: RetryStatus | null) => void;
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+// Pull a readable message out of a provider's JSON error body
+function extractErrorDetail(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    const detail = parsed.error?.message || parsed.error?.metadata?.raw || parsed.message || parsed.error;
+    if (typeof detail === 'string') return detail;
+  } catch (error) {
+    // Not JSON, fall through to the raw text
+  }
+  return body.length > 300 ? `${body.slice(0, 300)}…` : body;
+}
+
+const CONTEXT_LENGTH_PATTERN = /context[\s_-]*(length|window)|maximum context|too many tokens|prompt is too long|token limit|reduce the length/i;
+
+export function createHttpError(status: number, body: string, retryAfterHeader: string | null = null): ApiError {
+  const detail = extractErrorDetail(body);
+  const retryAfterMs = parseRetryAfter(retryAfterHeader);
+
+  if (status === 401 || status === 403) {
+    return new ApiError(`Authentication failed (${status}): check the API key for this endpoint. ${detail}`, 'auth', status);
+  }
+  if ((status === 400 || status === 413) && CONTEXT_LENGTH_PATTERN.test(detail)) {
+    return new ApiError(`The conversation is too long for this model's context window (${status}). ${detail}`, 'context-length', status);
+  }
+  if (status === 429) {
+    return new ApiError(`Rate limited by the provider (429). ${detail}`, 'rate-limit', status, retryAfterMs);
+  }
+  if (status === 408 || status === 425 || status >= 500) {
+    return new ApiError(`Provider error (${status}). ${detail}`, 'server', status, retryAfterMs);
+  }
+  return new ApiError(`HTTP error! status: ${status}, body: ${detail}`, 'request', status);
+}
+
+export function createNetworkError(error: unknown): ApiError {
+  const detail = error instanceof Error ? error.message : String(error);
+  return new ApiError(`Network error: ${detail}`, 'network');
+}
+
+// Full-jitter exponential backoff, unless the server told us how long to wait
+export function computeBackoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  }
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Resolve after the delay, or reject with an AbortError if the request is cancelled first
+export function waitForRetry(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => {
+      const error = new Error('Request was cancelled');
+      error.name = 'AbortError';
+      return error;
+    };
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,48 @@
+import { appendRevision, createRevision, diffWords, DiffSegment } from './revisionUtils';
+
+const side = (segments: DiffSegment[], kept: DiffSegment['type']) =>
+  segments.filter(segment => segment.type === 'equal' || segment.type === kept).map(segment => segment.text).join('');
+
+test('a word diff marks the changed words and rebuilds both texts', () => {
+  const oldText = 'The fox jumped over the lazy dog.\nIt ran away.';
+  const newText = 'The red fox leapt over the dog.\nIt ran away.';
+  const segments = diffWords(oldText, newText);
+
+  expect(segments).toEqual([
+    { type: 'equal', text: 'The ' },
+    { type: 'added', text: 'red ' },
+    { type: 'equal', text: 'fox ' },
+    { type: 'removed', text: 'jumped ' },
+    { type: 'added', text: 'leapt ' },
+    { type: 'equal', text: 'over the ' },
+    { type: 'removed', text: 'lazy ' },
+    { type: 'equal', text: 'dog.\nIt ran away.' }
+  ]);
+  expect(side(segments, 'removed')).toBe(oldText);
+  expect(side(segments, 'added')).toBe(newText);
+});
+
+test('identical and empty texts diff cleanly', () => {
+  expect(diffWords('Same words.', 'Same words.')).toEqual([{ type: 'equal', text: 'Same words.' }]);
+  expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+  expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+  expect(diffWords('', '')).toEqual([]);
+});
+
+test('a rewrite too large to diff word by word is shown as one replacement', () => {
+  const words = (prefix: string) => Array.from({ length: 1500 }, (_, index) => `${prefix}${index}`).join(' ');
+  const segments = diffWords(`Start ${words('a')} end`, `Start ${words('b')} end`);
+  expect(segments.map(segment => segment.type)).toEqual(['equal', 'removed', 'added', 'equal']);
+  expect(segments[0].text).toBe('Start ');
+  expect(segments[3].text).toBe('end');
+});
+
+test('a revision identical to the latest one is not added again', () => {
+  const first = createRevision('Draft', 'model', 0.7, '  ');
+  expect(first.feedback).toBeUndefined();
+  const revisions = appendRevision(undefined, first);
+  expect(appendRevision(revisions, createRevision('Draft', 'other-model', 0.2))).toBe(revisions);
+
+  const second = createRevision('Better draft', 'model', 0.7, 'More tension');
+  expect(appendRevision(revisions, second)).toEqual([first, second]);
+});
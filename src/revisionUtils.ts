@@ -0,0 +1,159 @@
+import { Revision } from './types';
+import { createProjectId } from './projectStorage';
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export function createRevision(
+  content: string,
+  model: string,
+  temperature: number | undefined,
+  feedback?: string
+): Revision {
+  return {
+    id: createProjectId(),
+    content,
+    feedback: feedback?.trim() || undefined,
+    model,
+    temperature,
+    createdAt: Date.now()
+  };
+}
+
+// Append a revision, skipping it if identical to the latest one
+export function appendRevision(revisions: Revision[] | undefined, revision: Revision): Revision[] {
+  const existing = revisions || [];
+  const latest = existing[existing.length - 1];
+  if (latest && latest.content === revision.content) {
+    return existing;
+  }
+  return [...existing, revision];
+}
+
+// Maximum edit distance explored before falling back to a whole-block replacement
+const MAX_DIFF_EDITS = 2000;
+
+// Split text into word tokens, each carrying its trailing whitespace
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+// Myers' O(ND) diff over token arrays; returns null if the edit distance exceeds the limit
+function myersDiff(a: string[], b: string[]): DiffSegment[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_DIFF_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Only the diagonals -d..d are stored for each step to keep memory bounded
+  const trace: Int32Array[] = [];
+
+  let finalD = -1;
+  for (let d = 0; d <= max && finalD < 0; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        finalD = d;
+        break;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  if (finalD < 0) return null;
+
+  // Walk the trace backwards to recover the edit script
+  const reversed: DiffSegment[] = [];
+  let x = n;
+  let y = m;
+  for (let d = finalD; d >= 0; d--) {
+    const k = x - y;
+    if (d === 0) {
+      while (x > 0 && y > 0) {
+        reversed.push({ type: 'equal', text: a[x - 1] });
+        x--;
+        y--;
+      }
+      break;
+    }
+
+    // Diagonals stored for step d-1 span -(d-1)..(d-1)
+    const prev = trace[d - 1];
+    const at = (diagonal: number) => prev[diagonal + d - 1];
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      reversed.push({ type: 'added', text: b[y - 1] });
+    } else {
+      reversed.push({ type: 'removed', text: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return reversed.reverse();
+}
+
+// Word-level diff between two texts
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // Trim the common prefix and suffix before running the diff
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myersDiff(middleA, middleB);
+  if (middle) {
+    middle.forEach(segment => pushSegment(segments, segment.type, segment.text));
+  } else {
+    pushSegment(segments, 'removed', middleA.join(''));
+    pushSegment(segments, 'added', middleB.join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}
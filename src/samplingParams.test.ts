@@ -0,0 +1,64 @@
+import { validateSamplingParams, parseStopSequences, formatStopSequences } from './samplingParams';
+import { getProviderAdapter } from './providers';
+
+const openai = getProviderAdapter('openai');
+const OPENROUTER = 'https://openrouter.ai/api/v1';
+const LOCAL = 'http://localhost:1234/v1';
+
+test('parameters the protocol cannot carry are rejected', () => {
+  expect(validateSamplingParams({ seed: 1, minP: 0.1, topP: 0.9 }, getProviderAdapter('anthropic'), 'https://api.anthropic.com')).toEqual({
+    seed: 'Not supported by the Anthropic Messages protocol',
+    minP: 'Not supported by the Anthropic Messages protocol'
+  });
+  expect(validateSamplingParams({ openRouter: { sort: 'price' } }, getProviderAdapter('ollama'), 'http://localhost:11434')).toHaveProperty('openRouter');
+});
+
+test('provider routing is only accepted on an OpenRouter endpoint', () => {
+  const sampling = { openRouter: { order: ['anthropic'] } };
+  expect(validateSamplingParams(sampling, openai, OPENROUTER)).toEqual({});
+  expect(validateSamplingParams(sampling, openai, LOCAL)).toEqual({ openRouter: 'Provider routing only applies to OpenRouter' });
+});
+
+test('OpenAI\'s own API rejects min P and repetition penalty that other compatible servers accept', () => {
+  const sampling = { minP: 0.05, repetitionPenalty: 1.1 };
+  expect(validateSamplingParams(sampling, openai, LOCAL)).toEqual({});
+  expect(validateSamplingParams(sampling, openai, 'https://api.openai.com/v1')).toEqual({
+    minP: 'Not accepted by the OpenAI API',
+    repetitionPenalty: 'Not accepted by the OpenAI API'
+  });
+});
+
+test('numbers are checked against their range, and counts must be whole', () => {
+  const errors = validateSamplingParams(
+    { topP: 1.5, frequencyPenalty: -2, presencePenalty: NaN, maxTokens: 10.5, seed: 42 },
+    openai,
+    LOCAL
+  );
+  expect(errors).toEqual({
+    topP: 'Must be between 0 and 1',
+    presencePenalty: 'Must be between -2 and 2',
+    maxTokens: 'Must be a whole number'
+  });
+});
+
+test('unset parameters and an empty stop list are not checked', () => {
+  expect(validateSamplingParams({ seed: undefined, stop: [] }, getProviderAdapter('anthropic'), 'https://api.anthropic.com')).toEqual({});
+});
+
+test('the number of stop sequences is limited where the provider limits it', () => {
+  const stop = ['a', 'b', 'c', 'd', 'e'];
+  expect(validateSamplingParams({ stop: stop.slice(0, 4) }, openai, LOCAL)).toEqual({});
+  expect(validateSamplingParams({ stop }, openai, LOCAL)).toEqual({ stop: 'At most 4 stop sequences are allowed' });
+  expect(validateSamplingParams({ stop }, getProviderAdapter('gemini'), 'https://generativelanguage.googleapis.com')).toEqual({});
+  expect(validateSamplingParams({ stop: [...stop, 'f'] }, getProviderAdapter('gemini'), 'https://generativelanguage.googleapis.com'))
+    .toEqual({ stop: 'At most 5 stop sequences are allowed' });
+  expect(validateSamplingParams({ stop: [...stop, 'f'] }, getProviderAdapter('anthropic'), 'https://api.anthropic.com')).toEqual({});
+});
+
+test('stop sequences are edited one per line with escaped newlines and tabs', () => {
+  expect(parseStopSequences('THE END\n\\n\\nChapter\n\n\\tEnd')).toEqual(['THE END', '\n\nChapter', '\tEnd']);
+  expect(parseStopSequences('')).toBeUndefined();
+  expect(formatStopSequences(['THE END', '\n\nChapter', '\tEnd'])).toBe('THE END\n\\n\\nChapter\n\\tEnd');
+  expect(formatStopSequences()).toBe('');
+  expect(parseStopSequences(formatStopSequences(['a\nb']))).toEqual(['a\nb']);
+});
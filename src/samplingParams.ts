@@ -0,0 +1,89 @@
+import { SamplingParams, SamplingParamKey } from './types';
+import { ProviderAdapter } from './providers';
+
+export const SAMPLING_PARAM_LABELS: Record<SamplingParamKey, string> = {
+  maxTokens: 'Max Tokens',
+  topP: 'Top P',
+  frequencyPenalty: 'Frequency Penalty',
+  presencePenalty: 'Presence Penalty',
+  stop: 'Stop Sequences',
+  seed: 'Seed',
+  minP: 'Min P',
+  repetitionPenalty: 'Repetition Penalty',
+  openRouter: 'Provider Routing'
+};
+
+// Accepted [min, max] per numeric parameter
+const NUMERIC_RANGES: Partial<Record<SamplingParamKey, [number, number]>> = {
+  maxTokens: [1, 1000000],
+  topP: [0, 1],
+  frequencyPenalty: [-2, 2],
+  presencePenalty: [-2, 2],
+  seed: [0, 2147483647],
+  minP: [0, 1],
+  repetitionPenalty: [0, 2]
+};
+
+const INTEGER_PARAMS: SamplingParamKey[] = ['maxTokens', 'seed'];
+
+// OpenAI's own API rejects the extras that OpenRouter and local servers accept
+const OPENAI_REJECTED_PARAMS: SamplingParamKey[] = ['minP', 'repetitionPenalty'];
+
+const MAX_STOP_SEQUENCES: Partial<Record<ProviderAdapter['id'], number>> = {
+  openai: 4,
+  gemini: 5
+};
+
+export const isOpenRouterUrl = (baseUrl: string) => baseUrl.includes('openrouter.ai');
+
+const isSet = (value: unknown) =>
+  value !== undefined && !(Array.isArray(value) && value.length === 0);
+
+// Check each parameter that is set against its range and against what the endpoint accepts
+export function validateSamplingParams(
+  sampling: SamplingParams,
+  adapter: ProviderAdapter,
+  baseUrl: string
+): Partial<Record<SamplingParamKey, string>> {
+  const errors: Partial<Record<SamplingParamKey, string>> = {};
+
+  (Object.keys(sampling) as SamplingParamKey[]).forEach(key => {
+    const value = sampling[key];
+    if (!isSet(value)) return;
+
+    if (!adapter.supportedParams.includes(key)) {
+      errors[key] = `Not supported by the ${adapter.label} protocol`;
+    } else if (key === 'openRouter' && !isOpenRouterUrl(baseUrl)) {
+      errors[key] = 'Provider routing only applies to OpenRouter';
+    } else if (OPENAI_REJECTED_PARAMS.includes(key) && baseUrl.includes('api.openai.com')) {
+      errors[key] = 'Not accepted by the OpenAI API';
+    } else if (typeof value === 'number') {
+      const [min, max] = NUMERIC_RANGES[key] || [-Infinity, Infinity];
+      if (isNaN(value) || value < min || value > max) {
+        errors[key] = `Must be between ${min.toLocaleString()} and ${max.toLocaleString()}`;
+      } else if (INTEGER_PARAMS.includes(key) && !Number.isInteger(value)) {
+        errors[key] = 'Must be a whole number';
+      }
+    } else if (key === 'stop') {
+      const limit = MAX_STOP_SEQUENCES[adapter.id];
+      if (limit && (value as string[]).length > limit) {
+        errors[key] = `At most ${limit} stop sequences are allowed`;
+      }
+    }
+  });
+
+  return errors;
+}
+
+// Stop sequences are edited one per line, with \n written as an escape
+export function parseStopSequences(text: string): string[] | undefined {
+  const sequences = text
+    .split('\n')
+    .filter(line => line.length > 0)
+    .map(line => line.replace(/\\n/g, '\n').replace(/\\t/g, '\t'));
+  return sequences.length > 0 ? sequences : undefined;
+}
+
+export function formatStopSequences(stop: string[] = []): string {
+  return stop.map(sequence => sequence.replace(/\n/g, '\\n').replace(/\t/g, '\\t')).join('\n');
+}
@@ -0,0 +1,21 @@
+import { loadSettings, saveSettings } from './secureStorage';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('a cleared optional setting stays cleared after a reload', () => {
+  saveSettings({ temperature: 0.9, chapterWordTarget: 2000 });
+  saveSettings({ temperature: undefined });
+
+  const settings = loadSettings();
+  expect(settings.temperature).toBeUndefined();
+  expect(settings.chapterWordTarget).toBe(2000);
+});
+
+test('settings left out of a save keep their stored values', () => {
+  saveSettings({ model: 'story-model', temperature: 0.4, chapterWordTarget: 1500 });
+  saveSettings({ stream: false });
+
+  expect(loadSettings()).toMatchObject({ model: 'story-model', temperature: 0.4, chapterWordTarget: 1500, stream: false });
+});
@@ -3,6 +3,8 @@
  * Provides plain text local storage for settings
  */
 
+import { ProviderId, ModelRoute, SamplingParams, PromptTemplates, WorkflowPipeline, AutopilotSettings } from './types';
+
 const STORAGE_KEY = 'ai_story_author_settings';
 
 // Storage interface
@@ -10,9 +12,20 @@ export interface SecureStorageData {
   apiKeys: Record<string, string>; // API keys per base URL
   model: string;
   temperature?: number; // Optional - only sent to API if set
+  sampling?: SamplingParams; // Optional sampling parameters beyond temperature
   baseUrl: string;
+  provider?: ProviderId; // API protocol for baseUrl
   stream: boolean;
   chapterWordTarget?: number; // Target word count per chapter
+  chapterMaxAttempts?: number; // Attempts allowed to reach the chapter word target
+  maxRetries?: number; // Automatic retries for rate limits and server errors
+  contextLength?: number; // Context window override in tokens
+  cacheTtlHours?: number; // Response cache lifetime
+  cacheMaxSizeMb?: number; // Response cache size limit
+  stepRoutes?: Record<number, ModelRoute>; // Per-step model, temperature and sampling overrides
+  promptTemplates?: Partial<PromptTemplates>; // Edited prompt templates
+  pipeline?: WorkflowPipeline; // Pipeline for new stories
+  autopilot?: AutopilotSettings;
 }
 
 // Preset API endpoints
@@ -21,22 +34,57 @@ export const PRESET_ENDPOINTS = {
   'OpenRouter': 'https://openrouter.ai/api/v1',
   'Ollama': 'http://localhost:11434',
   'LM Studio': 'http://localhost:1234',
-  'OpenAI': 'https://api.openai.com/v1'
+  'OpenAI': 'https://api.openai.com/v1',
+  'Anthropic': 'https://api.anthropic.com/v1',
+  'Google Gemini': 'https://generativelanguage.googleapis.com/v1beta',
+  'Mock (offline)': 'mock://story-author'
 } as const;
 
 export type PresetEndpointKey = keyof typeof PRESET_ENDPOINTS;
 
+// API protocol spoken by each preset endpoint
+export const PRESET_PROVIDERS: Record<PresetEndpointKey, ProviderId> = {
+  'DeepSeek': 'openai',
+  'OpenRouter': 'openai',
+  'Ollama': 'ollama',
+  'LM Studio': 'openai',
+  'OpenAI': 'openai',
+  'Anthropic': 'anthropic',
+  'Google Gemini': 'gemini',
+  'Mock (offline)': 'mock'
+};
+
+// Guess the protocol for a base URL, for settings saved before providers were selectable
+export function providerForBaseUrl(baseUrl: string): ProviderId {
+  const preset = (Object.keys(PRESET_ENDPOINTS) as PresetEndpointKey[])
+    .find(key => PRESET_ENDPOINTS[key] === baseUrl);
+  return preset ? PRESET_PROVIDERS[preset] : 'openai';
+}
+
 // Save settings to local storage (plain text)
 export function saveSettings(settings: Partial<SecureStorageData>): void {
   try {
     const existingData = loadSettings();
+    // Optional fields are saved as given, so a field cleared to undefined stays cleared; fields left out are kept
+    const given = <K extends keyof SecureStorageData>(key: K) => (key in settings ? settings[key] : existingData[key]);
 
     const dataToStore = {
       model: settings.model || existingData.model,
-      temperature: settings.temperature ?? existingData.temperature,
+      temperature: given('temperature'),
+      sampling: given('sampling'),
       baseUrl: settings.baseUrl || existingData.baseUrl,
+      provider: settings.provider || existingData.provider,
       stream: settings.stream ?? existingData.stream,
-      chapterWordTarget: settings.chapterWordTarget ?? existingData.chapterWordTarget,
+      chapterWordTarget: given('chapterWordTarget'),
+      chapterMaxAttempts: given('chapterMaxAttempts'),
+      maxRetries: given('maxRetries'),
+      contextLength: given('contextLength'),
+      cacheTtlHours: given('cacheTtlHours'),
+      cacheMaxSizeMb: given('cacheMaxSizeMb'),
+      stepRoutes: given('stepRoutes'),
+      promptTemplates: given('promptTemplates'),
+      pipeline: given('pipeline'),
+      autopilot: given('autopilot'),
       apiKeys: { ...existingData.apiKeys }
     };
 
@@ -72,14 +120,26 @@ export function loadSettings(): SecureStorageData {
     }
 
     const parsedData = JSON.parse(stored);
+    const baseUrl = parsedData.baseUrl || 'https://api.deepseek.com';
 
     return {
       apiKeys: parsedData.apiKeys || {},
       model: parsedData.model || 'deepseek-reasoner',
       temperature: parsedData.temperature, // Keep as undefined if not set
-      baseUrl: parsedData.baseUrl || 'https://api.deepseek.com',
+      sampling: parsedData.sampling,
+      baseUrl,
+      provider: parsedData.provider || providerForBaseUrl(baseUrl),
       stream: parsedData.stream ?? true,
-      chapterWordTarget: parsedData.chapterWordTarget // Keep as undefined if not set
+      chapterWordTarget: parsedData.chapterWordTarget, // Keep as undefined if not set
+      chapterMaxAttempts: parsedData.chapterMaxAttempts,
+      maxRetries: parsedData.maxRetries,
+      contextLength: parsedData.contextLength,
+      cacheTtlHours: parsedData.cacheTtlHours,
+      cacheMaxSizeMb: parsedData.cacheMaxSizeMb,
+      stepRoutes: parsedData.stepRoutes,
+      promptTemplates: parsedData.promptTemplates,
+      pipeline: parsedData.pipeline,
+      autopilot: parsedData.autopilot
     };
   } catch (error) {
     console.error('Failed to load settings:', error);
@@ -3,3 +3,34 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// jsdom lacks the encoders used to read streamed responses
+import { TextEncoder, TextDecoder } from 'util';
+import { webcrypto } from 'crypto';
+
+Object.assign(global, { TextEncoder, TextDecoder });
+
+// or Web Crypto, which hashes response cache keys
+if (!global.crypto?.subtle) {
+  Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+}
+
+// jsdom's Blob cannot be read directly; browsers read files and imports this way
+const readBlob = <T>(blob: Blob, read: (reader: FileReader) => void) =>
+  new Promise<T>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(reader.error);
+    read(reader);
+  });
+
+if (!Blob.prototype.text) {
+  Object.assign(Blob.prototype, {
+    text(this: Blob) {
+      return readBlob<string>(this, reader => reader.readAsText(this));
+    },
+    arrayBuffer(this: Blob) {
+      return readBlob<ArrayBuffer>(this, reader => reader.readAsArrayBuffer(this));
+    }
+  });
+}
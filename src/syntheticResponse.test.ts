@@ -0,0 +1,16 @@
+import { sleep } from './syntheticResponse';
+
+test('sleep stops listening for an abort once it has waited', async () => {
+  const controller = new AbortController();
+  const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+  await sleep(1, controller.signal);
+  expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  controller.abort();
+});
+
+test('sleep rejects with an AbortError when aborted first', async () => {
+  const controller = new AbortController();
+  const waiting = sleep(10000, controller.signal);
+  controller.abort();
+  await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+});
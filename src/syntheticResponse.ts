@@ -0,0 +1,70 @@
+// Fetch Responses built in the browser, for the mock provider and cassette replay
+
+import { TimedChunk } from './types';
+
+const abortError = () => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Resolve after ms, or reject with an AbortError if the signal fires first
+export const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Stream chunks with their delays; failure is thrown by the read after failure.afterChunk chunks
+export function createChunkReader(
+  chunks: TimedChunk[],
+  signal?: AbortSignal | null,
+  failure?: { afterChunk: number; error: Error }
+): ReadableStreamDefaultReader<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return {
+    async read() {
+      if (failure && index >= failure.afterChunk) {
+        await sleep(chunks[index]?.delayMs ?? 0, signal);
+        throw failure.error;
+      }
+      if (index >= chunks.length) return { done: true, value: undefined };
+      const chunk = chunks[index++];
+      await sleep(chunk.delayMs, signal);
+      return { done: false, value: encoder.encode(chunk.data) };
+    },
+    releaseLock() {}
+  } as unknown as ReadableStreamDefaultReader<Uint8Array>;
+}
+
+// Just enough of the Fetch Response interface for APIService
+export function createSyntheticResponse(
+  status: number,
+  body: string,
+  headers: Record<string, string> = {},
+  reader?: ReadableStreamDefaultReader<Uint8Array>
+): Response {
+  const lowerCaseHeaders = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => lowerCaseHeaders[name.toLowerCase()] ?? null },
+    text: async () => body,
+    json: async () => JSON.parse(body),
+    body: reader ? { getReader: () => reader } : null
+  } as unknown as Response;
+}
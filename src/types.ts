@@ -1,6 +1,39 @@
 export interface Message {
   role: 'system' | 'user' | 'assistant';
   content: string;
+  // The step or chapter an assistant message wrote; kept locally and never sent to the API
+  stepId?: number;
+  chapterId?: number;
+}
+
+// A single generated version of a step or chapter
+export interface Revision {
+  id: string;
+  content: string;
+  feedback?: string; // Feedback that produced this revision
+  model: string;
+  temperature?: number;
+  createdAt: number;
+}
+
+// Token counts reported by a provider for one API call
+export interface TokenCounts {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number; // USD, when the provider reports the charge itself
+}
+
+// Usage of one API call, attached to the step or chapter that made it
+export interface UsageRecord extends TokenCounts {
+  model: string;
+  createdAt: number;
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+  source: 'openrouter' | 'manual';
 }
 
 export interface WorkflowStep {
@@ -10,6 +43,20 @@ export interface WorkflowStep {
   completed: boolean;
   feedback?: string;
   isProcessing?: boolean;
+  model?: string; // Model that produced the current content
+  reasoning?: string; // Model's reasoning trace for the current content; never part of content
+  skipped?: boolean; // Optional pipeline step the user chose not to run
+  revisions?: Revision[];
+  usage?: UsageRecord[];
+}
+
+// A chapter's plan, read from the chapter planning and editable before the chapter is written
+export interface ChapterOutline {
+  title: string;
+  summary: string;
+  pov?: string; // Point-of-view character
+  beats: string[];
+  edited?: boolean; // Changed by hand, so a re-run plan doesn't replace it
 }
 
 export interface Chapter {
@@ -19,15 +66,105 @@ export interface Chapter {
   completed: boolean;
   feedback?: string;
   isProcessing?: boolean;
+  attempt?: number; // Generation attempt in progress, counting continuations
+  model?: string; // Model that produced the current content
+  reasoning?: string; // Model's reasoning trace for the current content; never part of content
+  summary?: string; // Stands in for the full text in prompts once the story outgrows the context window
+  outline?: ChapterOutline;
+  revisions?: Revision[];
+  usage?: UsageRecord[];
+}
+
+// Wire protocol used to talk to a provider's API
+export type ProviderId = 'openai' | 'ollama' | 'anthropic' | 'gemini' | 'mock';
+
+// OpenRouter provider routing preferences, sent as the request's "provider" object
+export interface OpenRouterRouting {
+  order?: string[]; // Providers to try first, by slug
+  allowFallbacks?: boolean; // Allow providers outside the order (default: true)
+  sort?: 'price' | 'throughput' | 'latency';
+}
+
+// Sampling parameters beyond temperature; only the ones that are set are sent
+export interface SamplingParams {
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  seed?: number;
+  minP?: number; // OpenRouter and local servers
+  repetitionPenalty?: number; // OpenRouter and local servers
+  openRouter?: OpenRouterRouting; // OpenRouter only
+}
+
+export type SamplingParamKey = keyof SamplingParams;
+
+// Model and sampling settings that replace the defaults for one workflow step
+export interface ModelRoute {
+  model?: string;
+  temperature?: number;
+  sampling?: SamplingParams; // Set fields replace the default sampling parameter of the same name
+}
+
+// Prompts the workflow sends, each editable as a template with {{variables}}; steps are numbered by pipeline position
+export type PromptTemplateId = `step${number}` | 'chapter' | 'continuation';
+
+export type PromptTemplates = Record<PromptTemplateId, string>;
+
+// A named collection of templates saved for reuse across stories
+export interface PromptTemplateSet {
+  id: string;
+  name: string;
+  templates: Partial<PromptTemplates>; // Only the templates that differ from the defaults
+  updatedAt: number;
+}
+
+// One planning step of a workflow pipeline
+export interface PipelineStep {
+  name: string;
+  template: string; // Prompt template, with the same {{variables}} as the built-in steps
+  filename: string; // Markdown file the step's output is exported as
+  chapterContext: boolean; // Always kept in chapter prompts, even when older planning is trimmed to fit the context window
+  optional?: boolean; // Can be skipped
+}
+
+// The planning steps that run, in order, before the chapters are written
+export interface WorkflowPipeline {
+  id: string;
+  name: string;
+  description?: string;
+  steps: PipelineStep[];
+  chapterTemplate?: string; // Replaces the default chapter prompt
+}
+
+// How autopilot runs a story and where it waits for approval
+export interface AutopilotSettings {
+  chapterCount?: number; // Fixed chapter count; the model's CHAPTER_COUNT suggestion is used when unset
+  runOptionalSteps: boolean; // Optional planning steps are skipped otherwise
+  pauseAfterSteps: number[]; // Planning step ids to wait for approval after
+  pauseBeforeChapters: boolean; // Wait for approval once planning is done
+  pauseAfterEachChapter: boolean;
 }
 
 export interface StoryConfig {
   model: string;
   temperature?: number; // Optional - only sent to API if set
+  sampling?: SamplingParams; // Optional - only the parameters that are set are sent
   apiKey: string; // Current API key for selected base URL
   baseUrl: string;
+  provider?: ProviderId; // API protocol for baseUrl (default: openai)
   stream: boolean;
   chapterWordTarget?: number; // Target word count per chapter (default: 3000)
+  chapterMaxAttempts?: number; // Max generation attempts per chapter, including continuations (default: 3)
+  maxRetries?: number; // Automatic retries for rate limits, server and network errors (default: 3)
+  stepRoutes?: Record<number, ModelRoute>; // Per-step overrides keyed by workflow step id (the step after the pipeline's last = chapters)
+  cacheTtlHours?: number; // How long cached responses stay valid (default: 24)
+  cacheMaxSizeMb?: number; // Cache size before least recently used entries are evicted (default: 50)
+  contextLength?: number; // Model context window in tokens (default: looked up from the model name)
+  promptTemplates?: Partial<PromptTemplates>; // Edited prompt templates; the rest use the defaults
+  pipeline?: WorkflowPipeline; // Planning steps to run (default: the classic five-step pipeline)
+  autopilot?: AutopilotSettings;
   storyType?: 'short-story' | 'novel'; // Type of story being generated
 }
 
@@ -41,26 +178,143 @@ export interface WorkflowState {
   streamingContent: string;
   isStreaming: boolean;
   showFeedback: boolean;
+  retryStatus?: RetryStatus;
+}
+
+// A pending automatic retry, shown as a countdown while the request waits
+export interface RetryStatus {
+  attempt: number; // 1-based number of the retry about to be made
+  maxRetries: number;
+  resumeAt: number; // Epoch ms when the retry will be sent
+  reason: string;
 }
 
+// Story configuration persisted with a project (API keys are never stored here)
+export type ProjectConfig = Omit<StoryConfig, 'apiKey'>;
+
+// The part of a story that diverges between branches
+export interface BranchSnapshot {
+  currentStep: number;
+  chapterCount: number;
+  steps: WorkflowStep[];
+  chapters: Chapter[];
+  messages: Message[];
+}
+
+export interface BranchForkPoint {
+  branchId: string;
+  kind: 'step' | 'chapter';
+  targetId: number;
+}
+
+export interface StoryBranch extends BranchSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  forkedFrom?: BranchForkPoint;
+}
+
+export interface StoryProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  storyPrompt: string;
+  storyType: 'short-story' | 'novel';
+  chapterCount: number;
+  currentStep: number;
+  steps: WorkflowStep[];
+  chapters: Chapter[];
+  messages: Message[];
+  config: ProjectConfig;
+  branches?: StoryBranch[];
+  activeBranchId?: string;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  storyType: 'short-story' | 'novel';
+  currentStep: number;
+  planningSteps: number; // Steps in the project's pipeline
+  chapterCount: number;
+  completedChapters: number;
+}
+
+// Partial output of a generation that was still streaming when last checkpointed
+export interface InFlightGeneration {
+  kind: 'step' | 'chapter';
+  targetId: number;
+  partialContent: string;
+  model?: string; // Model writing the response (missing in older checkpoints)
+  temperature?: number;
+  updatedAt: number;
+}
+
+export interface SessionCheckpoint {
+  projectId: string;
+  currentStep: number;
+  inFlight?: InFlightGeneration;
+  savedAt: number;
+}
+
+export type ExportFormat = 'txt' | 'epub' | 'docx' | 'html' | 'project-zip' | 'project-json';
+
+export interface ExportOptions {
+  title: string;
+  author: string;
+  language: string;
+  includePlanning: boolean;
+  manuscriptFont?: 'times' | 'courier'; // DOCX only
+}
+
+// A cached API response, keyed by a SHA-256 of everything that shapes the response
 export interface CacheEntry {
+  key: string;
   content: string;
-  timestamp: number;
+  model: string;
+  baseUrl: string;
+  provider: ProviderId;
+  promptPreview: string; // Start of the last user message, for browsing
+  size: number; // Approximate bytes stored
+  createdAt: number;
+  lastAccessedAt: number;
+  hits: number;
 }
 
-export interface PromptCache {
-  [key: string]: CacheEntry;
+// A piece of a streamed response and how long it took to arrive after the previous one
+export interface TimedChunk {
+  delayMs: number;
+  data: string;
 }
 
-// Workflow step definitions
-export const WORKFLOW_STEPS = [
-  { id: 1, name: 'Brainstorm & Reflection', filename: '01_brainstorm_and_reflection.md' },
-  { id: 2, name: 'Intention & Chapter Planning', filename: '02_intention_and_chapter_planning.md' },
-  { id: 3, name: 'Human vs LLM Critique', filename: '03_human_vs_llm_critique.md' },
-  { id: 4, name: 'Final Plan', filename: '04_final_plan.md' },
-  { id: 5, name: 'Characters', filename: '05_characters.md' },
-  { id: 6, name: 'Write Chapters', filename: 'chapters' }
-] as const;
+// One HTTP exchange captured by the cassette recorder
+export interface CassetteInteraction {
+  method: string;
+  url: string;
+  requestBody?: unknown; // Parsed JSON body; request headers (and so API keys) are never recorded
+  startedAt: number; // ms after recording started
+  latencyMs: number; // Time until the response headers (or the failure) arrived
+  status?: number; // Missing when the request failed before any response
+  headers?: Record<string, string>; // Content-Type and Retry-After only
+  body?: string; // Responses read in one piece (regular and error responses)
+  chunks?: TimedChunk[]; // Raw stream chunks, as received
+  error?: { name: string; message: string }; // Network failure, or what broke the stream after its chunks
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: number;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteStatus {
+  mode: 'off' | 'recording' | 'replaying';
+  interactions: number; // Recorded so far, or replayed so far
+  total?: number; // Interactions on the cassette being replayed
+}
 
 export const CHAPTER_WORD_TARGET = 3000;
 export const CHAPTER_MIN_WORDS = CHAPTER_WORD_TARGET;
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { estimateCost, formatCost, summarizeProjectUsage, summarizeUsageByModel, sumUsage, totalUsage } from './usageUtils';
+import { createPipelineSteps, CLASSIC_PIPELINE } from './pipelines';
+import { createInitialChapters } from './workflowUtils';
+import { ModelPricing, UsageRecord } from './types';
+
+const pricing: Record<string, ModelPricing> = {
+  'planner': { prompt: 3, completion: 15, source: 'manual' },
+  'writer': { prompt: 0.5, completion: 1.5, source: 'openrouter' }
+};
+
+const call = (model: string, promptTokens: number, completionTokens: number, cost?: number): UsageRecord =>
+  ({ model, promptTokens, completionTokens, cost, createdAt: 1 });
+
+const steps = createPipelineSteps(CLASSIC_PIPELINE).map(step => (
+  step.id === 1 ? { ...step, usage: [call('planner', 1000, 2000), call('planner', 1000, 1000)] } : step
+));
+const chapters = createInitialChapters(2).map(chapter => (
+  chapter.id === 2 ? { ...chapter, usage: [call('writer', 4000, 3000), call('writer', 500, 0, 0.25), call('unknown', 10, 10)] } : chapter
+));
+
+test('a call costs its reported amount, or its tokens at the model price', () => {
+  expect(estimateCost(call('planner', 1000000, 1000000), pricing)).toBe(18);
+  expect(estimateCost(call('planner', 1000, 1000, 0.5), pricing)).toBe(0.5);
+  expect(estimateCost(call('unknown', 1000, 1000), pricing)).toBeUndefined();
+});
+
+test('usage adds up per step and chapter, per model and for the whole project', () => {
+  const rows = summarizeProjectUsage(steps, chapters, pricing);
+  expect(rows.map(row => row.label)).toEqual([steps[0].name, 'Chapter 2']);
+  expect(rows[0]).toMatchObject({ calls: 2, promptTokens: 2000, completionTokens: 3000 });
+  expect(rows[0].cost).toBeCloseTo(0.051);
+  // Unpriced calls count towards tokens but not cost
+  expect(rows[1]).toMatchObject({ calls: 3, promptTokens: 4510, completionTokens: 3010, unpricedCalls: 1 });
+  expect(rows[1].cost).toBeCloseTo(0.0065 + 0.25);
+
+  const byModel = summarizeUsageByModel(steps, chapters, pricing);
+  expect(byModel.map(row => [row.label, row.calls])).toEqual([['planner', 2], ['writer', 2], ['unknown', 1]]);
+
+  const total = totalUsage(rows);
+  expect(total).toMatchObject({ calls: 5, promptTokens: 6510, completionTokens: 6010, unpricedCalls: 1 });
+  expect(total.cost).toBeCloseTo(totalUsage(byModel).cost);
+  expect(sumUsage(undefined, pricing)).toEqual({ calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedCalls: 0 });
+});
+
+test('small costs keep enough digits to be seen', () => {
+  expect(formatCost(0)).toBe('$0.00');
+  expect(formatCost(0.0042)).toBe('$0.0042');
+  expect(formatCost(1.234)).toBe('$1.23');
+});
@@ -0,0 +1,82 @@
+import { UsageRecord, ModelPricing, WorkflowStep, Chapter } from './types';
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedCalls: number; // Calls whose cost is unknown because the model has no price
+}
+
+export interface UsageRow extends UsageTotals {
+  label: string;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  unpricedCalls: 0
+});
+
+// Cost of one call: the provider's own figure when reported, otherwise from the price table
+export function estimateCost(record: UsageRecord, pricing: Record<string, ModelPricing>): number | undefined {
+  if (record.cost !== undefined) return record.cost;
+  const price = pricing[record.model];
+  if (!price) return undefined;
+  return (record.promptTokens * price.prompt + record.completionTokens * price.completion) / 1e6;
+}
+
+export function sumUsage(records: UsageRecord[] = [], pricing: Record<string, ModelPricing>): UsageTotals {
+  return records.reduce((totals, record) => {
+    const cost = estimateCost(record, pricing);
+    return {
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      cost: totals.cost + (cost || 0),
+      unpricedCalls: totals.unpricedCalls + (cost === undefined ? 1 : 0)
+    };
+  }, emptyTotals());
+}
+
+// One row per step and chapter that has made any calls
+export function summarizeProjectUsage(
+  steps: WorkflowStep[],
+  chapters: Chapter[],
+  pricing: Record<string, ModelPricing>
+): UsageRow[] {
+  return [
+    ...steps.map(step => ({ label: step.name, ...sumUsage(step.usage, pricing) })),
+    ...chapters.map(chapter => ({ label: `Chapter ${chapter.id}`, ...sumUsage(chapter.usage, pricing) }))
+  ].filter(row => row.calls > 0);
+}
+
+export function summarizeUsageByModel(
+  steps: WorkflowStep[],
+  chapters: Chapter[],
+  pricing: Record<string, ModelPricing>
+): UsageRow[] {
+  const byModel = new Map<string, UsageRecord[]>();
+  [...steps, ...chapters].forEach(item => {
+    (item.usage || []).forEach(record => {
+      byModel.set(record.model, [...(byModel.get(record.model) || []), record]);
+    });
+  });
+  return Array.from(byModel.entries()).map(([model, records]) => ({ label: model, ...sumUsage(records, pricing) }));
+}
+
+export function totalUsage(rows: UsageRow[]): UsageTotals {
+  return rows.reduce((totals, row) => ({
+    calls: totals.calls + row.calls,
+    promptTokens: totals.promptTokens + row.promptTokens,
+    completionTokens: totals.completionTokens + row.completionTokens,
+    cost: totals.cost + row.cost,
+    unpricedCalls: totals.unpricedCalls + row.unpricedCalls
+  }), emptyTotals());
+}
+
+export function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
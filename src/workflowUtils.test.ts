@@ -0,0 +1,54 @@
+import { resolveStepRoute, stitchContinuation } from './workflowUtils';
+import { StoryConfig } from './types';
+
+const config: StoryConfig = {
+  model: 'default-model',
+  temperature: 0.7,
+  sampling: { maxTokens: 2048, topP: 0.9, stop: ['THE END'] },
+  apiKey: '',
+  baseUrl: 'https://openrouter.ai/api/v1',
+  stream: false,
+  stepRoutes: {
+    4: { model: 'reasoning-model', temperature: 0.2 },
+    6: { sampling: { maxTokens: 8192, seed: 7 } }
+  }
+};
+
+test('a step route replaces only the sampling parameters it sets', () => {
+  expect(resolveStepRoute(config, 6)).toEqual({
+    model: 'default-model',
+    temperature: 0.7,
+    sampling: { maxTokens: 8192, topP: 0.9, stop: ['THE END'], seed: 7 }
+  });
+  expect(resolveStepRoute(config, 4)).toEqual({ model: 'reasoning-model', temperature: 0.2, sampling: config.sampling });
+  expect(resolveStepRoute({ ...config, sampling: undefined }, 6).sampling).toEqual({ maxTokens: 8192, seed: 7 });
+  expect(resolveStepRoute({ ...config, sampling: undefined }, 1).sampling).toBeUndefined();
+});
+
+test('a step route falls back to the default model and temperature for what it leaves blank', () => {
+  expect(resolveStepRoute(config, 1)).toEqual({ model: 'default-model', temperature: 0.7, sampling: config.sampling });
+  const routes = { 2: { model: '', temperature: 0 }, 3: { model: 'prose-model' } };
+  expect(resolveStepRoute({ ...config, stepRoutes: routes }, 2)).toMatchObject({ model: 'default-model', temperature: 0 });
+  expect(resolveStepRoute({ ...config, stepRoutes: routes }, 3)).toMatchObject({ model: 'prose-model', temperature: 0.7 });
+  expect(resolveStepRoute({ ...config, temperature: undefined, stepRoutes: undefined }, 3).temperature).toBeUndefined();
+});
+
+test('a continuation that repeats the end of the chapter is joined without the repeat', () => {
+  const existing = 'Mara waited at the harbour. The ferry was late again and the rain kept on.';
+  const continuation = 'The ferry was late again and the rain kept on. Theo finally came down the gangway.';
+  expect(stitchContinuation(existing, continuation))
+    .toBe(`${existing}\n\nTheo finally came down the gangway.`);
+});
+
+test('a repeated chapter heading is dropped and a cut-off sentence carries on', () => {
+  expect(stitchContinuation('She opened the door and', '## Chapter 3 (continued)\n\nstepped into the rain.'))
+    .toBe('She opened the door and stepped into the rain.');
+  // Short coincidental repeats are kept
+  expect(stitchContinuation('He said no.', 'He said no. Then yes.')).toBe('He said no.\n\nHe said no. Then yes.');
+});
+
+test('a continuation with nothing new leaves the chapter as it was', () => {
+  const existing = 'One two three four five six seven.';
+  expect(stitchContinuation(existing, 'three four five six seven.')).toBe(existing);
+  expect(stitchContinuation(existing, '   ')).toBe(existing);
+});